@@ -0,0 +1,238 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { Copy, ExternalLink, Loader2, Mail, Search } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import type { BalanceOrder } from "@/lib/balance"
+import { formatMoney } from "@/lib/shopify/markets"
+
+// The staff API token is kept for the browser session only
+const STAFF_TOKEN_KEY = "lumio_staff_token"
+
+const STATUS_LABELS: Record<BalanceOrder["status"], string> = {
+  due: "Balance due",
+  paid: "Paid in full",
+  cancelled: "Cancelled",
+}
+
+export default function BalanceAdminPage() {
+  const [staffToken, setStaffToken] = useState("")
+  const [orderNumber, setOrderNumber] = useState("")
+  const [order, setOrder] = useState<BalanceOrder | null>(null)
+  const [message, setMessage] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    setStaffToken(window.sessionStorage.getItem(STAFF_TOKEN_KEY) ?? "")
+    setOrderNumber(new URLSearchParams(window.location.search).get("order") ?? "")
+  }, [])
+
+  /**
+   * Calls a staff balance route with the staff token, returning the order it responds with
+   */
+  const requestOrder = async (path: string, init?: RequestInit): Promise<BalanceOrder> => {
+    window.sessionStorage.setItem(STAFF_TOKEN_KEY, staffToken)
+
+    const number = orderNumber.trim().replace(/^#/, "")
+    const response = await fetch(`/api/balance/${encodeURIComponent(number)}${path}`, {
+      ...init,
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${staffToken}` },
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || "Order request failed")
+    }
+
+    return data.order
+  }
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+    setSentTo(null)
+    setCopied(false)
+
+    try {
+      setOrder(await requestOrder(""))
+    } catch (error) {
+      console.error("Error looking up order:", error)
+      setOrder(null)
+      setError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSendBalanceDue = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+    setCopied(false)
+
+    try {
+      const notified = await requestOrder("/notify", {
+        method: "POST",
+        body: JSON.stringify({ message: message || undefined }),
+      })
+      setOrder(notified)
+      setSentTo(notified.email)
+    } catch (error) {
+      console.error("Error sending balance due email:", error)
+      setError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const copyCheckoutUrl = async () => {
+    if (!order?.checkoutUrl) return
+    await navigator.clipboard.writeText(order.checkoutUrl)
+    setCopied(true)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <span className="text-2xl font-bold text-english-violet">Lumio</span>
+              <span className="text-xl">Admin Portal</span>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-12">
+        <div className="max-w-3xl mx-auto space-y-6">
+          <h1 className="text-3xl font-bold mb-8 text-english-violet">Balance Payments</h1>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Find an Order</CardTitle>
+              <CardDescription>Enter the Shopify order number, e.g. #1042.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleLookup} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="staff-token">Staff token</Label>
+                  <Input
+                    id="staff-token"
+                    type="password"
+                    value={staffToken}
+                    onChange={(e) => setStaffToken(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="order-number">Order number</Label>
+                  <Input
+                    id="order-number"
+                    value={orderNumber}
+                    onChange={(e) => setOrderNumber(e.target.value)}
+                    required
+                  />
+                </div>
+                <Button type="submit" variant="outline" disabled={isLoading}>
+                  <Search className="mr-2 h-4 w-4" />
+                  Look Up
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {order && (
+            <Card>
+              <CardHeader>
+                <CardTitle>{`Order ${order.orderName} · ${order.email}`}</CardTitle>
+                <CardDescription>
+                  {STATUS_LABELS[order.status]} · Placed {new Date(order.createdAt).toLocaleDateString()}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <dl className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm">
+                  <dt className="text-gray-500">Items</dt>
+                  <dd>
+                    {order.items.map((item, index) => (
+                      <p key={index}>
+                        {item.quantity} × {item.title}
+                        {item.sellingPlanName && ` (${item.sellingPlanName})`}
+                      </p>
+                    ))}
+                  </dd>
+                  <dt className="text-gray-500">Order total</dt>
+                  <dd>{formatMoney(order.total, order.currencyCode, "en-US")}</dd>
+                  <dt className="text-gray-500">Paid so far</dt>
+                  <dd>{formatMoney(order.paid, order.currencyCode, "en-US")}</dd>
+                  <dt className="text-gray-500">Balance due</dt>
+                  <dd>{formatMoney(order.balance, order.currencyCode, "en-US")}</dd>
+                </dl>
+
+                {order.status === "due" && (
+                  <form id="balance-due" onSubmit={handleSendBalanceDue} className="space-y-2">
+                    <Label htmlFor="balance-message">Message for the buyer (optional)</Label>
+                    <Textarea
+                      id="balance-message"
+                      placeholder="e.g. Thanks for your feedback on the second draft!"
+                      rows={3}
+                      value={message}
+                      onChange={(e) => setMessage(e.target.value)}
+                    />
+                  </form>
+                )}
+
+                {sentTo && <p className="text-sm text-gray-600">Balance due email sent to {sentTo}</p>}
+
+                {order.checkoutUrl && (
+                  <div className="rounded-md border bg-seasalt p-4 space-y-2">
+                    <p className="font-medium text-english-violet">
+                      Checkout link for {formatMoney(order.balance, order.currencyCode, "en-US")}
+                    </p>
+                    <div className="flex items-center gap-2">
+                      <Input readOnly value={order.checkoutUrl} />
+                      <Button type="button" variant="outline" size="icon" onClick={copyCheckoutUrl}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button type="button" variant="outline" size="icon" asChild>
+                        <a href={order.checkoutUrl} target="_blank" rel="noopener noreferrer">
+                          <ExternalLink className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    </div>
+                    {copied && <p className="text-sm text-gray-600">Copied to clipboard</p>}
+                  </div>
+                )}
+              </CardContent>
+              {order.status === "due" && (
+                <CardFooter>
+                  <Button
+                    type="submit"
+                    form="balance-due"
+                    className="bg-english-violet hover:bg-english-violet/90"
+                    disabled={isLoading}
+                  >
+                    {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+                    Send Balance Due Email
+                  </Button>
+                </CardFooter>
+              )}
+            </Card>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
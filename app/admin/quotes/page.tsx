@@ -0,0 +1,255 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { Copy, ExternalLink, Loader2, Search } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import type { Quote } from "@/lib/quotes"
+import { formatMoney } from "@/lib/shopify/markets"
+
+// The staff API token is kept for the browser session only
+const STAFF_TOKEN_KEY = "lumio_staff_token"
+
+const STATUS_LABELS: Record<Quote["status"], string> = {
+  pending: "Awaiting quote",
+  issued: "Quote issued",
+  completed: "Paid",
+}
+
+export default function QuoteAdminPage() {
+  const [staffToken, setStaffToken] = useState("")
+  const [reference, setReference] = useState("")
+  const [quote, setQuote] = useState<Quote | null>(null)
+  const [amount, setAmount] = useState("")
+  const [sendInvoice, setSendInvoice] = useState(true)
+  const [message, setMessage] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    setStaffToken(window.sessionStorage.getItem(STAFF_TOKEN_KEY) ?? "")
+    // Links in the sales notification open the page on their quote
+    setReference(new URLSearchParams(window.location.search).get("reference") ?? "")
+  }, [])
+
+  /**
+   * Calls a staff quote route with the staff token, returning the quote it responds with
+   */
+  const requestQuote = async (path: string, init?: RequestInit): Promise<Quote> => {
+    window.sessionStorage.setItem(STAFF_TOKEN_KEY, staffToken)
+
+    const response = await fetch(`/api/quotes/${encodeURIComponent(reference.trim())}${path}`, {
+      ...init,
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${staffToken}` },
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || "Quote request failed")
+    }
+
+    return data.quote
+  }
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+    setCopied(false)
+
+    try {
+      const found = await requestQuote("")
+      setQuote(found)
+      setAmount(found.total ?? "")
+    } catch (error) {
+      console.error("Error looking up quote:", error)
+      setQuote(null)
+      setError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleIssue = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+    setCopied(false)
+
+    try {
+      const issued = await requestQuote("/issue", {
+        method: "POST",
+        body: JSON.stringify({
+          amount: Number.parseFloat(amount),
+          sendInvoice,
+          message: message || undefined,
+        }),
+      })
+      setQuote(issued)
+    } catch (error) {
+      console.error("Error issuing quote:", error)
+      setError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const copyCheckoutUrl = async () => {
+    if (!quote?.checkoutUrl) return
+    await navigator.clipboard.writeText(quote.checkoutUrl)
+    setCopied(true)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <span className="text-2xl font-bold text-english-violet">Lumio</span>
+              <span className="text-xl">Admin Portal</span>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-12">
+        <div className="max-w-3xl mx-auto space-y-6">
+          <h1 className="text-3xl font-bold mb-8 text-english-violet">Custom Quotes</h1>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Find a Quote Request</CardTitle>
+              <CardDescription>Enter the reference number from the request email, e.g. LQ-7KQ2MX.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleLookup} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="staff-token">Staff token</Label>
+                  <Input
+                    id="staff-token"
+                    type="password"
+                    value={staffToken}
+                    onChange={(e) => setStaffToken(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reference">Reference</Label>
+                  <Input id="reference" value={reference} onChange={(e) => setReference(e.target.value)} required />
+                </div>
+                <Button type="submit" variant="outline" disabled={isLoading}>
+                  <Search className="mr-2 h-4 w-4" />
+                  Look Up
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {quote && (
+            <Card>
+              <CardHeader>
+                <CardTitle>{`${quote.reference} · ${quote.company}`}</CardTitle>
+                <CardDescription>
+                  {STATUS_LABELS[quote.status]} · Draft order {quote.draftOrderName} · Requested{" "}
+                  {new Date(quote.createdAt).toLocaleDateString()}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <dl className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm">
+                  <dt className="text-gray-500">Contact</dt>
+                  <dd>{`${quote.name} (${quote.email})`}</dd>
+                  <dt className="text-gray-500">Website</dt>
+                  <dd>{quote.website ?? "Not provided"}</dd>
+                  <dt className="text-gray-500">Package</dt>
+                  <dd>{quote.packageTitle}</dd>
+                  <dt className="text-gray-500">Users</dt>
+                  <dd>{quote.seatCount}</dd>
+                  <dt className="text-gray-500">Timeline</dt>
+                  <dd>{quote.timeline}</dd>
+                  <dt className="text-gray-500">Notes</dt>
+                  <dd className="whitespace-pre-line">{quote.notes ?? "None"}</dd>
+                </dl>
+
+                {quote.status !== "completed" && (
+                  <form id="issue-quote" onSubmit={handleIssue} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="quote-amount">Total for the team ({quote.currencyCode})</Label>
+                      <Input
+                        id="quote-amount"
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        value={amount}
+                        onChange={(e) => setAmount(e.target.value)}
+                        required
+                      />
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="send-invoice"
+                        checked={sendInvoice}
+                        onCheckedChange={(checked) => setSendInvoice(checked === true)}
+                      />
+                      <Label htmlFor="send-invoice">Email the checkout link to {quote.email}</Label>
+                    </div>
+                    {sendInvoice && (
+                      <Textarea
+                        placeholder="Optional message to include in the email"
+                        rows={3}
+                        value={message}
+                        onChange={(e) => setMessage(e.target.value)}
+                      />
+                    )}
+                  </form>
+                )}
+
+                {quote.checkoutUrl && quote.total && (
+                  <div className="rounded-md border bg-seasalt p-4 space-y-2">
+                    <p className="font-medium text-english-violet">
+                      Checkout link for {formatMoney(quote.total, quote.currencyCode, "en-US")}
+                    </p>
+                    <div className="flex items-center gap-2">
+                      <Input readOnly value={quote.checkoutUrl} />
+                      <Button type="button" variant="outline" size="icon" onClick={copyCheckoutUrl}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button type="button" variant="outline" size="icon" asChild>
+                        <a href={quote.checkoutUrl} target="_blank" rel="noopener noreferrer">
+                          <ExternalLink className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    </div>
+                    {copied && <p className="text-sm text-gray-600">Copied to clipboard</p>}
+                  </div>
+                )}
+              </CardContent>
+              {quote.status !== "completed" && (
+                <CardFooter>
+                  <Button
+                    type="submit"
+                    form="issue-quote"
+                    className="bg-english-violet hover:bg-english-violet/90"
+                    disabled={isLoading}
+                  >
+                    {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {quote.status === "issued" ? "Update Quote" : "Issue Quote"}
+                  </Button>
+                </CardFooter>
+              )}
+            </Card>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
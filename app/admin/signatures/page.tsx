@@ -3,6 +3,7 @@
 import type React from "react"
 
 import { useState } from "react"
+import GoogleWorkspaceDeploy from "@/components/google-workspace-deploy"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
@@ -176,6 +177,11 @@ export default function SignatureAdminPage() {
             </Card>
           </div>
 
+          {/* Google Workspace Card */}
+          <div className="mb-10">
+            <GoogleWorkspaceDeploy />
+          </div>
+
           {/* Employee Table */}
           <Card>
             <CardHeader>
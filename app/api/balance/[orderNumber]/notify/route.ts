@@ -0,0 +1,85 @@
+import { Resend } from "resend"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { AdminApiError } from "@/lib/shopify/admin"
+import { createBalanceCheckout, getBalanceOrder } from "@/lib/shopify/balance"
+import { formatMoney } from "@/lib/shopify/markets"
+import type { BalanceOrder } from "@/lib/balance"
+import { balanceDueSchema } from "@/lib/balance"
+import { escapeHtml } from "@/lib/email"
+import { isStaffRequest } from "@/lib/staff"
+import { config } from "@/lib/config"
+
+// Initialize Resend with the API key from the deployment's configuration
+const resend = new Resend(config.email.resendApiKey)
+
+/**
+ * Emails the buyer that their animation is approved and their balance is due, with its checkout link
+ */
+async function sendBalanceDueEmail(order: BalanceOrder, balancePageUrl: string, message?: string) {
+  const balance = formatMoney(order.balance, order.currencyCode, "en-US")
+  const paid = formatMoney(order.paid, order.currencyCode, "en-US")
+
+  return resend.emails.send({
+    from: config.email.from,
+    to: order.email,
+    replyTo: config.email.to,
+    subject: `Your animation is approved: balance due for order ${order.orderName}`,
+    html: `
+      <p>Hi,</p>
+      <p>Your animation for order ${escapeHtml(order.orderName)} has been approved and is ready for delivery.</p>
+      ${message ? `<p>${escapeHtml(message).replace(/\n/g, "<br>")}</p>` : ""}
+      <p>You paid a deposit of ${paid}. The remaining balance is <strong>${balance}</strong>.</p>
+      <p><a href="${order.checkoutUrl}">Pay your balance</a></p>
+      <p>You can also look up your order at <a href="${balancePageUrl}">${balancePageUrl}</a>.</p>
+      <p>The Lumio team</p>
+    `,
+  })
+}
+
+// Staff only: sends the "balance due" email once an order's animation is approved
+export async function POST(request: Request, { params }: { params: Promise<{ orderNumber: string }> }) {
+  if (!isStaffRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const orderNumber = (await params).orderNumber.replace(/^#/, "")
+    const { message } = balanceDueSchema.parse(await request.json())
+
+    const found = /^\d{1,10}$/.test(orderNumber) ? await getBalanceOrder(orderNumber) : null
+    if (!found) {
+      return NextResponse.json({ error: "Order not found", details: orderNumber }, { status: 404 })
+    }
+
+    const order = await createBalanceCheckout(found)
+    const { error } = await sendBalanceDueEmail(
+      order,
+      new URL(`/balance?order=${orderNumber}`, request.url).toString(),
+      message,
+    )
+
+    if (error) {
+      console.error(`Resend API error for order ${order.orderName}:`, error)
+      return NextResponse.json({ error: "Failed to send the balance due email", details: error }, { status: 502 })
+    }
+
+    console.log(`Sent balance due email for order ${order.orderName}`)
+    return NextResponse.json({ order })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Invalid request body", code: "INVALID_REQUEST" }, { status: 400 })
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid message", details: error.flatten().fieldErrors }, { status: 400 })
+    }
+
+    if (error instanceof AdminApiError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: error.status })
+    }
+
+    console.error("Balance due email error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { AdminApiError } from "@/lib/shopify/admin"
+import { getBalanceOrder } from "@/lib/shopify/balance"
+import { isStaffRequest } from "@/lib/staff"
+
+// Staff only: looks up an order's deposit and balance by order number
+export async function GET(request: Request, { params }: { params: Promise<{ orderNumber: string }> }) {
+  if (!isStaffRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const orderNumber = (await params).orderNumber.replace(/^#/, "")
+    const order = /^\d{1,10}$/.test(orderNumber) ? await getBalanceOrder(orderNumber) : null
+
+    if (!order) {
+      return NextResponse.json({ error: "Order not found", details: orderNumber }, { status: 404 })
+    }
+
+    return NextResponse.json({ order })
+  } catch (error) {
+    if (error instanceof AdminApiError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: error.status })
+    }
+
+    console.error("Balance lookup error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { AdminApiError } from "@/lib/shopify/admin"
+import { createBalanceCheckout, getBalanceOrder } from "@/lib/shopify/balance"
+import { balanceLookupSchema } from "@/lib/balance"
+import type { RateLimit } from "@/lib/rate-limit"
+import { getClientIp, rateLimitedResponse, takeRateLimit } from "@/lib/rate-limit"
+
+// Every call creates a draft order in Shopify
+const IP_RATE_LIMIT: RateLimit = { limit: 5, windowMs: 15 * 60 * 1000 }
+
+// Returns a checkout link for an order's balance, checked against the email it was placed with
+export async function POST(request: Request) {
+  try {
+    const retryAfter = takeRateLimit(`balance-checkout:ip:${getClientIp(request)}`, IP_RATE_LIMIT)
+    if (retryAfter !== null) {
+      console.warn(`Balance checkouts rate limited for ${getClientIp(request)}`)
+      return rateLimitedResponse(retryAfter)
+    }
+
+    const { orderNumber, email } = balanceLookupSchema.parse(await request.json())
+
+    const order = await getBalanceOrder(orderNumber, email)
+    if (!order) {
+      return NextResponse.json({ error: "We couldn't find an order with that number and email" }, { status: 404 })
+    }
+
+    return NextResponse.json({ order: await createBalanceCheckout(order) })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Invalid request body", code: "INVALID_REQUEST" }, { status: 400 })
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid order lookup", details: error.flatten().fieldErrors }, { status: 400 })
+    }
+
+    if (error instanceof AdminApiError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: error.status })
+    }
+
+    console.error("Balance checkout error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
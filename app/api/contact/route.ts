@@ -1,8 +1,9 @@
 import { Resend } from "resend"
 import { NextResponse } from "next/server"
+import { config } from "@/lib/config"
 
-// Initialize Resend with the API key from environment variables
-const resend = new Resend(process.env.RESEND_API_KEY)
+// Initialize Resend with the API key from the deployment's configuration
+const resend = new Resend(config.email.resendApiKey)
 
 export async function POST(request: Request) {
   try {
@@ -29,8 +30,8 @@ export async function POST(request: Request) {
 
     // Send the email using Resend
     const { data, error } = await resend.emails.send({
-      from: "hello@golumio.co",
-      to: "chris@golumio.co",
+      from: config.email.from,
+      to: config.email.to,
       subject: `New Contact Form Submission from ${name}`,
       html: emailContent,
       reply_to: email,
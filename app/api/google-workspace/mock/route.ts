@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server"
+import { getMockSendAsSettings, isMockGoogleWorkspace } from "@/lib/google-workspace/mock"
+
+// Mailboxes of the offline Gmail stand-in with their signatures; only exists when GOOGLE_WORKSPACE_MOCK=true
+export async function GET() {
+  if (!isMockGoogleWorkspace()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+
+  return NextResponse.json({ sendAs: getMockSendAsSettings() })
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { AdminApiError } from "@/lib/shopify/admin"
+import { getQuote, issueQuote } from "@/lib/shopify/quotes"
+import { issueQuoteSchema } from "@/lib/quotes"
+import { isStaffRequest } from "@/lib/staff"
+
+// Staff only: prices a quote request and returns its draft order checkout link
+export async function POST(request: Request, { params }: { params: Promise<{ reference: string }> }) {
+  if (!isStaffRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const { reference } = await params
+    const input = issueQuoteSchema.parse(await request.json())
+
+    const quote = await getQuote(reference.toUpperCase())
+    if (!quote) {
+      return NextResponse.json({ error: "Quote not found", details: reference }, { status: 404 })
+    }
+
+    return NextResponse.json({ quote: await issueQuote(quote, input) })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Invalid request body", code: "INVALID_REQUEST" }, { status: 400 })
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid quote", details: error.flatten().fieldErrors }, { status: 400 })
+    }
+
+    if (error instanceof AdminApiError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: error.status })
+    }
+
+    console.error("Quote issue error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
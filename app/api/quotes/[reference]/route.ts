@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { AdminApiError } from "@/lib/shopify/admin"
+import { getQuote } from "@/lib/shopify/quotes"
+import { isStaffRequest } from "@/lib/staff"
+
+// Staff only: looks up a quote request by reference number
+export async function GET(request: Request, { params }: { params: Promise<{ reference: string }> }) {
+  if (!isStaffRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const { reference } = await params
+    const quote = await getQuote(reference.toUpperCase())
+
+    if (!quote) {
+      return NextResponse.json({ error: "Quote not found", details: reference }, { status: 404 })
+    }
+
+    return NextResponse.json({ quote })
+  } catch (error) {
+    if (error instanceof AdminApiError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: error.status })
+    }
+
+    console.error("Quote lookup error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,145 @@
+import { Resend } from "resend"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { CATALOG_COLLECTIONS } from "@/lib/shopify"
+import { getCatalogProducts } from "@/lib/shopify/catalog"
+import { getMarket } from "@/lib/shopify/markets"
+import { getSessionMarket } from "@/lib/shopify/market-session"
+import { AdminApiError } from "@/lib/shopify/admin"
+import { createQuoteRequest } from "@/lib/shopify/quotes"
+import { storefrontErrorResponse, StorefrontError } from "@/lib/shopify/storefront"
+import type { Quote } from "@/lib/quotes"
+import { QUOTE_HONEYPOT_FIELD, quoteRequestSchema } from "@/lib/quotes"
+import { escapeHtml } from "@/lib/email"
+import { config } from "@/lib/config"
+import type { RateLimit } from "@/lib/rate-limit"
+import { getClientIp, rateLimitedResponse, takeRateLimit } from "@/lib/rate-limit"
+
+// Initialize Resend with the API key from the deployment's configuration
+const resend = new Resend(config.email.resendApiKey)
+
+// Each request emails the address it was given, so both the sender and the recipient are limited
+const IP_RATE_LIMIT: RateLimit = { limit: 5, windowMs: 60 * 60 * 1000 }
+const EMAIL_RATE_LIMIT: RateLimit = { limit: 3, windowMs: 24 * 60 * 60 * 1000 }
+const RATE_LIMITED_MESSAGE = "Too many quote requests. Please try again later."
+
+/**
+ * Emails sales the new request and the requester their reference number
+ *
+ * The request is already stored in Shopify, so a failed email is logged rather than failing the request.
+ */
+async function sendQuoteRequestEmails(quote: Quote, staffUrl: string) {
+  const details = [
+    ["Reference", quote.reference],
+    ["Name", quote.name],
+    ["Email", quote.email],
+    ["Company", quote.company],
+    ["Website", quote.website ?? "Not provided"],
+    ["Users", quote.seatCount.toString()],
+    ["Package", quote.packageTitle],
+    ["Timeline", quote.timeline],
+    ["Currency", quote.currencyCode],
+  ]
+    .map(([label, value]) => `<p><strong>${label}:</strong> ${escapeHtml(value)}</p>`)
+    .join("")
+
+  const { error } = await resend.batch.send([
+    {
+      from: config.email.from,
+      to: config.email.to,
+      subject: `Quote request ${quote.reference} from ${quote.company} (${quote.seatCount} users)`,
+      html: `
+        <h2>New Custom Quote Request</h2>
+        ${details}
+        <h3>Notes:</h3>
+        <p>${quote.notes ? escapeHtml(quote.notes).replace(/\n/g, "<br>") : "None"}</p>
+        <p><a href="${staffUrl}">Price this quote</a> (draft order ${escapeHtml(quote.draftOrderName)} in Shopify)</p>
+      `,
+      replyTo: quote.email,
+    },
+    {
+      from: config.email.from,
+      to: quote.email,
+      subject: `We received your quote request (${quote.reference})`,
+      html: `
+        <p>Hi ${escapeHtml(quote.name)},</p>
+        <p>Thanks for your interest in animated signatures for ${escapeHtml(quote.company)}. We'll be in touch
+        within one business day with a quote for ${quote.seatCount} users.</p>
+        <p>Your reference number is <strong>${quote.reference}</strong>.</p>
+        <p>The Lumio team</p>
+      `,
+    },
+  ])
+
+  if (error) {
+    console.error(`Resend API error for quote ${quote.reference}:`, error)
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const ipRetryAfter = takeRateLimit(`quotes:ip:${getClientIp(request)}`, IP_RATE_LIMIT)
+    if (ipRetryAfter !== null) {
+      console.warn(`Quote requests rate limited for ${getClientIp(request)}`)
+      return rateLimitedResponse(ipRetryAfter, RATE_LIMITED_MESSAGE)
+    }
+
+    const body = await request.json()
+
+    // A filled-in honeypot means a bot filled in the form; it gets the same answer as any invalid request
+    if (body?.[QUOTE_HONEYPOT_FIELD]) {
+      console.warn("Quote request rejected by the honeypot field")
+      return NextResponse.json({ error: "Invalid quote request", code: "INVALID_REQUEST" }, { status: 400 })
+    }
+
+    const input = quoteRequestSchema.parse(body)
+
+    const emailRetryAfter = takeRateLimit(`quotes:email:${input.email.toLowerCase()}`, EMAIL_RATE_LIMIT)
+    if (emailRetryAfter !== null) {
+      console.warn(`Quote requests rate limited for ${input.email}`)
+      return rateLimitedResponse(emailRetryAfter, RATE_LIMITED_MESSAGE)
+    }
+
+    // Look the package up in the catalog the requester saw, so the quote is in their currency
+    const market = input.country ? getMarket(input.country) : await getSessionMarket()
+    const products = await getCatalogProducts(CATALOG_COLLECTIONS.signatures, market)
+    const product = products.find((product) => product.id === input.productId)
+
+    if (!product) {
+      return NextResponse.json(
+        { error: "Unknown package", code: "INVALID_REQUEST", details: input.productId },
+        { status: 400 },
+      )
+    }
+
+    const quote = await createQuoteRequest(input, product)
+    await sendQuoteRequestEmails(quote, new URL(`/admin/quotes?reference=${quote.reference}`, request.url).toString())
+
+    return NextResponse.json({ reference: quote.reference }, { status: 201 })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Invalid request body", code: "INVALID_REQUEST" }, { status: 400 })
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid quote request", code: "INVALID_REQUEST", details: error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    if (error instanceof StorefrontError) {
+      return storefrontErrorResponse(error)
+    }
+
+    if (error instanceof AdminApiError) {
+      return NextResponse.json(
+        { error: error.message, code: "SHOPIFY_ERROR", details: error.details },
+        { status: error.status },
+      )
+    }
+
+    console.error("Quote request error:", error)
+    return NextResponse.json({ error: "Internal server error", code: "SHOPIFY_ERROR" }, { status: 500 })
+  }
+}
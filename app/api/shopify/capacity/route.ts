@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { CATALOG_COLLECTIONS } from "@/lib/shopify"
+import { AdminApiError } from "@/lib/shopify/admin"
+import { getCollectionSchedules } from "@/lib/shopify/capacity"
+import { storefrontErrorResponse, StorefrontError } from "@/lib/shopify/storefront"
+
+const capacitySchema = z.object({
+  collection: z.enum([CATALOG_COLLECTIONS.signatures, CATALOG_COLLECTIONS.avatars]),
+})
+
+// Standard and rush production slots for the packages of a calculator
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const { collection } = capacitySchema.parse({ collection: searchParams.get("collection") })
+
+    const schedules = await getCollectionSchedules(collection)
+
+    return NextResponse.json({ schedules })
+  } catch (error) {
+    if (error instanceof StorefrontError) {
+      return storefrontErrorResponse(error)
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Unknown collection", code: "INVALID_REQUEST", details: error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    if (error instanceof AdminApiError) {
+      return NextResponse.json({ error: error.message, code: "SHOPIFY_ERROR", details: error.details }, { status: 502 })
+    }
+
+    console.error("Shopify capacity API error:", error)
+    return NextResponse.json(
+      { error: "An error occurred while loading delivery dates", code: "SHOPIFY_ERROR" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { cartLineInputSchema, discountCodeSchema, previewCartDiscount } from "@/lib/shopify/cart"
+import { storefrontErrorResponse, StorefrontError } from "@/lib/shopify/storefront"
+import type { RateLimit } from "@/lib/rate-limit"
+import { getClientIp, rateLimitedResponse, takeRateLimit } from "@/lib/rate-limit"
+
+// Each preview creates a Shopify cart, and an unlimited route would let anyone try codes until one works
+const IP_RATE_LIMIT: RateLimit = { limit: 10, windowMs: 5 * 60 * 1000 }
+
+const previewSchema = z.object({
+  code: discountCodeSchema,
+  lines: z.array(cartLineInputSchema).min(1).max(10),
+})
+
+// Checks a promo code against the calculator's selection without changing the session cart
+export async function POST(request: Request) {
+  try {
+    const retryAfter = takeRateLimit(`discount-codes:ip:${getClientIp(request)}`, IP_RATE_LIMIT)
+    if (retryAfter !== null) {
+      console.warn(`Discount code previews rate limited for ${getClientIp(request)}`)
+      return rateLimitedResponse(retryAfter, "Too many discount code checks. Please try again later.")
+    }
+
+    const { code, lines } = previewSchema.parse(await request.json())
+
+    const cart = await previewCartDiscount(lines, code)
+
+    return NextResponse.json({ cart })
+  } catch (error) {
+    if (error instanceof StorefrontError) {
+      return storefrontErrorResponse(error)
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Invalid request body", code: "INVALID_REQUEST" }, { status: 400 })
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid discount code", code: "INVALID_REQUEST", details: error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    console.error("Shopify discount code API error:", error)
+    return NextResponse.json(
+      { error: "An error occurred while checking the discount code", code: "SHOPIFY_ERROR" },
+      { status: 500 },
+    )
+  }
+}
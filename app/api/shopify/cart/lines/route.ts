@@ -0,0 +1,121 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import {
+  addSessionCartLines,
+  cartLineInputSchema,
+  discountCodeSchema,
+  getSessionCart,
+  removeSessionCartLines,
+  updateSessionCartLines,
+  withIdempotency,
+} from "@/lib/shopify/cart"
+import { storefrontErrorResponse, StorefrontError } from "@/lib/shopify/storefront"
+import { assertSlotsAvailable } from "@/lib/shopify/capacity"
+import { assertBundleLines } from "@/lib/shopify/catalog"
+import { getBundleRule } from "@/lib/bundles"
+
+const addLinesSchema = z.object({
+  lines: z.array(cartLineInputSchema).min(1),
+  bundleId: z.string().optional(),
+  discountCode: discountCodeSchema.optional(),
+})
+
+const updateLinesSchema = z.object({
+  lines: z.array(z.object({ id: z.string(), quantity: z.number().int().min(0) })).min(1),
+})
+
+const removeLinesSchema = z.object({
+  lineIds: z.array(z.string()).min(1),
+})
+
+/**
+ * Turns cart errors into JSON responses shared by every handler in this route
+ */
+function cartErrorResponse(error: unknown, action: string) {
+  if (error instanceof StorefrontError) {
+    return storefrontErrorResponse(error)
+  }
+
+  if (error instanceof SyntaxError) {
+    return NextResponse.json({ error: "Invalid request body", code: "INVALID_REQUEST" }, { status: 400 })
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: "Invalid cart request", code: "INVALID_REQUEST", details: error.flatten().fieldErrors },
+      { status: 400 },
+    )
+  }
+
+  console.error(`Shopify cart API error (${action}):`, error)
+  return NextResponse.json({ error: `An error occurred while ${action}`, code: "SHOPIFY_ERROR" }, { status: 500 })
+}
+
+// cartLinesAdd (creates the session cart on first use)
+export async function POST(request: Request) {
+  try {
+    const { lines, bundleId, discountCode } = addLinesSchema.parse(await request.json())
+
+    // Bundle rules are looked up here so the browser can't choose which discount code gets applied
+    const bundle = bundleId ? getBundleRule(bundleId) : null
+    if (bundleId && !bundle) {
+      return NextResponse.json({ error: "Unknown bundle", code: "INVALID_REQUEST", details: bundleId }, { status: 400 })
+    }
+    // The bundle's discount code is only applied to the avatar and signature pair it covers
+    if (bundle) {
+      await assertBundleLines(bundle, lines)
+    }
+
+    const bundleLines = bundle
+      ? lines.map((line) => ({ ...line, attributes: [...line.attributes, { key: "Bundle", value: bundle.name }] }))
+      : lines
+    const discountCodes = [bundle?.discountCode, discountCode].filter((code): code is string => Boolean(code))
+
+    const cart = await withIdempotency(request.headers.get("idempotency-key"), async () => {
+      // Production weeks reserved by the calculators may have filled up since the page loaded, and the cart
+      // may already hold packages for the same week
+      const existingCart = await getSessionCart()
+      await assertSlotsAvailable(lines, existingCart?.lines)
+
+      return addSessionCartLines(bundleLines, discountCodes)
+    })
+
+    return NextResponse.json({ cart })
+  } catch (error) {
+    return cartErrorResponse(error, "adding to the cart")
+  }
+}
+
+// cartLinesUpdate
+export async function PATCH(request: Request) {
+  try {
+    const { lines } = updateLinesSchema.parse(await request.json())
+
+    // Raising a quantity books more slots in the line's production week
+    const existingCart = await getSessionCart()
+    if (existingCart) {
+      const raised = existingCart.lines.flatMap((line) => {
+        const update = lines.find((update) => update.id === line.id)
+        return update && update.quantity > line.quantity ? [{ ...line, quantity: update.quantity }] : []
+      })
+      const others = existingCart.lines.filter((line) => !raised.some((raisedLine) => raisedLine.id === line.id))
+      await assertSlotsAvailable(raised, others)
+    }
+
+    const cart = await updateSessionCartLines(lines)
+    return NextResponse.json({ cart })
+  } catch (error) {
+    return cartErrorResponse(error, "updating the cart")
+  }
+}
+
+// cartLinesRemove
+export async function DELETE(request: Request) {
+  try {
+    const { lineIds } = removeLinesSchema.parse(await request.json())
+    const cart = await removeSessionCartLines(lineIds)
+    return NextResponse.json({ cart })
+  } catch (error) {
+    return cartErrorResponse(error, "removing from the cart")
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { updateSessionCartMarket } from "@/lib/shopify/cart"
+import { getMarket, MARKET_COUNTRIES } from "@/lib/shopify/markets"
+import { setSessionMarket } from "@/lib/shopify/market-session"
+import { storefrontErrorResponse, StorefrontError } from "@/lib/shopify/storefront"
+
+const marketSchema = z.object({
+  country: z.enum(MARKET_COUNTRIES),
+})
+
+// Switches the visitor's market and moves their session cart to the new currency
+export async function POST(request: Request) {
+  try {
+    const { country } = marketSchema.parse(await request.json())
+    const market = getMarket(country)
+
+    await setSessionMarket(market)
+    const cart = await updateSessionCartMarket(market)
+
+    return NextResponse.json({ market, cart })
+  } catch (error) {
+    if (error instanceof StorefrontError) {
+      return storefrontErrorResponse(error)
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Invalid request body", code: "INVALID_REQUEST" }, { status: 400 })
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Unsupported market", code: "INVALID_REQUEST", details: error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    console.error("Shopify market API error:", error)
+    return NextResponse.json(
+      { error: "An error occurred while changing the market", code: "SHOPIFY_ERROR" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { executeMockOperation, getMockFaultResponse, isMockStorefront } from "@/lib/shopify/mock/storefront"
+
+// GraphQL endpoint for the offline Storefront stand-in; only exists when SHOPIFY_STOREFRONT_MOCK=true
+export async function POST(request: Request) {
+  if (!isMockStorefront()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+
+  const faultResponse = getMockFaultResponse()
+  if (faultResponse) return faultResponse
+
+  try {
+    const { query, variables } = await request.json()
+
+    if (typeof query !== "string") {
+      return NextResponse.json({ errors: [{ message: "Missing query" }] }, { status: 400 })
+    }
+
+    return NextResponse.json(executeMockOperation(query, variables ?? {}))
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ errors: [{ message: "Invalid request body" }] }, { status: 400 })
+    }
+
+    console.error("Mock Storefront error:", error)
+    return NextResponse.json({ errors: [{ message: "Mock Storefront error" }] }, { status: 500 })
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server"
+import { config } from "@/lib/config"
+import { invalidateCatalog } from "@/lib/shopify/catalog"
+import { settleBalancePayment } from "@/lib/shopify/balance"
+import { invalidateCapacity } from "@/lib/shopify/capacity"
+import {
+  isCapacityWebhookTopic,
+  isCatalogWebhookTopic,
+  ORDER_PAID_WEBHOOK_TOPIC,
+  verifyShopifyWebhook,
+} from "@/lib/shopify/webhooks"
+
+export async function POST(request: Request) {
+  try {
+    const SHOPIFY_WEBHOOK_SECRET = config.shopify.webhookSecret
+
+    if (!SHOPIFY_WEBHOOK_SECRET) {
+      console.error("Shopify webhook secret is missing. Check your environment variables.")
+      return NextResponse.json({ error: "Shopify webhook secret is missing" }, { status: 500 })
+    }
+
+    // The HMAC is computed over the raw body, so read it as text before parsing
+    const rawBody = await request.text()
+    const hmacHeader = request.headers.get("x-shopify-hmac-sha256")
+
+    if (!verifyShopifyWebhook(rawBody, hmacHeader, SHOPIFY_WEBHOOK_SECRET)) {
+      console.warn("Rejected Shopify webhook with invalid HMAC")
+      return NextResponse.json({ error: "Invalid webhook signature" }, { status: 401 })
+    }
+
+    const topic = request.headers.get("x-shopify-topic")
+    console.log(`Received Shopify webhook: ${topic}`)
+
+    if (topic === ORDER_PAID_WEBHOOK_TOPIC) {
+      const settled = await settleBalancePayment(JSON.parse(rawBody))
+      return NextResponse.json({ success: true, ignored: !settled })
+    }
+
+    if (isCapacityWebhookTopic(topic)) {
+      invalidateCapacity()
+      return NextResponse.json({ success: true })
+    }
+
+    if (!isCatalogWebhookTopic(topic)) {
+      // Acknowledge topics we don't act on so Shopify doesn't retry them
+      return NextResponse.json({ success: true, ignored: true })
+    }
+
+    // A product can belong to several collections, so any catalog change clears every cached collection
+    invalidateCatalog()
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Shopify webhook error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
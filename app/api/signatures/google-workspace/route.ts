@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { getTenant } from "@/data/tenants"
+import { deploySignatures } from "@/lib/google-workspace/deploy"
+import { signatureDeploymentSchema } from "@/lib/signatures/deployment"
+import { isStaffRequest } from "@/lib/staff"
+
+// Staff only: pushes a tenant's signatures to its employees' Gmail mailboxes, or with `dryRun` reports what
+// would change, with the outcome for each employee
+export async function POST(request: Request) {
+  if (!isStaffRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const { tenantId, dryRun, employeeIds } = signatureDeploymentSchema.parse(await request.json())
+
+    const tenant = getTenant(tenantId)
+    if (!tenant) {
+      return NextResponse.json({ error: "Tenant not found" }, { status: 404 })
+    }
+    if (!tenant.googleWorkspaceDomain) {
+      return NextResponse.json({ error: `${tenant.name} isn't on Google Workspace` }, { status: 400 })
+    }
+
+    const unknownIds = employeeIds?.filter((id) => !tenant.employees.some((employee) => employee.id === id))
+    if (unknownIds?.length) {
+      return NextResponse.json({ error: "Employee not found", details: unknownIds }, { status: 404 })
+    }
+
+    return NextResponse.json(await deploySignatures(tenant, { dryRun, employeeIds }))
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 })
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid deployment request", details: error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    console.error("Signature deployment error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { getTenantEmployee } from "@/data/tenants"
+import { buildOutlookPackage } from "@/lib/signatures/outlook-package"
+import { applySignatureEdits, signatureRequestSchema } from "@/lib/signatures/template"
+
+// Builds the zip an employee installs their signature in Outlook for Windows from
+export async function POST(request: Request) {
+  try {
+    const { tenantId, employeeId, edits } = signatureRequestSchema.parse(await request.json())
+
+    const found = getTenantEmployee(tenantId, employeeId)
+    if (!found) {
+      return NextResponse.json({ error: "Employee not found" }, { status: 404 })
+    }
+
+    const { tenant, employee } = found
+    const { fileName, zip } = await buildOutlookPackage(
+      tenant.signatureTemplate,
+      applySignatureEdits(employee, edits),
+      tenant.name,
+    )
+
+    // The plain `filename` is for browsers that don't read the UTF-8 `filename*`
+    const asciiFileName = fileName.replace(/[^\x20-\x7e]/g, "_").replace(/"/g, "")
+    const disposition = `attachment; filename="${asciiFileName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+
+    return new NextResponse(zip, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": disposition,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Invalid request body", code: "INVALID_REQUEST" }, { status: 400 })
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid signature", details: error.flatten().fieldErrors }, { status: 400 })
+    }
+
+    console.error("Outlook signature package error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
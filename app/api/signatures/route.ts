@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { getTenantEmployee } from "@/data/tenants"
+import { config } from "@/lib/config"
+import { renderSignature, renderSignatureText } from "@/lib/signatures/render"
+import { applySignatureEdits, signatureRequestSchema } from "@/lib/signatures/template"
+
+// Renders an employee's signature, with the edits they made in the delivery portal, to email-safe HTML and
+// its plain-text version
+export async function POST(request: Request) {
+  try {
+    const { tenantId, employeeId, edits } = signatureRequestSchema.parse(await request.json())
+
+    const found = getTenantEmployee(tenantId, employeeId)
+    if (!found) {
+      return NextResponse.json({ error: "Employee not found" }, { status: 404 })
+    }
+
+    const { tenant, employee } = found
+    const editedEmployee = applySignatureEdits(employee, edits)
+    const html = renderSignature(tenant.signatureTemplate, editedEmployee, { assetBaseUrl: config.siteUrl })
+    const text = renderSignatureText(tenant.signatureTemplate, editedEmployee)
+
+    return NextResponse.json({ html, text })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Invalid request body", code: "INVALID_REQUEST" }, { status: 400 })
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid signature", details: error.flatten().fieldErrors }, { status: 400 })
+    }
+
+    console.error("Signature render error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -7,10 +7,16 @@ import FAQ from "@/components/faq"
 import Footer from "@/components/footer"
 import AvatarMockup from "@/components/avatar-mockup"
 import GmailOnlyBadge from "@/components/gmail-only-badge"
+import PricingCalculatorLoading from "@/components/pricing-calculator-loading"
+import BundlePricing from "@/components/bundle-pricing"
 import type { Metadata } from "next"
+import { Suspense } from "react"
 import ConvaiWidget from "@/components/convai-widget"
+import { CATALOG_COLLECTIONS } from "@/lib/shopify"
+import { loadCatalogProducts } from "@/lib/shopify/catalog"
+import { getSessionMarket } from "@/lib/shopify/market-session"
 
-// Skip server-side data fetching during build
+// Render per request so prices come from the (webhook-invalidated) catalog cache
 export const dynamic = "force-dynamic"
 
 export const metadata: Metadata = {
@@ -36,6 +42,40 @@ export const metadata: Metadata = {
   },
 }
 
+const pricingTitle = "Choose Your Package"
+
+const pricingDescription = (
+  <div className="text-center">
+    <p className="mb-2">
+      Every package includes installation and two revision rounds, ensuring your animation is flawlessly
+      crafted. If additional revisions are needed, we’ll provide a personalized quote.
+    </p>
+    <p className="text-sm text-gray-600 font-medium">
+      <span className="inline-flex items-center px-2 py-1 rounded-full bg-red-100 text-red-700 text-xs mr-2">
+        Note
+      </span>
+      Currently optimized for Gmail (other email clinets will display brand logo image).
+    </p>
+  </div>
+)
+
+/**
+ * Loads the avatar catalog on the server and streams the calculator in with prices already rendered
+ */
+async function AvatarPricing() {
+  const market = await getSessionMarket()
+  const products = await loadCatalogProducts(CATALOG_COLLECTIONS.avatars, market)
+
+  return (
+    <AvatarPricingCalculator
+      title={pricingTitle}
+      description={pricingDescription}
+      products={products}
+      market={market}
+    />
+  )
+}
+
 export default function AvatarsPage() {
   const avatarFaqs = [
     {
@@ -108,25 +148,13 @@ export default function AvatarsPage() {
 
       <HowItWorks title="How It Works" steps={avatarSteps} />
 
-      {/* Client component that will fetch products on the client side */}
-      <AvatarPricingCalculator
-        title="Choose Your Package"
-        description={
-          <div className="text-center">
-            <p className="mb-2">
-              Every package includes installation and two revision rounds, ensuring your animation is flawlessly
-              crafted. If additional revisions are needed, we’ll provide a personalized quote.
-            </p>
-            <p className="text-sm text-gray-600 font-medium">
-              <span className="inline-flex items-center px-2 py-1 rounded-full bg-red-100 text-red-700 text-xs mr-2">
-                Note
-              </span>
-              Currently optimized for Gmail (other email clinets will display brand logo image).
-            </p>
-          </div>
-        }
-        products={null} // Pass null, component will fetch on client side
-      />
+      <Suspense fallback={<PricingCalculatorLoading title={pricingTitle} description={pricingDescription} />}>
+        <AvatarPricing />
+      </Suspense>
+
+      <Suspense fallback={null}>
+        <BundlePricing />
+      </Suspense>
 
       <FAQ title="Frequently Asked Questions" faqs={avatarFaqs} />
 
@@ -0,0 +1,30 @@
+import type { Metadata } from "next"
+import BalancePaymentForm from "@/components/balance-payment-form"
+
+export const metadata: Metadata = {
+  title: "Pay Your Balance | Lumio",
+  description: "Look up your Lumio order and pay the balance after your deposit.",
+  robots: { index: false },
+}
+
+export default function BalancePage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center space-x-4">
+            <span className="text-2xl font-bold text-english-violet">Lumio</span>
+            <span className="text-xl">Balance Payment</span>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-12">
+        <div className="max-w-3xl mx-auto">
+          <h1 className="text-3xl font-bold mb-8 text-english-violet">Pay Your Balance</h1>
+          <BalancePaymentForm />
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,14 @@
+import { notFound } from "next/navigation"
+import SignatureDeliveryPage from "@/components/signature-delivery-page"
+import { getTenant, tenants } from "@/data/tenants"
+
+export function generateStaticParams() {
+  return tenants.map((tenant) => ({ tenant: tenant.id }))
+}
+
+export default async function TenantDeliveryPage({ params }: { params: Promise<{ tenant: string }> }) {
+  const tenant = getTenant((await params).tenant)
+  if (!tenant) notFound()
+
+  return <SignatureDeliveryPage tenant={tenant} />
+}
@@ -1,19 +1,9 @@
 import Link from "next/link"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
+import { tenants } from "@/data/tenants"
 
 export default function DeliveryPortalPage() {
-  const companies = [
-    {
-      id: "movement",
-      name: "Movement.io",
-      description: "Digital marketing and media production",
-      logo: "/placeholder.svg?height=60&width=200&text=Movement.io",
-      color: "#29505F",
-    },
-    // Add more companies as needed
-  ]
-
   return (
     <div className="min-h-screen bg-gray-50">
       <header className="bg-white border-b">
@@ -32,12 +22,12 @@ export default function DeliveryPortalPage() {
           <h1 className="text-3xl font-bold mb-8 text-english-violet">Company Signature Portals</h1>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {companies.map((company) => (
+            {tenants.map((company) => (
               <Card key={company.id}>
                 <CardHeader>
                   <div className="flex items-center gap-4">
                     <img src={company.logo || "/placeholder.svg"} alt={company.name} className="h-10" />
-                    <CardTitle style={{ color: company.color }}>{company.name}</CardTitle>
+                    <CardTitle style={{ color: company.brandColor }}>{company.name}</CardTitle>
                   </div>
                   <CardDescription>{company.description}</CardDescription>
                 </CardHeader>
@@ -48,7 +38,7 @@ export default function DeliveryPortalPage() {
                 </CardContent>
                 <CardFooter>
                   <Link href={`/delivery/${company.id}`}>
-                    <Button style={{ backgroundColor: company.color }}>Access Portal</Button>
+                    <Button style={{ backgroundColor: company.brandColor }}>Access Portal</Button>
                   </Link>
                 </CardFooter>
               </Card>
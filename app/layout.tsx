@@ -3,6 +3,8 @@ import type { Metadata } from "next"
 import "./globals.css"
 import Script from "next/script"
 import { Inter, Playfair_Display } from "next/font/google"
+import { Toaster } from "@/components/ui/toaster"
+import { config } from "@/lib/config"
 
 // Define the Inter font (sans-serif)
 const inter = Inter({
@@ -18,8 +20,11 @@ const playfair = Playfair_Display({
   variable: "--font-playfair",
 })
 
+// Analytics IDs for this deployment; a tag is left out when its ID isn't set
+const { googleAnalyticsId, googleTagManagerId, hotjarSiteId, metaPixelId, linkedInPartnerId } = config.analytics
+
 // Meta Pixel Code
-const MetaPixelScript = () => {
+const MetaPixelScript = ({ pixelId }: { pixelId: string }) => {
   return (
     <Script id="facebook-pixel" strategy="afterInteractive">
       {`
@@ -31,7 +36,7 @@ const MetaPixelScript = () => {
         t.src=v;s=b.getElementsByTagName(e)[0];
         s.parentNode.insertBefore(t,s)}(window, document,'script',
         'https://connect.facebook.net/en_US/fbevents.js');
-        fbq('init', '1421954795648761');
+        fbq('init', '${pixelId}');
         fbq('track', 'PageView');
       `}
     </Script>
@@ -58,7 +63,7 @@ export const metadata: Metadata = {
   openGraph: {
     type: "website",
     locale: "en_US",
-    url: "https://golumio.co",
+    url: config.siteUrl,
     title: "Lumio - Animated Email Elements",
     description: "Make your emails memorable with animated avatars and signatures.",
     siteName: "Lumio",
@@ -88,110 +93,134 @@ export default function RootLayout({
     <html lang="en" className={`${inter.variable} ${playfair.variable}`}>
       <head>
         {/* Google Analytics */}
-        <Script strategy="afterInteractive" src={`https://www.googletagmanager.com/gtag/js?id=G-SF5P78WTLT`} />
-        <Script id="google-analytics" strategy="afterInteractive">
-          {`
-            window.dataLayer = window.dataLayer || [];
-            function gtag(){dataLayer.push(arguments);}
-            gtag('js', new Date());
-            gtag('config', 'G-SF5P78WTLT');
-          `}
-        </Script>
+        {googleAnalyticsId && (
+          <>
+            <Script
+              strategy="afterInteractive"
+              src={`https://www.googletagmanager.com/gtag/js?id=${googleAnalyticsId}`}
+            />
+            <Script id="google-analytics" strategy="afterInteractive">
+              {`
+                window.dataLayer = window.dataLayer || [];
+                function gtag(){dataLayer.push(arguments);}
+                gtag('js', new Date());
+                gtag('config', '${googleAnalyticsId}');
+              `}
+            </Script>
+          </>
+        )}
 
         {/* Google Tag Manager */}
-        <Script id="google-tag-manager" strategy="afterInteractive">
-          {`
-            (function(w,d,s,l,i){w[l]=w[l]||[];w[l].push({'gtm.start':
-            new Date().getTime(),event:'gtm.js'});var f=d.getElementsByTagName(s)[0],
-            j=d.createElement(s),dl=l!='dataLayer'?'&l='+l:'';j.async=true;j.src=
-            'https://www.googletagmanager.com/gtm.js?id='+i+dl;f.parentNode.insertBefore(j,f);
-            })(window,document,'script','dataLayer','GTM-MQ95GQB8');
-          `}
-        </Script>
+        {googleTagManagerId && (
+          <Script id="google-tag-manager" strategy="afterInteractive">
+            {`
+              (function(w,d,s,l,i){w[l]=w[l]||[];w[l].push({'gtm.start':
+              new Date().getTime(),event:'gtm.js'});var f=d.getElementsByTagName(s)[0],
+              j=d.createElement(s),dl=l!='dataLayer'?'&l='+l:'';j.async=true;j.src=
+              'https://www.googletagmanager.com/gtm.js?id='+i+dl;f.parentNode.insertBefore(j,f);
+              })(window,document,'script','dataLayer','${googleTagManagerId}');
+            `}
+          </Script>
+        )}
         {/* End Google Tag Manager */}
 
         {/* Hotjar Tracking Code */}
-        <Script id="hotjar-tracking" strategy="afterInteractive">
-          {`
-            (function(h,o,t,j,a,r){
-              h.hj=h.hj||function(){(h.hj.q=h.hj.q||[]).push(arguments)};
-              h._hjSettings={hjid:6376878,hjsv:6};
-              a=o.getElementsByTagName('head')[0];
-              r=o.createElement('script');r.async=1;
-              r.src=t+h._hjSettings.hjid+j+h._hjSettings.hjsv;
-              a.appendChild(r);
-            })(window,document,'https://static.hotjar.com/c/hotjar-','.js?sv=');
-          `}
-        </Script>
-        {/* Install this snippet AFTER the Tracking code. */}
-        <Script id="hotjar-identify" strategy="afterInteractive">
-          {`
-            var userId = 6376878 || null; // Replace your_user_id with your own if available.
-            window.hj('identify', userId, {
-              // Add your own custom attributes here. Some EXAMPLES:
-              // 'Signed up': '2019—06-20Z', // Signup date in ISO-8601 format.
-              // 'Last purchase category': 'Electronics', // Send strings with quotes around them.
-              // 'Total purchases': 15, // Send numbers without quotes.
-              // 'Last purchase date': '2019-06-20Z', // Send dates in ISO-8601 format.
-              // 'Last refund date': null; // Send null when no value exists for a user.
-            });
-          `}
-        </Script>
+        {hotjarSiteId && (
+          <>
+            <Script id="hotjar-tracking" strategy="afterInteractive">
+              {`
+                (function(h,o,t,j,a,r){
+                  h.hj=h.hj||function(){(h.hj.q=h.hj.q||[]).push(arguments)};
+                  h._hjSettings={hjid:${hotjarSiteId},hjsv:6};
+                  a=o.getElementsByTagName('head')[0];
+                  r=o.createElement('script');r.async=1;
+                  r.src=t+h._hjSettings.hjid+j+h._hjSettings.hjsv;
+                  a.appendChild(r);
+                })(window,document,'https://static.hotjar.com/c/hotjar-','.js?sv=');
+              `}
+            </Script>
+            {/* Install this snippet AFTER the Tracking code. */}
+            <Script id="hotjar-identify" strategy="afterInteractive">
+              {`
+                var userId = ${hotjarSiteId} || null; // Replace your_user_id with your own if available.
+                window.hj('identify', userId, {
+                  // Add your own custom attributes here. Some EXAMPLES:
+                  // 'Signed up': '2019—06-20Z', // Signup date in ISO-8601 format.
+                  // 'Last purchase category': 'Electronics', // Send strings with quotes around them.
+                  // 'Total purchases': 15, // Send numbers without quotes.
+                  // 'Last purchase date': '2019-06-20Z', // Send dates in ISO-8601 format.
+                  // 'Last refund date': null; // Send null when no value exists for a user.
+                });
+              `}
+            </Script>
+          </>
+        )}
+
+        {metaPixelId && (
+          <>
+            {/* Meta Pixel Code */}
+            <MetaPixelScript pixelId={metaPixelId} />
 
-        {/* Meta Pixel Code */}
-        <MetaPixelScript />
+            {/* NoScript for Meta Pixel */}
+            <noscript>
+              <img
+                height="1"
+                width="1"
+                style={{ display: "none" }}
+                src={`https://www.facebook.com/tr?id=${metaPixelId}&ev=PageView&noscript=1`}
+                alt=""
+              />
+            </noscript>
+          </>
+        )}
 
-        {/* NoScript for Meta Pixel */}
-        <noscript>
-          <img
-            height="1"
-            width="1"
-            style={{ display: "none" }}
-            src="https://www.facebook.com/tr?id=1421954795648761&ev=PageView&noscript=1"
-            alt=""
-          />
-        </noscript>
+        {linkedInPartnerId && (
+          <>
+            {/* LinkedIn Pixel */}
+            <Script id="linkedin-pixel" strategy="afterInteractive">
+              {`
+                _linkedin_partner_id = "${linkedInPartnerId}";
+                window._linkedin_data_partner_ids = window._linkedin_data_partner_ids || [];
+                window._linkedin_data_partner_ids.push(_linkedin_partner_id);
 
-        {/* LinkedIn Pixel */}
-        <Script id="linkedin-pixel" strategy="afterInteractive">
-          {`
-            _linkedin_partner_id = "7212564";
-            window._linkedin_data_partner_ids = window._linkedin_data_partner_ids || [];
-            window._linkedin_data_partner_ids.push(_linkedin_partner_id);
-            
-            (function(l) {
-            if (!l){window.lintrk = function(a,b){window.lintrk.q.push([a,b])};
-            window.lintrk.q=[]}
-            var s = document.getElementsByTagName("script")[0];
-            var b = document.createElement("script");
-            b.type = "text/javascript";b.async = true;
-            b.src = "https://snap.licdn.com/li.lms-analytics/insight.min.js";
-            s.parentNode.insertBefore(b, s);})(window.lintrk);
-          `}
-        </Script>
+                (function(l) {
+                if (!l){window.lintrk = function(a,b){window.lintrk.q.push([a,b])};
+                window.lintrk.q=[]}
+                var s = document.getElementsByTagName("script")[0];
+                var b = document.createElement("script");
+                b.type = "text/javascript";b.async = true;
+                b.src = "https://snap.licdn.com/li.lms-analytics/insight.min.js";
+                s.parentNode.insertBefore(b, s);})(window.lintrk);
+              `}
+            </Script>
 
-        {/* LinkedIn Pixel NoScript */}
-        <noscript>
-          <img
-            height="1"
-            width="1"
-            style={{ display: "none" }}
-            alt=""
-            src="https://px.ads.linkedin.com/collect/?pid=7212564&fmt=gif"
-          />
-        </noscript>
+            {/* LinkedIn Pixel NoScript */}
+            <noscript>
+              <img
+                height="1"
+                width="1"
+                style={{ display: "none" }}
+                alt=""
+                src={`https://px.ads.linkedin.com/collect/?pid=${linkedInPartnerId}&fmt=gif`}
+              />
+            </noscript>
+          </>
+        )}
       </head>
       <body>
         {children}
+        <Toaster />
         {/* Google Tag Manager (noscript) */}
-        <noscript>
-          <iframe
-            src="https://www.googletagmanager.com/ns.html?id=GTM-MQ95GQB8"
-            height="0"
-            width="0"
-            style={{ display: "none", visibility: "hidden" }}
-          ></iframe>
-        </noscript>
+        {googleTagManagerId && (
+          <noscript>
+            <iframe
+              src={`https://www.googletagmanager.com/ns.html?id=${googleTagManagerId}`}
+              height="0"
+              width="0"
+              style={{ display: "none", visibility: "hidden" }}
+            ></iframe>
+          </noscript>
+        )}
         {/* End Google Tag Manager (noscript) */}
       </body>
     </html>
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { CALCULATOR_PATHS, decodeShareCode, setCalculatorConfigParams } from "@/lib/calculator-config"
+import { getMarket } from "@/lib/shopify/markets"
+import { setSessionMarket } from "@/lib/shopify/market-session"
+
+// Short "Share this quote" links: opens the calculator with the shared configuration, in the shared market
+export async function GET(request: Request, { params }: { params: Promise<{ code: string }> }) {
+  const { code } = await params
+  const shared = decodeShareCode(code)
+
+  if (!shared) {
+    console.warn(`Invalid share link code: ${code}`)
+    return NextResponse.redirect(new URL("/", request.url))
+  }
+
+  // Price in the sender's currency so the recipient sees the same total
+  if (shared.country) {
+    await setSessionMarket(getMarket(shared.country))
+  }
+
+  const url = new URL(CALCULATOR_PATHS[shared.page], request.url)
+  setCalculatorConfigParams(url.searchParams, shared.config)
+  url.hash = "pricing"
+
+  return NextResponse.redirect(url)
+}
@@ -6,10 +6,16 @@ import SignaturePricingCalculator from "@/components/signature-pricing-calculato
 import FAQ from "@/components/faq"
 import Footer from "@/components/footer"
 import SignatureMockup from "@/components/signature-mockup"
+import PricingCalculatorLoading from "@/components/pricing-calculator-loading"
+import BundlePricing from "@/components/bundle-pricing"
 import type { Metadata } from "next"
+import { Suspense } from "react"
 import ConvaiWidget from "@/components/convai-widget"
+import { CATALOG_COLLECTIONS } from "@/lib/shopify"
+import { loadCatalogProducts } from "@/lib/shopify/catalog"
+import { getSessionMarket } from "@/lib/shopify/market-session"
 
-// Skip server-side data fetching during build
+// Render per request so prices come from the (webhook-invalidated) catalog cache
 export const dynamic = "force-dynamic"
 
 export const metadata: Metadata = {
@@ -35,6 +41,26 @@ export const metadata: Metadata = {
   },
 }
 
+const pricingTitle = "Build Your Package"
+
+const pricingDescription =
+  "Every package includes installation and two revision rounds, ensuring your animation is flawlessly crafted. If additional revisions are needed, we’ll provide a personalized quote."
+
+// Streams in behind the Suspense fallback once the cached signature catalog has loaded
+async function SignaturePricing() {
+  const market = await getSessionMarket()
+  const products = await loadCatalogProducts(CATALOG_COLLECTIONS.signatures, market)
+
+  return (
+    <SignaturePricingCalculator
+      title={pricingTitle}
+      description={pricingDescription}
+      products={products}
+      market={market}
+    />
+  )
+}
+
 export default function SignaturesPage() {
   const signatureFaqs = [
     {
@@ -105,12 +131,13 @@ export default function SignaturesPage() {
 
       <HowItWorks title="How It Works" steps={signatureSteps} />
 
-      {/* Client component that will fetch products on the client side */}
-      <SignaturePricingCalculator
-        title="Build Your Package"
-        description="Every package includes installation and two revision rounds, ensuring your animation is flawlessly crafted. If additional revisions are needed, we’ll provide a personalized quote."
-        products={null} // Pass null, component will fetch on client side
-      />
+      <Suspense fallback={<PricingCalculatorLoading title={pricingTitle} description={pricingDescription} />}>
+        <SignaturePricing />
+      </Suspense>
+
+      <Suspense fallback={null}>
+        <BundlePricing />
+      </Suspense>
 
       <FAQ title="Frequently Asked Questions" faqs={signatureFaqs} />
 
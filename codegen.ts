@@ -0,0 +1,37 @@
+import type { CodegenConfig } from "@graphql-codegen/cli"
+
+// Types are generated against the Storefront API schema bundled with @shopify/hydrogen-react.
+// Bump that package together with the SHOPIFY_API_VERSION default in lib/config.ts.
+const config: CodegenConfig = {
+  overwrite: true,
+  schema: "node_modules/@shopify/hydrogen-react/storefront.schema.json",
+  documents: ["lib/shopify/operations.ts"],
+  generates: {
+    "lib/shopify/storefront.generated.ts": {
+      plugins: [
+        { add: { content: "/* eslint-disable */\n// Generated by `pnpm codegen` from lib/shopify/operations.ts. Do not edit." } },
+        "typescript",
+        "typescript-operations",
+      ],
+      config: {
+        onlyOperationTypes: true,
+        enumsAsTypes: true,
+        avoidOptionals: { field: true, inputValue: false },
+        skipTypename: true,
+        useTypeImports: true,
+        scalars: {
+          DateTime: "string",
+          Decimal: "string",
+          HTML: "string",
+          ISO8601DateTime: "string",
+          JSON: "unknown",
+          URL: "string",
+          Color: "string",
+          UnsignedInt64: "string",
+        },
+      },
+    },
+  },
+}
+
+export default config
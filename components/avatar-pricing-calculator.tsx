@@ -2,61 +2,95 @@
 
 /**
  * @component AvatarPricingCalculator
- * @version 1.2.0
+ * @version 1.9.0
  * @description
  * Pricing calculator for email avatars that handles variant selection.
  *
  * CRITICAL COMPONENT: This component directly impacts checkout functionality and revenue.
  * Any changes should be thoroughly tested with actual Shopify variants.
  *
- * @lastModified 2023-04-16
+ * @lastModified 2026-10-19
  * @changelog
  * - 1.0.0: Initial implementation
  * - 1.1.0: Updated to match signature pricing calculator improvements
  * - 1.2.0: Updated display title logic to use product ID/handle instead of price ranges
+ * - 1.3.0: Payment options (deposit, pay in full, installments) come from Shopify selling plans
+ * - 1.4.0: Package tiers, display order and visibility come from Shopify metafields
+ * - 1.5.0: Prices load and display in the buyer's market currency, with a country/currency selector
+ * - 1.6.0: Package prices come from the shared pricing engine (lib/pricing.ts)
+ * - 1.7.0: Package and payment option are kept in the URL and localStorage, with a share link
+ * - 1.8.0: Loading and cart errors show a message for their error code instead of the raw API error
+ * - 1.9.0: Shows the estimated delivery date, offers rush delivery while capacity allows and reserves the
+ *   production week on the cart line
  */
 
-// Note: Business model updated to only offer Starter and Premium packages (Essential package hidden)
+// Note: Which packages are offered is set per product in Shopify (lumio.hidden metafield)
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Label } from "@/components/ui/label"
 import { cn } from "@/lib/utils"
 import type { ReactNode } from "react"
-import type { ShopifyProduct } from "@/lib/shopify"
-import { createCart } from "@/lib/shopify"
+import type { CartLineInput, ShopifyProduct } from "@/lib/shopify"
+import { CATALOG_COLLECTIONS, getProductsByCollection } from "@/lib/shopify"
+import { useCart } from "@/components/cart-provider"
+import PromoCodeField from "@/components/promo-code-field"
+import PaymentOptions from "@/components/payment-options"
+import DeliveryOptions from "@/components/delivery-options"
+import { getShopifyErrorMessage, ShopifyApiError } from "@/lib/shopify/errors"
+import { getPaymentOptions, resolvePaymentOption } from "@/lib/shopify/payment-options"
+import { getVisiblePackages } from "@/lib/shopify/packages"
+import { quoteAvatar } from "@/lib/pricing"
+import type { Market } from "@/lib/shopify/markets"
+import { formatMoney } from "@/lib/shopify/markets"
+import MarketSelector from "@/components/market-selector"
+import { usePromoCode } from "@/hooks/use-promo-code"
+import ShareQuoteButton from "@/components/share-quote-button"
+import { useCalculatorConfig } from "@/hooks/use-calculator-config"
+import { useProductionSchedule } from "@/hooks/use-production-schedule"
+import type { DeliverySpeed } from "@/lib/capacity"
+import { getSlotAttributes } from "@/lib/capacity"
+import type { CalculatorConfig } from "@/lib/calculator-config"
+import { toPackageSlug } from "@/lib/calculator-config"
 // First, import the AnimationExamples component at the top of the file
 import AnimationExamples from "@/components/animation-examples"
+import PricingCalculatorLoading from "@/components/pricing-calculator-loading"
 
 interface PricingOption {
   id: string
   name: string
   description: string
   price: number
-  handle?: string
 }
 
 interface AvatarPricingCalculatorProps {
   title: string
   description: ReactNode
   products: ShopifyProduct[] | null
+  // Market the products are priced in
+  market: Market
 }
 
 export default function AvatarPricingCalculator({
   title,
   description,
   products: initialProducts,
+  market,
 }: AvatarPricingCalculatorProps) {
   const [products, setProducts] = useState<ShopifyProduct[] | null>(initialProducts)
-  const [animationPackages, setAnimationPackages] = useState<PricingOption[]>([])
   const [selectedAnimation, setSelectedAnimation] = useState<string>("")
+  const [selectedPaymentOption, setSelectedPaymentOption] = useState<string | null>(null)
+  const [deliverySpeed, setDeliverySpeed] = useState<DeliverySpeed>("standard")
   const [totalPrice, setTotalPrice] = useState<number>(0)
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false)
   const [error, setError] = useState<string | null>(null)
-  const [loading, setLoading] = useState<boolean>(true)
+  const [loading, setLoading] = useState<boolean>(!initialProducts)
+  const { addLines } = useCart()
+  const [promoCode] = usePromoCode()
+  const { schedules, refresh: refreshSchedules } = useProductionSchedule(CATALOG_COLLECTIONS.avatars)
 
-  // Fetch products if not provided
+  // Fall back to fetching in the browser when the server could not provide products
   useEffect(() => {
     async function fetchProducts() {
       if (initialProducts) {
@@ -66,150 +100,74 @@ export default function AvatarPricingCalculator({
 
       setLoading(true)
       try {
-        // CRITICAL: This GraphQL query must include selectedOptions to properly match variants
-        const response = await fetch("/api/shopify", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            query: `
-             query GetProductsByCollection($title: String!) {
-               collections(first: 1, query: $title) {
-                 edges {
-                   node {
-                     title
-                     products(first: 10) {
-                       edges {
-                         node {
-                           id
-                           title
-                           description
-                           handle
-                           variants(first: 10) {
-                             edges {
-                               node {
-                                 id
-                                 title
-                                 priceV2 {
-                                   amount
-                                   currencyCode
-                                 }
-                                 availableForSale
-                                 selectedOptions {
-                                   name
-                                   value
-                                 }
-                               }
-                             }
-                           }
-                         }
-                       }
-                     }
-                   }
-                 }
-               }
-             }
-           `,
-            variables: {
-              title: "Email Avatars",
-            },
-          }),
-        })
-
-        if (!response.ok) {
-          throw new Error(`API error: ${response.status}`)
-        }
-
-        const data = await response.json()
-
-        if (data.error) {
-          throw new Error(data.error)
-        }
-
-        if (
-          !data.data ||
-          !data.data.collections ||
-          !data.data.collections.edges ||
-          data.data.collections.edges.length === 0
-        ) {
-          throw new Error("Collection not found")
-        }
-
-        const collection = data.data.collections.edges[0].node
-
-        if (!collection.products || !collection.products.edges || collection.products.edges.length === 0) {
-          throw new Error(`No products found in collection`)
-        }
-
-        // Transform the response to a simpler format
-        const fetchedProducts = collection.products.edges.map((edge: any) => {
-          const product = edge.node
-          return {
-            id: product.id,
-            title: product.title,
-            description: product.description,
-            handle: product.handle,
-            variants: product.variants.edges.map((variantEdge: any) => {
-              const variant = variantEdge.node
-              return {
-                id: variant.id,
-                title: variant.title,
-                price: variant.priceV2.amount,
-                available: variant.availableForSale,
-                selectedOptions: variant.selectedOptions,
-              }
-            }),
-          }
-        })
+        // CRITICAL: The catalog query must include selectedOptions to properly match variants
+        const fetchedProducts = await getProductsByCollection(CATALOG_COLLECTIONS.avatars, market)
 
         setProducts(fetchedProducts)
       } catch (error) {
         console.error("Error fetching products:", error)
-        setError(`Error fetching products: ${error instanceof Error ? error.message : String(error)}`)
+        setError(getShopifyErrorMessage(error))
       } finally {
         setLoading(false)
       }
     }
 
     fetchProducts()
-  }, [initialProducts])
+  }, [initialProducts, market])
+
+  // Derive packages during render so server-provided products are priced in the initial HTML
+  const animationPackages = useMemo<PricingOption[]>(() => {
+    if (!products) return []
+
+    // Hidden packages, tier names and display order come from the products' metafields
+    return getVisiblePackages(products).map((product) => {
+      return {
+        id: product.id,
+        name: product.package.tier,
+        description: product.description,
+        price: quoteAvatar(product).total,
+      }
+    })
+  }, [products])
 
-  // Process products when they're available
-  useEffect(() => {
-    if (!products) return
+  const selectedProduct = products?.find((p) => p.id === selectedAnimation)
 
-    try {
-      // Format products for the calculator with fixed titles (Essential package hidden)
-      const productTitles = ["Starter", "Premium"]
-      const formattedPackages = products!.map((product, index) => {
-        // Get the base price from the first variant
-        const basePrice = product.variants.length > 0 ? Number.parseFloat(product.variants[0].price) : 0
-
-        // Use fixed titles instead of Shopify titles
-        const fixedTitle = index < productTitles.length ? productTitles[index] : product.title
-
-        return {
-          id: product.id,
-          name: fixedTitle,
-          description: product.description,
-          price: basePrice,
-          handle: product.handle,
-        }
-      })
+  // Shopify may fall back to the store currency for a market it doesn't sell in, so format in the currency it returned
+  const currencyCode = products?.[0]?.variants[0]?.currencyCode ?? market.currencyCode
+  const formatPrice = (amount: number) => formatMoney(amount, currencyCode, market.locale)
 
-      // Sort packages to ensure correct order: Starter, Essential, Premium
-      formattedPackages.sort((a, b) => {
-        const order = { Starter: 1, Essential: 2, Premium: 3 }
-        return (order[a.name as keyof typeof order] || 99) - (order[b.name as keyof typeof order] || 99)
-      })
+  // Payment options come from the selected product's selling plans in Shopify
+  const paymentOptions = useMemo(() => getPaymentOptions(selectedProduct), [selectedProduct])
+  const paymentOption = resolvePaymentOption(paymentOptions, selectedPaymentOption)
 
-      setAnimationPackages(formattedPackages)
-    } catch (error) {
-      console.error("Error processing products:", error)
-      setError(`Error: ${error instanceof Error ? error.message : String(error)}`)
-    }
-  }, [products])
+  // Production slots for the selected package; rush falls back to standard once next week fills up
+  const schedule = schedules?.find((schedule) => schedule.productId === selectedProduct?.id) ?? null
+  const speed = deliverySpeed === "rush" && schedule?.rush ? "rush" : "standard"
+  const slot = speed === "rush" ? schedule?.rush : schedule?.standard
+  const isFullyBooked = Boolean(schedule && !schedule.standard)
+
+  // The configuration kept in the URL and localStorage, and shared by "Share this quote"
+  const calculatorConfig = useMemo<CalculatorConfig | null>(
+    () =>
+      selectedProduct ? { package: toPackageSlug(selectedProduct.package.tier), payment: paymentOption?.kind } : null,
+    [selectedProduct, paymentOption?.kind],
+  )
+
+  useCalculatorConfig({
+    page: "avatars",
+    ready: animationPackages.length > 0,
+    config: calculatorConfig,
+    onRestore: (config) => {
+      const selectedPackage = animationPackages.find((option) => toPackageSlug(option.name) === config.package)
+      if (!selectedPackage) return
+
+      setSelectedAnimation(selectedPackage.id)
+
+      const product = products?.find((p) => p.id === selectedPackage.id)
+      const option = getPaymentOptions(product).find((option) => option.kind === config.payment)
+      setSelectedPaymentOption(option?.id ?? null)
+    },
+  })
 
   // Update total price when selected animation changes
   useEffect(() => {
@@ -221,41 +179,18 @@ export default function AvatarPricingCalculator({
     }
   }, [selectedAnimation, animationPackages])
 
-  /**
-   * Helper function to determine the display title based on product ID or handle
-   *
-   * @param option - The pricing option
-   * @returns The display title (Starter, Essential, or Premium)
-   */
-  const getDisplayTitle = (option: PricingOption): string => {
-    // Check handle first (most reliable)
-    if (option.handle) {
-      if (option.handle.includes("starter")) return "Starter"
-      if (option.handle.includes("custom")) return "Essential"
-      if (option.handle.includes("premium")) return "Premium"
-    }
-
-    // Fallback to ID check
-    const id = option.id.toLowerCase()
-    if (id.includes("starter")) return "Starter"
-    if (id.includes("custom") || id.includes("essential")) return "Essential"
-    if (id.includes("premium")) return "Premium"
+  // The line "Get Started" adds, used to check promo codes against real Shopify prices
+  const promoLines = useMemo<CartLineInput[] | null>(() => {
+    const product = products?.find((p) => p.id === selectedAnimation)
+    if (!product || product.variants.length === 0) return null
 
-    // Fallback to name
-    if (option.name === "Starter" || option.name === "Essential" || option.name === "Premium") {
-      return option.name
-    }
-
-    // Last resort: determine by price
-    if (option.price <= 950) return "Starter"
-    if (option.price <= 1499) return "Essential"
-    return "Premium"
-  }
+    return [{ merchandiseId: product.variants[0].id, quantity: 1, sellingPlanId: paymentOption?.sellingPlan?.id }]
+  }, [products, selectedAnimation, paymentOption])
 
   /**
    * CRITICAL FUNCTION: Handles the "Get Started" button click
    *
-   * This function is responsible for finding the correct variant and creating the cart.
+   * This function is responsible for finding the correct variant and adding it to the session cart.
    * It's critical for ensuring the correct product is added to the cart.
    *
    * DO NOT MODIFY without thorough testing with actual Shopify variants.
@@ -274,43 +209,38 @@ export default function AvatarPricingCalculator({
       // Find the product in the original products array
       const product = products?.find((p) => p.id === selectedAnimation)
       if (!product || product.variants.length === 0) {
-        throw new Error("Product or variant not found")
+        throw new ShopifyApiError("Product or variant not found", 404, undefined, "VARIANT_NOT_FOUND")
       }
 
       // Use the first variant ID for avatars (since there's no user count)
       const variantId = product.variants[0].id
       console.log(`Selected variant ID: ${variantId}`)
 
-      // Hardcoded selling plan ID for 50% deposit
-      const sellingPlanId = "gid://shopify/SellingPlan/3226403001"
+      // Selling plan for the chosen payment option (none when paying in full)
+      const sellingPlanId = paymentOption?.sellingPlan?.id
 
-      // Create a cart with the selected variant and selling plan
-      const cart = await createCart(variantId, 1, [], sellingPlanId)
+      // Reserve the production week so the production team sees it on the order
+      const attributes = slot ? getSlotAttributes(slot, speed) : []
 
-      // Redirect to checkout
-      window.location.href = cart.checkoutUrl
+      // Add the selected variant and selling plan to the session cart (opens the cart drawer)
+      await addLines([{ merchandiseId: variantId, quantity: 1, attributes, sellingPlanId }], {
+        discountCode: promoCode ?? undefined,
+      })
     } catch (error) {
       console.error("Error adding to cart:", error)
-      setError(`Error: ${error instanceof Error ? error.message : String(error)}`)
+      setError(getShopifyErrorMessage(error))
+
+      // The week filled up since the page loaded, so show the next free one
+      if (error instanceof ShopifyApiError && error.code === "CAPACITY_UNAVAILABLE") {
+        refreshSchedules()
+      }
     } finally {
       setIsSubmitting(false)
     }
   }
 
   if (loading) {
-    return (
-      <section id="pricing" className="py-20 bg-white">
-        <div className="container mx-auto px-4">
-          <div className="text-center mb-12">
-            <h2 className="heading-md text-english-violet mb-4">{title}</h2>
-            <div className="text-lg text-gray-700 max-w-2xl mx-auto">{description}</div>
-          </div>
-          <div className="flex justify-center items-center py-20">
-            <div className="animate-pulse text-xl text-english-violet">Loading pricing options...</div>
-          </div>
-        </div>
-      </section>
-    )
+    return <PricingCalculatorLoading title={title} description={description} />
   }
 
   return (
@@ -319,6 +249,7 @@ export default function AvatarPricingCalculator({
         <div className="text-center mb-12">
           <h2 className="heading-md text-english-violet mb-4">{title}</h2>
           <div className="text-lg text-gray-700 max-w-2xl mx-auto">{description}</div>
+          <MarketSelector market={market} />
         </div>
 
         {error && (
@@ -336,79 +267,67 @@ export default function AvatarPricingCalculator({
             <h3 className="text-2xl font-bold text-english-violet mb-6 text-center">Animation Package</h3>
             <RadioGroup value={selectedAnimation} onValueChange={setSelectedAnimation} className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6 max-w-3xl mx-auto">
-                {/* Sort and map the packages to ensure Starter, Essential, Premium order */}
-                {[...animationPackages]
-                  .filter((option) => {
-                    const displayTitle = getDisplayTitle(option)
-                    return displayTitle !== "Essential" // Filter out Essential package
-                  })
-                  .sort((a, b) => {
-                    // Order: Starter (1), Premium (2)
-                    const order = { Starter: 1, Premium: 2 }
-                    const aType = getDisplayTitle(a)
-                    const bType = getDisplayTitle(b)
-                    return (order[aType as keyof typeof order] || 99) - (order[bType as keyof typeof order] || 99)
-                  })
-                  .map((option) => {
-                    // Get the display title based on product ID or handle
-                    const displayTitle = getDisplayTitle(option)
-
-                    return (
-                      <div
-                        key={option.id}
-                        className={cn(
-                          "flex flex-col rounded-xl border p-6 cursor-pointer transition-all",
-                          selectedAnimation === option.id
-                            ? "border-english-violet bg-white shadow-md"
-                            : "border-transparent bg-white/50 hover:bg-white hover:shadow-sm",
-                        )}
-                        onClick={() => setSelectedAnimation(option.id)}
-                      >
-                        <div className="flex items-start mb-4">
-                          <RadioGroupItem value={option.id} id={`animation-${option.id}`} className="mt-1" />
-                          <div className="ml-3">
-                            <Label htmlFor={`animation-${option.id}`} className="font-bold text-lg cursor-pointer">
-                              {displayTitle}
-                            </Label>
-                            <p className="text-english-violet/70 font-medium text-lg">${option.price}</p>
-                          </div>
+                {/* Packages arrive filtered and ordered by their metafields */}
+                {animationPackages.map((option) => {
+                  // Tier name from the product's metafields
+                  const displayTitle = option.name
+
+                  return (
+                    <div
+                      key={option.id}
+                      className={cn(
+                        "flex flex-col rounded-xl border p-6 cursor-pointer transition-all",
+                        selectedAnimation === option.id
+                          ? "border-english-violet bg-white shadow-md"
+                          : "border-transparent bg-white/50 hover:bg-white hover:shadow-sm",
+                      )}
+                      onClick={() => setSelectedAnimation(option.id)}
+                    >
+                      <div className="flex items-start mb-4">
+                        <RadioGroupItem value={option.id} id={`animation-${option.id}`} className="mt-1" />
+                        <div className="ml-3">
+                          <Label htmlFor={`animation-${option.id}`} className="font-bold text-lg cursor-pointer">
+                            {displayTitle}
+                          </Label>
+                          <p className="text-english-violet/70 font-medium text-lg">{formatPrice(option.price)}</p>
                         </div>
-                        <p className="text-sm text-gray-600 flex-grow">{option.description}</p>
-                        {displayTitle === "Starter" && (
-                          <AnimationExamples
-                            examples={[
-                              {
-                                src: "https://imagedelivery.net/nAvfNlDyCTDMbgRwQ09UKA/d4d68160-ef93-444e-6d59-509ba10ae500/150x150px",
-                                alt: "Animated flow",
-                              },
-                              { src: "/animations/examples/starter-spin.gif", alt: "Animated spin" },
-                              { src: "/animations/examples/starter-pulse-spin.gif", alt: "Animated pulse spin" },
-                            ]}
-                          />
-                        )}
-                        {displayTitle === "Essential" && (
-                          <AnimationExamples
-                            examples={[
-                              { src: "/animations/examples/essential-b.gif", alt: "Animated B logo" },
-                              { src: "/animations/examples/essential-squares.gif", alt: "Animated squares" },
-                              { src: "/animations/examples/essential-slip.gif", alt: "Animated Slip logo" },
-                            ]}
-                          />
-                        )}
-                        {displayTitle === "Premium" && (
-                          <AnimationExamples
-                            examples={[
-                              { src: "/animations/examples/essential-slip.gif", alt: "Animated Alter logo" },
-                              {
-                                src: "https://imagedelivery.net/nAvfNlDyCTDMbgRwQ09UKA/58bd7767-df02-4d72-e907-13d236d4ce00/150x150px",
-                              },
-                              { src: "/animations/examples/premium-playpad.gif", alt: "Animated Playpad logo" },
-                            ]}
-                          />
-                        )}
                       </div>
-                    )
-                  })}
+                      <p className="text-sm text-gray-600 flex-grow">{option.description}</p>
+                      {displayTitle === "Starter" && (
+                        <AnimationExamples
+                          examples={[
+                            {
+                              src: "https://imagedelivery.net/nAvfNlDyCTDMbgRwQ09UKA/d4d68160-ef93-444e-6d59-509ba10ae500/150x150px",
+                              alt: "Animated flow",
+                            },
+                            { src: "/animations/examples/starter-spin.gif", alt: "Animated spin" },
+                            { src: "/animations/examples/starter-pulse-spin.gif", alt: "Animated pulse spin" },
+                          ]}
+                        />
+                      )}
+                      {displayTitle === "Essential" && (
+                        <AnimationExamples
+                          examples={[
+                            { src: "/animations/examples/essential-b.gif", alt: "Animated B logo" },
+                            { src: "/animations/examples/essential-squares.gif", alt: "Animated squares" },
+                            { src: "/animations/examples/essential-slip.gif", alt: "Animated Slip logo" },
+                          ]}
+                        />
+                      )}
+                      {displayTitle === "Premium" && (
+                        <AnimationExamples
+                          examples={[
+                            { src: "/animations/examples/essential-slip.gif", alt: "Animated Alter logo" },
+                            {
+                              src: "https://imagedelivery.net/nAvfNlDyCTDMbgRwQ09UKA/58bd7767-df02-4d72-e907-13d236d4ce00/150x150px",
+                            },
+                            { src: "/animations/examples/premium-playpad.gif", alt: "Animated Playpad logo" },
+                          ]}
+                        />
+                      )}
+                    </div>
+                  )
+                })}
               </div>
             </RadioGroup>
           </div>
@@ -422,28 +341,41 @@ export default function AvatarPricingCalculator({
               </h3>
             ) : (
               <>
-                <h3 className="text-5xl font-bold text-english-violet mb-3">${totalPrice}</h3>
-                <div className="inline-block bg-black/10 rounded-full px-4 py-1 mb-2">
-                  <span className="text-sm font-medium text-english-violet">
-                    50% Deposit: ${Math.round(totalPrice / 2)} today
-                  </span>
+                <h3 className="text-5xl font-bold text-english-violet mb-3">{formatPrice(totalPrice)}</h3>
+                <div className="max-w-sm mx-auto mb-2">
+                  <PaymentOptions
+                    options={paymentOptions}
+                    value={paymentOption}
+                    onChange={setSelectedPaymentOption}
+                    total={totalPrice}
+                    formatPrice={formatPrice}
+                  />
+                  <DeliveryOptions
+                    schedule={schedule}
+                    value={speed}
+                    onChange={setDeliverySpeed}
+                    locale={market.locale}
+                  />
                 </div>
-                <p className="text-english-violet/80 mb-4">
-                  Remaining 50% will be auto-charged in 20 days or upon project completion.
-                </p>
               </>
             )}
             <p className="text-english-violet/70 py-0">
               All packages include installation and 2 rounds of revision. If additional revisions are needed, we'll
               provide a personalized quote.
             </p>
+            {selectedAnimation && (
+              <div className="max-w-sm mx-auto text-left">
+                <PromoCodeField lines={promoLines} />
+                <ShareQuoteButton page="avatars" config={calculatorConfig} market={market} />
+              </div>
+            )}
           </div>
 
           <div className="mt-12 text-center">
             <Button
               className="bg-english-violet hover:bg-english-violet/90 text-white px-8 py-6 text-lg rounded-full"
               onClick={handleGetStarted}
-              disabled={isSubmitting || !selectedAnimation}
+              disabled={isSubmitting || !selectedAnimation || isFullyBooked}
             >
               {isSubmitting ? "Processing..." : selectedAnimation ? "Get Started" : "Select a Package"}
             </Button>
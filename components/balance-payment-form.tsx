@@ -0,0 +1,172 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { Loader2, Search } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { BalanceOrder } from "@/lib/balance"
+import { formatMoney } from "@/lib/shopify/markets"
+
+/**
+ * Order lookup and balance checkout for orders paid with a deposit
+ *
+ * Buyers enter their order number and email to see the deposit paid and the balance due, then check out
+ * the balance. The "balance due" email links here with `?order=` filled in.
+ */
+export default function BalancePaymentForm() {
+  const [orderNumber, setOrderNumber] = useState("")
+  const [email, setEmail] = useState("")
+  const [order, setOrder] = useState<BalanceOrder | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isRedirecting, setIsRedirecting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setOrderNumber(new URLSearchParams(window.location.search).get("order") ?? "")
+  }, [])
+
+  /**
+   * Posts the order number and email to a balance route, returning the order it responds with
+   */
+  const requestBalance = async (path: string): Promise<BalanceOrder> => {
+    const response = await fetch(path, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ orderNumber, email }),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || "Order lookup failed")
+    }
+
+    return data.order
+  }
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      setOrder(await requestBalance("/api/balance"))
+    } catch (error) {
+      console.error("Error looking up order:", error)
+      setOrder(null)
+      setError(error instanceof Error ? error.message : "Please try again later.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handlePayBalance = async () => {
+    if (!order) return
+    setIsRedirecting(true)
+    setError(null)
+
+    try {
+      const { checkoutUrl } = order.checkoutUrl ? order : await requestBalance("/api/balance/checkout")
+      if (!checkoutUrl) {
+        throw new Error("We couldn't create a checkout for your balance")
+      }
+
+      window.location.href = checkoutUrl
+    } catch (error) {
+      console.error("Error creating balance checkout:", error)
+      setError(error instanceof Error ? error.message : "Please try again later.")
+      setIsRedirecting(false)
+    }
+  }
+
+  const money = (amount: string) => (order ? formatMoney(amount, order.currencyCode, "en-US") : amount)
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Find Your Order</CardTitle>
+          <CardDescription>
+            Enter the order number from your confirmation email and the email you ordered with.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleLookup} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="order-number">Order number</Label>
+              <Input
+                id="order-number"
+                placeholder="#1042"
+                value={orderNumber}
+                onChange={(e) => setOrderNumber(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="order-email">Email</Label>
+              <Input id="order-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} required />
+            </div>
+            <Button type="submit" variant="outline" disabled={isLoading}>
+              {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+              Look Up
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {order && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Order {order.orderName}</CardTitle>
+            <CardDescription>Placed {new Date(order.createdAt).toLocaleDateString()}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <ul className="space-y-1 text-sm">
+              {order.items.map((item, index) => (
+                <li key={index}>
+                  {item.quantity} × {item.title}
+                  {item.sellingPlanName && <span className="text-gray-500"> ({item.sellingPlanName})</span>}
+                </li>
+              ))}
+            </ul>
+
+            <dl className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm">
+              <dt className="text-gray-500">Order total</dt>
+              <dd className="text-right">{money(order.total)}</dd>
+              <dt className="text-gray-500">Paid so far</dt>
+              <dd className="text-right">{money(order.paid)}</dd>
+              <dt className="font-bold text-english-violet">Balance due</dt>
+              <dd className="text-right font-bold text-english-violet">{money(order.balance)}</dd>
+            </dl>
+
+            {order.status === "paid" && <p className="text-sm text-gray-600">This order is paid in full. Thank you!</p>}
+            {order.status === "cancelled" && (
+              <p className="text-sm text-gray-600">
+                This order was cancelled. Please contact us if you have questions about it.
+              </p>
+            )}
+          </CardContent>
+          {order.status === "due" && (
+            <CardFooter>
+              <Button
+                className="w-full bg-english-violet hover:bg-english-violet/90"
+                onClick={handlePayBalance}
+                disabled={isRedirecting}
+              >
+                {isRedirecting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Pay {money(order.balance)}
+              </Button>
+            </CardFooter>
+          )}
+        </Card>
+      )}
+    </div>
+  )
+}
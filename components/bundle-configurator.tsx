@@ -0,0 +1,326 @@
+"use client"
+
+/**
+ * @component BundleConfigurator
+ * @description
+ * Lets a buyer pick an avatar package and a signature package together and shows the bundle
+ * discount from `BUNDLE_RULES` against the sum of the separate prices. Both packages take their standard
+ * production slot, and the bundle is delivered once the later of the two is done.
+ */
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import type { ShopifyProduct } from "@/lib/shopify"
+import { CATALOG_COLLECTIONS } from "@/lib/shopify"
+import { DEFAULT_MAX_USERS, getVisiblePackages } from "@/lib/shopify/packages"
+import { findVariantForUserCount, getPackagePrice, getUserPrice, quoteSignature } from "@/lib/pricing"
+import type { Market } from "@/lib/shopify/markets"
+import { formatMoney } from "@/lib/shopify/markets"
+import type { PaymentOption } from "@/lib/shopify/payment-options"
+import { getPaymentAmounts, getPaymentOptions, resolvePaymentOption } from "@/lib/shopify/payment-options"
+import { calculateBundlePrice, findBundleRule } from "@/lib/bundles"
+import { useCart } from "@/components/cart-provider"
+import { usePromoCode } from "@/hooks/use-promo-code"
+import { useProductionSchedule } from "@/hooks/use-production-schedule"
+import { formatDeliveryDate, getSlotAttributes } from "@/lib/capacity"
+
+interface BundleConfiguratorProps {
+  avatarProducts: ShopifyProduct[]
+  signatureProducts: ShopifyProduct[]
+  // Market both catalogs are priced in
+  market: Market
+}
+
+interface BundlePackage {
+  tier: string
+  product: ShopifyProduct
+  price: number
+  // Bundles use each product's default payment option
+  paymentOption: PaymentOption | null
+}
+
+/**
+ * Picks the visible packages out of a catalog, priced as a package on its own
+ */
+function toBundlePackages(products: ShopifyProduct[]): BundlePackage[] {
+  return getVisiblePackages(products)
+    .filter((product) => product.variants.length > 0)
+    .map((product) => ({
+      tier: product.package.tier,
+      product,
+      price: getPackagePrice(product),
+      paymentOption: resolvePaymentOption(getPaymentOptions(product), null),
+    }))
+}
+
+export default function BundleConfigurator({ avatarProducts, signatureProducts, market }: BundleConfiguratorProps) {
+  const [avatarTier, setAvatarTier] = useState<string>("")
+  const [signatureTier, setSignatureTier] = useState<string>("")
+  const [userCount, setUserCount] = useState<number>(1)
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false)
+  const [error, setError] = useState<string | null>(null)
+  const { addLines } = useCart()
+  const [promoCode] = usePromoCode()
+  const { schedules: avatarSchedules } = useProductionSchedule(CATALOG_COLLECTIONS.avatars)
+  const { schedules: signatureSchedules } = useProductionSchedule(CATALOG_COLLECTIONS.signatures)
+
+  const avatarPackages = useMemo(() => toBundlePackages(avatarProducts), [avatarProducts])
+  const signaturePackages = useMemo(() => toBundlePackages(signatureProducts), [signatureProducts])
+
+  const avatarPackage = avatarPackages.find((p) => p.tier === avatarTier)
+  const signaturePackage = signaturePackages.find((p) => p.tier === signatureTier)
+
+  // Larger teams go through the signature calculator's custom quote
+  const maxUsers = signaturePackage?.product.package.maxUsers ?? DEFAULT_MAX_USERS
+  const userPrice = getUserPrice(signaturePackage?.product ?? signaturePackages[0]?.product)
+
+  const currencyCode = signaturePackages[0]?.product.variants[0].currencyCode ?? market.currencyCode
+  const formatPrice = (amount: number) => formatMoney(amount, currencyCode, market.locale)
+
+  const rule =
+    avatarPackage && signaturePackage ? findBundleRule(avatarPackage.tier, signaturePackage.tier, userCount) : null
+
+  const signaturePrice = signaturePackage ? quoteSignature(signaturePackage.product, userCount).total : 0
+  const separateTotal = (avatarPackage?.price ?? 0) + signaturePrice
+  const bundlePrice = calculateBundlePrice(separateTotal, rule)
+
+  // Each package's share of the discounted total, split by its own payment option
+  const discountRate = rule ? rule.percentOff / 100 : 0
+  const dueToday =
+    avatarPackage && signaturePackage
+      ? Math.round(
+          getPaymentAmounts(avatarPackage.paymentOption, avatarPackage.price * (1 - discountRate)).dueToday +
+            getPaymentAmounts(signaturePackage.paymentOption, signaturePrice * (1 - discountRate)).dueToday,
+        )
+      : 0
+
+  // Standard production slots for both packages, when capacity has loaded
+  const avatarSchedule = avatarSchedules?.find((schedule) => schedule.productId === avatarPackage?.product.id)
+  const signatureSchedule = signatureSchedules?.find((schedule) => schedule.productId === signaturePackage?.product.id)
+  const isFullyBooked = Boolean(
+    (avatarSchedule && !avatarSchedule.standard) || (signatureSchedule && !signatureSchedule.standard),
+  )
+  const deliveryDate = [avatarSchedule?.standard?.deliveryDate, signatureSchedule?.standard?.deliveryDate]
+    .filter((date): date is string => Boolean(date))
+    .sort()
+    .at(-1)
+
+  /**
+   * Adds both packages to the session cart and lets the server apply the bundle's discount
+   */
+  const handleAddBundle = async () => {
+    if (!avatarPackage || !signaturePackage) return
+
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const signatureVariant = findVariantForUserCount(signaturePackage.product, userCount)
+      if (!signatureVariant) {
+        throw new Error(`No variant found for user count: ${userCount}`)
+      }
+
+      await addLines(
+        [
+          {
+            merchandiseId: avatarPackage.product.variants[0].id,
+            quantity: 1,
+            attributes: avatarSchedule?.standard ? getSlotAttributes(avatarSchedule.standard, "standard") : [],
+            sellingPlanId: avatarPackage.paymentOption?.sellingPlan?.id,
+          },
+          {
+            merchandiseId: signatureVariant.id,
+            quantity: 1,
+            attributes: [
+              { key: "User Count", value: userCount.toString() },
+              ...(signatureSchedule?.standard ? getSlotAttributes(signatureSchedule.standard, "standard") : []),
+            ],
+            sellingPlanId: signaturePackage.paymentOption?.sellingPlan?.id,
+          },
+        ],
+        { bundleId: rule?.id, discountCode: promoCode ?? undefined },
+      )
+    } catch (error) {
+      console.error("Error adding bundle to cart:", error)
+      setError(`Error: ${error instanceof Error ? error.message : String(error)}`)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (avatarPackages.length === 0 || signaturePackages.length === 0) {
+    return null
+  }
+
+  const renderPackages = (
+    kind: "avatar" | "signature",
+    packages: BundlePackage[],
+    value: string,
+    onChange: (tier: string) => void,
+  ) => (
+    <RadioGroup value={value} onValueChange={onChange} className="grid grid-cols-2 gap-4">
+      {packages.map((option) => (
+        <div
+          key={option.tier}
+          className={cn(
+            "flex items-start rounded-xl border p-4 cursor-pointer transition-all",
+            value === option.tier
+              ? "border-english-violet bg-white shadow-md"
+              : "border-transparent bg-white/50 hover:bg-white hover:shadow-sm",
+          )}
+          onClick={() => onChange(option.tier)}
+        >
+          <RadioGroupItem value={option.tier} id={`bundle-${kind}-${option.tier}`} className="mt-1" />
+          <div className="ml-3">
+            <Label htmlFor={`bundle-${kind}-${option.tier}`} className="font-bold text-lg cursor-pointer">
+              {option.tier}
+            </Label>
+            <p className="text-english-violet/70 font-medium">{formatPrice(option.price)}</p>
+          </div>
+        </div>
+      ))}
+    </RadioGroup>
+  )
+
+  return (
+    <section id="bundle" className="py-12 md:py-20 bg-white">
+      <div className="container mx-auto px-4 sm:px-6">
+        <div className="text-center mb-8 md:mb-12">
+          <h2 className="heading-md text-english-violet mb-3 md:mb-4 text-3xl md:text-4xl">Bundle & Save</h2>
+          <p className="text-base md:text-lg text-gray-700 max-w-xs sm:max-w-lg md:max-w-2xl mx-auto">
+            Pair an animated avatar with animated signatures for your team and save on both.
+          </p>
+        </div>
+
+        {error && (
+          <div className="max-w-full sm:max-w-4xl mx-auto mb-6 md:mb-8">
+            <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-3 py-2 md:px-4 md:py-3 rounded relative text-sm md:text-base">
+              <strong className="font-bold">Note:</strong>
+              <span className="block sm:inline"> {error}</span>
+            </div>
+          </div>
+        )}
+
+        <div className="max-w-full sm:max-w-2xl md:max-w-4xl mx-auto grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="bg-seasalt p-6 rounded-xl space-y-6">
+            <div>
+              <h3 className="text-xl font-bold text-english-violet mb-4">Avatar Package</h3>
+              {renderPackages("avatar", avatarPackages, avatarTier, setAvatarTier)}
+            </div>
+
+            <div>
+              <h3 className="text-xl font-bold text-english-violet mb-4">Signature Package</h3>
+              {renderPackages("signature", signaturePackages, signatureTier, setSignatureTier)}
+            </div>
+
+            <div>
+              <Label htmlFor="bundle-user-count" className="font-bold text-lg mb-1 block">
+                Number of Users
+              </Label>
+              <p className="text-sm text-gray-600 mb-3">
+                {formatPrice(userPrice)}/user for signatures. Teams over {maxUsers} users get a custom quote.
+              </p>
+              <div className="flex items-center space-x-4">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setUserCount(Math.max(1, userCount - 1))}
+                  className="h-10 w-10 p-0 rounded-md"
+                >
+                  -
+                </Button>
+                <Input
+                  id="bundle-user-count"
+                  type="number"
+                  min="1"
+                  max={maxUsers}
+                  value={userCount}
+                  onChange={(e) => {
+                    const value = Number.parseInt(e.target.value)
+                    if (!isNaN(value)) {
+                      setUserCount(Math.min(maxUsers, Math.max(1, value)))
+                    }
+                  }}
+                  className="h-10 text-center"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setUserCount(Math.min(maxUsers, userCount + 1))}
+                  className="h-10 w-10 p-0 rounded-md"
+                >
+                  +
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          <div
+            className={cn(
+              "p-6 rounded-xl shadow-md flex flex-col justify-center transition-all duration-300",
+              avatarPackage && signaturePackage
+                ? "bg-gradient-to-r from-periwinkle to-misty-rose"
+                : "bg-gradient-to-r from-periwinkle/30 to-misty-rose/30 grayscale-[50%]",
+            )}
+          >
+            <span className="text-english-violet/80 block mb-1">Your Bundle</span>
+            {!avatarPackage || !signaturePackage ? (
+              <h2 className="text-3xl font-bold text-english-violet/70">Select Both Packages to Continue...</h2>
+            ) : (
+              <>
+                <div className="flex items-baseline gap-3 mb-2">
+                  <h2 className="text-4xl font-bold text-english-violet">{formatPrice(bundlePrice.total)}</h2>
+                  {bundlePrice.discount > 0 && (
+                    <span className="text-xl text-english-violet/60 line-through">
+                      {formatPrice(bundlePrice.separateTotal)}
+                    </span>
+                  )}
+                </div>
+                {rule ? (
+                  <div className="inline-block self-start bg-black/10 rounded-full px-6 py-2 mb-3">
+                    <span className="font-medium text-english-violet">
+                      {rule.name}: save {formatPrice(bundlePrice.discount)} ({rule.percentOff}% off)
+                    </span>
+                  </div>
+                ) : (
+                  <p className="text-english-violet/80 mb-3">No bundle discount applies to this combination.</p>
+                )}
+                {rule && <p className="text-english-violet/80 mb-2">{rule.description}</p>}
+                <p className="text-english-violet/80">
+                  {formatPrice(dueToday)} due today
+                  {dueToday < bundlePrice.total && (
+                    <>, the remaining {formatPrice(bundlePrice.total - dueToday)} later</>
+                  )}
+                  .
+                </p>
+                {isFullyBooked ? (
+                  <p className="text-english-violet/80 mt-2">
+                    One of these packages is fully booked for now. Contact us and we'll find you a slot.
+                  </p>
+                ) : (
+                  deliveryDate && (
+                    <p className="text-english-violet/80 mt-2">
+                      Estimated delivery: <strong>{formatDeliveryDate(deliveryDate, market.locale)}</strong>
+                    </p>
+                  )
+                )}
+              </>
+            )}
+
+            <Button
+              className="bg-english-violet hover:bg-english-violet/90 text-white px-6 py-4 text-lg rounded-full mt-6"
+              onClick={handleAddBundle}
+              disabled={isSubmitting || !avatarPackage || !signaturePackage || isFullyBooked}
+            >
+              {isSubmitting ? "Processing..." : "Add Bundle to Cart"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,22 @@
+import BundleConfigurator from "@/components/bundle-configurator"
+import { CATALOG_COLLECTIONS } from "@/lib/shopify"
+import { loadCatalogProducts } from "@/lib/shopify/catalog"
+import { getSessionMarket } from "@/lib/shopify/market-session"
+
+/**
+ * Loads both cached catalogs, priced in the visitor's market, for the bundle configurator;
+ * renders nothing if either is unavailable
+ */
+export default async function BundlePricing() {
+  const market = await getSessionMarket()
+  const [avatarProducts, signatureProducts] = await Promise.all([
+    loadCatalogProducts(CATALOG_COLLECTIONS.avatars, market),
+    loadCatalogProducts(CATALOG_COLLECTIONS.signatures, market),
+  ])
+
+  if (!avatarProducts || !signatureProducts) {
+    return null
+  }
+
+  return <BundleConfigurator avatarProducts={avatarProducts} signatureProducts={signatureProducts} market={market} />
+}
@@ -0,0 +1,26 @@
+"use client"
+
+import { ShoppingBag } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useCart } from "@/components/cart-provider"
+
+export default function CartButton() {
+  const { cart, setOpen } = useCart()
+  const count = cart?.totalQuantity ?? 0
+
+  return (
+    <Button
+      variant="ghost"
+      className="relative h-10 w-10 p-0 rounded-full"
+      onClick={() => setOpen(true)}
+      aria-label={`Open cart (${count} ${count === 1 ? "item" : "items"})`}
+    >
+      <ShoppingBag className="h-5 w-5 text-english-violet" />
+      {count > 0 && (
+        <span className="absolute -top-1 -right-1 flex h-5 min-w-5 items-center justify-center rounded-full bg-english-violet px-1 text-xs text-white">
+          {count}
+        </span>
+      )}
+    </Button>
+  )
+}
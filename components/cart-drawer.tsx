@@ -0,0 +1,132 @@
+"use client"
+
+import { Minus, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Drawer,
+  DrawerClose,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+} from "@/components/ui/drawer"
+import { useCart } from "@/components/cart-provider"
+import { formatCartMoney } from "@/lib/shopify/markets"
+
+export default function CartDrawer() {
+  const { cart, isOpen, isUpdating, setOpen, updateLine, removeLine } = useCart()
+  const lines = cart?.lines ?? []
+
+  return (
+    <Drawer open={isOpen} onOpenChange={setOpen}>
+      <DrawerContent>
+        <div className="mx-auto w-full max-w-2xl">
+          <DrawerHeader>
+            <DrawerTitle className="text-english-violet text-2xl">Your Cart</DrawerTitle>
+            <DrawerDescription>
+              {lines.length === 0
+                ? "Your cart is empty. Pick a package to get started."
+                : "Add an avatar and a signature package to check out both in one order."}
+            </DrawerDescription>
+          </DrawerHeader>
+
+          {lines.length > 0 && (
+            <ul className="divide-y px-4">
+              {lines.map((line) => (
+                <li key={line.id} className="flex items-center justify-between gap-4 py-4">
+                  <div className="min-w-0">
+                    <p className="font-bold text-english-violet">{line.productTitle}</p>
+                    {line.variantTitle !== "Default Title" && (
+                      <p className="text-sm text-gray-600">{line.variantTitle}</p>
+                    )}
+                    {line.sellingPlanName && <p className="text-xs text-gray-500">{line.sellingPlanName}</p>}
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => updateLine(line.id, line.quantity - 1)}
+                      disabled={isUpdating}
+                      className="h-8 w-8 p-0 rounded-md"
+                      aria-label={`Decrease quantity of ${line.productTitle}`}
+                    >
+                      <Minus className="h-3 w-3" />
+                    </Button>
+                    <span className="w-6 text-center">{line.quantity}</span>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => updateLine(line.id, line.quantity + 1)}
+                      disabled={isUpdating}
+                      className="h-8 w-8 p-0 rounded-md"
+                      aria-label={`Increase quantity of ${line.productTitle}`}
+                    >
+                      <Plus className="h-3 w-3" />
+                    </Button>
+                    <span className="w-20 text-right font-medium">{cart && formatCartMoney(line.total, cart)}</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      onClick={() => removeLine(line.id)}
+                      disabled={isUpdating}
+                      className="h-8 w-8 p-0"
+                      aria-label={`Remove ${line.productTitle}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <DrawerFooter>
+            {cart && lines.length > 0 && (
+              <>
+                <div className="flex justify-between text-lg font-bold text-english-violet">
+                  <span>Subtotal</span>
+                  <span>{formatCartMoney(cart.subtotal, cart)}</span>
+                </div>
+                {cart.discounts.map((discount) => (
+                  <div key={discount.title} className="flex justify-between text-sm text-english-violet">
+                    <span>{discount.title}</span>
+                    <span>-{formatCartMoney(discount.amount, cart)}</span>
+                  </div>
+                ))}
+                {cart.discountCodes
+                  .filter((discountCode) => !discountCode.applicable)
+                  .map((discountCode) => (
+                    <p key={discountCode.code} className="text-sm text-gray-500">
+                      Discount {discountCode.code} doesn't apply to this cart
+                    </p>
+                  ))}
+                {cart.total !== cart.subtotal && (
+                  <div className="flex justify-between text-lg font-bold text-english-violet">
+                    <span>Total</span>
+                    <span>{formatCartMoney(cart.total, cart)}</span>
+                  </div>
+                )}
+                <Button
+                  className="bg-english-violet hover:bg-english-violet/90 text-white py-6 text-lg rounded-full"
+                  disabled={isUpdating}
+                  onClick={() => {
+                    window.location.href = cart.checkoutUrl
+                  }}
+                >
+                  Checkout
+                </Button>
+              </>
+            )}
+            <DrawerClose asChild>
+              <Button variant="outline" className="rounded-full">
+                Continue Shopping
+              </Button>
+            </DrawerClose>
+          </DrawerFooter>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  )
+}
@@ -0,0 +1,94 @@
+"use client"
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react"
+import type { ReactNode } from "react"
+import type { AddToCartOptions, CartLineInput, CartSummary } from "@/lib/shopify"
+import { addToCart, getCart, removeCartLines, setMarket, updateCartLine } from "@/lib/shopify"
+import type { Market } from "@/lib/shopify/markets"
+
+interface CartContextValue {
+  cart: CartSummary | null
+  isOpen: boolean
+  isUpdating: boolean
+  setOpen: (open: boolean) => void
+  addLines: (lines: CartLineInput[], options?: AddToCartOptions) => Promise<CartSummary>
+  updateLine: (lineId: string, quantity: number) => Promise<void>
+  removeLine: (lineId: string) => Promise<void>
+  changeMarket: (market: Market) => Promise<void>
+}
+
+const CartContext = createContext<CartContextValue | null>(null)
+
+/**
+ * Holds the visitor's session cart and the cart drawer's open state
+ */
+export function CartProvider({ children }: { children: ReactNode }) {
+  const [cart, setCart] = useState<CartSummary | null>(null)
+  const [isOpen, setOpen] = useState<boolean>(false)
+  const [isUpdating, setIsUpdating] = useState<boolean>(false)
+
+  // Restore the cart stored in the session cookie
+  useEffect(() => {
+    getCart()
+      .then(setCart)
+      .catch(() => setCart(null))
+  }, [])
+
+  const addLines = useCallback(async (lines: CartLineInput[], options?: AddToCartOptions) => {
+    setIsUpdating(true)
+    try {
+      const updatedCart = await addToCart(lines, options)
+      setCart(updatedCart)
+      setOpen(true)
+      return updatedCart
+    } finally {
+      setIsUpdating(false)
+    }
+  }, [])
+
+  const updateLine = useCallback(async (lineId: string, quantity: number) => {
+    setIsUpdating(true)
+    try {
+      setCart(quantity > 0 ? await updateCartLine(lineId, quantity) : await removeCartLines([lineId]))
+    } finally {
+      setIsUpdating(false)
+    }
+  }, [])
+
+  const removeLine = useCallback(async (lineId: string) => {
+    setIsUpdating(true)
+    try {
+      setCart(await removeCartLines([lineId]))
+    } finally {
+      setIsUpdating(false)
+    }
+  }, [])
+
+  // Reprices the cart in the new market's currency along with the calculators
+  const changeMarket = useCallback(async (market: Market) => {
+    setIsUpdating(true)
+    try {
+      setCart(await setMarket(market))
+    } finally {
+      setIsUpdating(false)
+    }
+  }, [])
+
+  const value = useMemo(
+    () => ({ cart, isOpen, isUpdating, setOpen, addLines, updateLine, removeLine, changeMarket }),
+    [cart, isOpen, isUpdating, addLines, updateLine, removeLine, changeMarket],
+  )
+
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>
+}
+
+/**
+ * Reads the session cart from the nearest `CartProvider`
+ */
+export function useCart() {
+  const context = useContext(CartContext)
+  if (!context) {
+    throw new Error("useCart must be used within a CartProvider")
+  }
+  return context
+}
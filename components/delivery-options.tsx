@@ -0,0 +1,71 @@
+"use client"
+
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Label } from "@/components/ui/label"
+import { cn } from "@/lib/utils"
+import type { DeliverySpeed, ProductionSchedule } from "@/lib/capacity"
+import { CAPACITY_HORIZON_WEEKS, formatDeliveryDate } from "@/lib/capacity"
+
+interface DeliveryOptionsProps {
+  // The selected package's slots, or `null` when capacity couldn't be loaded
+  schedule: ProductionSchedule | null
+  value: DeliverySpeed
+  onChange: (speed: DeliverySpeed) => void
+  // Locale of the calculator's market, for the dates
+  locale: string
+}
+
+/**
+ * Estimated delivery date for the selected package, with a rush option while next week has a free slot
+ */
+export default function DeliveryOptions({ schedule, value, onChange, locale }: DeliveryOptionsProps) {
+  if (!schedule) return null
+
+  if (!schedule.standard) {
+    return (
+      <p className="text-english-violet/80 mb-2">
+        This package is fully booked for the next {CAPACITY_HORIZON_WEEKS} weeks. Contact us and we'll find you a slot.
+      </p>
+    )
+  }
+
+  if (!schedule.rush) {
+    return (
+      <p className="text-english-violet/80 mb-2">
+        Estimated delivery: <strong>{formatDeliveryDate(schedule.standard.deliveryDate, locale)}</strong>
+      </p>
+    )
+  }
+
+  const options = [
+    { speed: "standard" as const, name: "Standard delivery", slot: schedule.standard },
+    { speed: "rush" as const, name: "Rush delivery", slot: schedule.rush },
+  ]
+
+  return (
+    <RadioGroup
+      value={value}
+      onValueChange={(speed) => onChange(speed as DeliverySpeed)}
+      className="space-y-2 mb-3 text-left"
+    >
+      {options.map((option) => (
+        <div
+          key={option.speed}
+          className={cn(
+            "flex items-center rounded-lg px-3 py-2 cursor-pointer transition-all",
+            value === option.speed ? "bg-white/80 shadow-sm" : "bg-white/30 hover:bg-white/60",
+          )}
+          onClick={() => onChange(option.speed)}
+        >
+          <RadioGroupItem value={option.speed} id={`delivery-${schedule.productId}-${option.speed}`} />
+          <Label
+            htmlFor={`delivery-${schedule.productId}-${option.speed}`}
+            className="ml-3 font-medium text-english-violet cursor-pointer"
+          >
+            {option.name}: by {formatDeliveryDate(option.slot.deliveryDate, locale)}
+          </Label>
+        </div>
+      ))}
+    </RadioGroup>
+  )
+}
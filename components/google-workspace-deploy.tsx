@@ -0,0 +1,182 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2, Search, Send } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { tenants } from "@/data/tenants"
+import { useToast } from "@/hooks/use-toast"
+import type { SignatureDeployment, SignatureDeploymentStatus } from "@/lib/signatures/deployment"
+
+// The staff API token is kept for the browser session only
+const STAFF_TOKEN_KEY = "lumio_staff_token"
+
+const STATUS_STYLES: Record<SignatureDeploymentStatus, { label: string; className: string }> = {
+  updated: { label: "Updated", className: "bg-green-100 text-green-800" },
+  unchanged: { label: "Unchanged", className: "bg-gray-100 text-gray-800" },
+  "would-update": { label: "Would update", className: "bg-blue-100 text-blue-800" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-800" },
+}
+
+const workspaceTenants = tenants.filter((tenant) => tenant.googleWorkspaceDomain)
+
+/**
+ * Staff card for pushing a tenant's signatures to its Google Workspace mailboxes, with a dry run first
+ */
+export default function GoogleWorkspaceDeploy() {
+  const [staffToken, setStaffToken] = useState("")
+  const [tenantId, setTenantId] = useState(workspaceTenants[0]?.id ?? "")
+  const [deployment, setDeployment] = useState<SignatureDeployment | null>(null)
+  const [runningDryRun, setRunningDryRun] = useState<boolean | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    setStaffToken(window.sessionStorage.getItem(STAFF_TOKEN_KEY) ?? "")
+  }, [])
+
+  const tenant = workspaceTenants.find((tenant) => tenant.id === tenantId)
+
+  const deploy = async (dryRun: boolean) => {
+    window.sessionStorage.setItem(STAFF_TOKEN_KEY, staffToken)
+    setRunningDryRun(dryRun)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/signatures/google-workspace", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${staffToken}` },
+        body: JSON.stringify({ tenantId, dryRun }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Signature deployment failed")
+      }
+
+      const result: SignatureDeployment = data
+      const failed = result.results.filter((result) => result.status === "failed").length
+      setDeployment(result)
+      toast({
+        title: dryRun ? "Dry run finished" : "Signatures pushed",
+        description: `${result.results.length - failed} of ${result.results.length} mailboxes succeeded.`,
+        variant: failed ? "destructive" : "default",
+      })
+    } catch (error) {
+      console.error("Error deploying signatures:", error)
+      setError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setRunningDryRun(null)
+    }
+  }
+
+  const isRunning = runningDryRun !== null
+  const canRun = Boolean(staffToken && tenant) && !isRunning
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Push to Google Workspace</CardTitle>
+        <CardDescription>
+          Replaces the Gmail signature of every employee on the tenant&apos;s domain. Run a dry run first to see
+          which mailboxes would change.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="deploy-staff-token">Staff token</Label>
+            <Input
+              id="deploy-staff-token"
+              type="password"
+              value={staffToken}
+              onChange={(e) => setStaffToken(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="deploy-tenant">Tenant</Label>
+            <Select
+              value={tenantId}
+              onValueChange={(value) => {
+                setTenantId(value)
+                setDeployment(null)
+              }}
+            >
+              <SelectTrigger id="deploy-tenant">
+                <SelectValue placeholder="No tenants on Google Workspace" />
+              </SelectTrigger>
+              <SelectContent>
+                {workspaceTenants.map((tenant) => (
+                  <SelectItem key={tenant.id} value={tenant.id}>
+                    {`${tenant.name} (${tenant.googleWorkspaceDomain})`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {deployment && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deployment.results.map((result) => (
+                <TableRow key={result.employeeId}>
+                  <TableCell className="font-medium">{result.name}</TableCell>
+                  <TableCell>{result.email}</TableCell>
+                  <TableCell>
+                    <span
+                      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                        STATUS_STYLES[result.status].className
+                      }`}
+                    >
+                      {STATUS_STYLES[result.status].label}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {result.error ?? (result.characters ? `${result.characters.toLocaleString()} characters` : "")}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+      <CardFooter className="flex justify-end gap-2">
+        <Button variant="outline" onClick={() => deploy(true)} disabled={!canRun}>
+          {runningDryRun === true ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Search className="mr-2 h-4 w-4" />
+          )}
+          Dry Run
+        </Button>
+        <Button
+          className="bg-english-violet hover:bg-english-violet/90"
+          onClick={() => deploy(false)}
+          disabled={!canRun}
+        >
+          {runningDryRun === false ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Send className="mr-2 h-4 w-4" />
+          )}
+          Push Signatures
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
@@ -0,0 +1,77 @@
+import type { ReactNode } from "react"
+import { splitHtml } from "@/lib/signatures/format"
+import { cn } from "@/lib/utils"
+
+interface HtmlSourceViewProps {
+  html: string
+  className?: string
+}
+
+// Attribute names, each optionally followed by `=` and a quoted or bare value
+const ATTRIBUTE_PATTERN = /(\s+)|([^\s=]+)(?:(=)("[^"]*"|'[^']*'|[^\s>]+))?/g
+
+function highlightTag(tag: string, key: number): ReactNode {
+  const match = /^(<\/?)([a-zA-Z][a-zA-Z0-9]*)([\s\S]*?)(\/?>)$/.exec(tag)
+  if (!match) {
+    return (
+      <span key={key} className="text-gray-500">
+        {tag}
+      </span>
+    )
+  }
+
+  const [, open, name, attributes, close] = match
+  const parts = [...attributes.matchAll(ATTRIBUTE_PATTERN)].map(([, space, attribute, equals, value], index) =>
+    space ? (
+      space
+    ) : (
+      <span key={index}>
+        <span className="text-amber-700">{attribute}</span>
+        {equals && <span className="text-gray-500">{equals}</span>}
+        {value && <span className="text-green-700">{value}</span>}
+      </span>
+    ),
+  )
+
+  return (
+    <span key={key}>
+      <span className="text-gray-500">{open}</span>
+      <span className="text-blue-700">{name}</span>
+      {parts}
+      <span className="text-gray-500">{close}</span>
+    </span>
+  )
+}
+
+function highlightText(text: string, key: number): ReactNode {
+  return (
+    <span key={key} className="text-gray-900">
+      {text.split(/(&[#a-zA-Z0-9]+;)/).map((part, index) =>
+        index % 2 === 1 ? (
+          <span key={index} className="text-purple-700">
+            {part}
+          </span>
+        ) : (
+          part
+        ),
+      )}
+    </span>
+  )
+}
+
+/**
+ * HTML source with syntax highlighting
+ *
+ * Shows exactly the characters it is given, so what's copied from it matches what's on screen.
+ */
+export default function HtmlSourceView({ html, className }: HtmlSourceViewProps) {
+  return (
+    <pre className={cn("text-xs font-mono whitespace-pre-wrap break-all", className)}>
+      <code>
+        {splitHtml(html).map((token, index) =>
+          token.startsWith("<") ? highlightTag(token, index) : highlightText(token, index),
+        )}
+      </code>
+    </pre>
+  )
+}
@@ -0,0 +1,57 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { useRouter } from "next/navigation"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useCart } from "@/components/cart-provider"
+import type { Market } from "@/lib/shopify/markets"
+import { getMarket, MARKETS } from "@/lib/shopify/markets"
+
+interface MarketSelectorProps {
+  market: Market
+}
+
+/**
+ * Country/currency picker for the calculators
+ *
+ * Switching stores the market in a cookie, moves the session cart to the new currency and
+ * re-renders the page so the server loads the catalog priced for that market.
+ */
+export default function MarketSelector({ market }: MarketSelectorProps) {
+  const router = useRouter()
+  const { changeMarket } = useCart()
+  const [isPending, startTransition] = useTransition()
+  const [error, setError] = useState<string | null>(null)
+
+  const handleChange = async (country: string) => {
+    setError(null)
+    try {
+      await changeMarket(getMarket(country))
+      startTransition(() => router.refresh())
+    } catch (error) {
+      console.error("Error changing market:", error)
+      setError("We couldn't switch currencies. Please try again.")
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-1 mt-4">
+      <div className="flex items-center justify-center gap-2 text-sm text-english-violet/80">
+        <span>Prices in</span>
+        <Select value={market.country} onValueChange={handleChange} disabled={isPending}>
+          <SelectTrigger className="w-56 h-9 bg-white" aria-label="Country and currency">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MARKETS.map((option) => (
+              <SelectItem key={option.country} value={option.country}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
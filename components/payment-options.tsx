@@ -0,0 +1,57 @@
+"use client"
+
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Label } from "@/components/ui/label"
+import { cn } from "@/lib/utils"
+import type { PaymentOption } from "@/lib/shopify/payment-options"
+import { getPaymentAmounts } from "@/lib/shopify/payment-options"
+
+interface PaymentOptionsProps {
+  options: PaymentOption[]
+  value: PaymentOption | null
+  onChange: (id: string) => void
+  total: number
+  // Formats amounts in the calculator's market currency
+  formatPrice: (amount: number) => string
+}
+
+/**
+ * Payment option picker showing what is due today and what is due later for each option
+ */
+export default function PaymentOptions({ options, value, onChange, total, formatPrice }: PaymentOptionsProps) {
+  if (options.length === 0) return null
+
+  const amounts = getPaymentAmounts(value, total)
+
+  return (
+    <div className="text-left">
+      {options.length > 1 && (
+        <RadioGroup value={value?.id ?? ""} onValueChange={onChange} className="space-y-2 mb-3">
+          {options.map((option) => (
+            <div
+              key={option.id}
+              className={cn(
+                "flex items-center rounded-lg px-3 py-2 cursor-pointer transition-all",
+                value?.id === option.id ? "bg-white/80 shadow-sm" : "bg-white/30 hover:bg-white/60",
+              )}
+              onClick={() => onChange(option.id)}
+            >
+              <RadioGroupItem value={option.id} id={`payment-${option.id}`} />
+              <Label htmlFor={`payment-${option.id}`} className="ml-3 font-medium text-english-violet cursor-pointer">
+                {option.name}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      )}
+
+      <div className="inline-block bg-black/10 rounded-full px-6 py-2 mb-3">
+        <span className="font-medium text-english-violet">
+          {formatPrice(amounts.dueToday)} today
+          {amounts.dueLater > 0 && <> · {formatPrice(amounts.dueLater)} later</>}
+        </span>
+      </div>
+      {value?.description && <p className="text-english-violet/80 mb-2">{value.description}</p>}
+    </div>
+  )
+}
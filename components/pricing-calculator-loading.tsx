@@ -0,0 +1,25 @@
+import type { ReactNode } from "react"
+
+interface PricingCalculatorLoadingProps {
+  title: string
+  description: ReactNode
+}
+
+/**
+ * Placeholder shown while a pricing calculator's catalog is loading
+ */
+export default function PricingCalculatorLoading({ title, description }: PricingCalculatorLoadingProps) {
+  return (
+    <section id="pricing" className="py-20 bg-white">
+      <div className="container mx-auto px-4">
+        <div className="text-center mb-12">
+          <h2 className="heading-md text-english-violet mb-4">{title}</h2>
+          <div className="text-lg text-gray-700 max-w-2xl mx-auto">{description}</div>
+        </div>
+        <div className="flex justify-center items-center py-20">
+          <div className="animate-pulse text-xl text-english-violet">Loading pricing options...</div>
+        </div>
+      </div>
+    </section>
+  )
+}
@@ -3,6 +3,9 @@ import Link from "next/link"
 import { cn } from "@/lib/utils"
 import Logo from "@/components/logo"
 import { Button } from "@/components/ui/button"
+import { CartProvider } from "@/components/cart-provider"
+import CartButton from "@/components/cart-button"
+import CartDrawer from "@/components/cart-drawer"
 
 interface ProductLayoutProps {
   children: ReactNode
@@ -20,78 +23,87 @@ export default function ProductLayout({
   logoVariant = "pale", // Add this line with default value
 }: ProductLayoutProps) {
   return (
-    <div className={cn("min-h-screen", bgColor === "bg-periwinkle" ? "bg-white" : "bg-english-violet/5")}>
-      <header className="sticky top-0 z-50 w-full border-b bg-white/80 backdrop-blur-sm">
-        <div className="container mx-auto px-4 py-4">
-          <div className="flex items-center justify-between">
-            {/* Logo - always on the left */}
-            <Link href="/" className="flex items-center">
-              <Logo size="medium" variant={logoVariant} />
-            </Link>
-
-            {/* Desktop-only center navigation */}
-            <div className="hidden md:flex items-center space-x-2 bg-gray-100 rounded-full p-1 absolute left-1/2 transform -translate-x-1/2">
-              <Link href="/avatars">
-                <div
-                  className={cn(
-                    "px-4 py-2 rounded-full transition-all",
-                    productType === "avatars" ? "bg-periwinkle text-english-violet font-medium" : "hover:bg-gray-200",
-                  )}
-                >
-                  Avatars
-                </div>
-              </Link>
-              <Link href="/signatures">
-                <div
-                  className={cn(
-                    "px-4 py-2 rounded-full transition-all",
-                    productType === "signatures"
-                      ? "bg-misty-rose text-english-violet font-medium"
-                      : "hover:bg-gray-200",
-                  )}
-                >
-                  Signatures
-                </div>
+    <CartProvider>
+      <div className={cn("min-h-screen", bgColor === "bg-periwinkle" ? "bg-white" : "bg-english-violet/5")}>
+        <header className="sticky top-0 z-50 w-full border-b bg-white/80 backdrop-blur-sm">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex items-center justify-between">
+              {/* Logo - always on the left */}
+              <Link href="/" className="flex items-center">
+                <Logo size="medium" variant={logoVariant} />
               </Link>
-            </div>
 
-            {/* Mobile-only product toggle - right aligned */}
-            <div className="md:hidden flex items-center space-x-1 bg-gray-100 rounded-full p-1 mr-4">
-              <Link href="/avatars">
-                <div
-                  className={cn(
-                    "px-3 py-1.5 text-sm rounded-full transition-all",
-                    productType === "avatars" ? "bg-periwinkle text-english-violet font-medium" : "hover:bg-gray-200",
-                  )}
-                >
-                  Avatars
-                </div>
-              </Link>
-              <Link href="/signatures">
-                <div
-                  className={cn(
-                    "px-3 py-1.5 text-sm rounded-full transition-all",
-                    productType === "signatures"
-                      ? "bg-misty-rose text-english-violet font-medium"
-                      : "hover:bg-gray-200",
-                  )}
-                >
-                  Signatures
-                </div>
-              </Link>
-            </div>
+              {/* Desktop-only center navigation */}
+              <div className="hidden md:flex items-center space-x-2 bg-gray-100 rounded-full p-1 absolute left-1/2 transform -translate-x-1/2">
+                <Link href="/avatars">
+                  <div
+                    className={cn(
+                      "px-4 py-2 rounded-full transition-all",
+                      productType === "avatars" ? "bg-periwinkle text-english-violet font-medium" : "hover:bg-gray-200",
+                    )}
+                  >
+                    Avatars
+                  </div>
+                </Link>
+                <Link href="/signatures">
+                  <div
+                    className={cn(
+                      "px-4 py-2 rounded-full transition-all",
+                      productType === "signatures"
+                        ? "bg-misty-rose text-english-violet font-medium"
+                        : "hover:bg-gray-200",
+                    )}
+                  >
+                    Signatures
+                  </div>
+                </Link>
+              </div>
 
-            {/* Desktop-only right side elements */}
-            <div className="hidden md:flex items-center space-x-4">
-              <Link href="/contact">
-                <Button className="bg-black hover:bg-black/90 text-white rounded-full px-6">Contact</Button>
-              </Link>
+              {/* Mobile-only product toggle - right aligned */}
+              <div className="md:hidden flex items-center space-x-1 bg-gray-100 rounded-full p-1 mr-4">
+                <Link href="/avatars">
+                  <div
+                    className={cn(
+                      "px-3 py-1.5 text-sm rounded-full transition-all",
+                      productType === "avatars" ? "bg-periwinkle text-english-violet font-medium" : "hover:bg-gray-200",
+                    )}
+                  >
+                    Avatars
+                  </div>
+                </Link>
+                <Link href="/signatures">
+                  <div
+                    className={cn(
+                      "px-3 py-1.5 text-sm rounded-full transition-all",
+                      productType === "signatures"
+                        ? "bg-misty-rose text-english-violet font-medium"
+                        : "hover:bg-gray-200",
+                    )}
+                  >
+                    Signatures
+                  </div>
+                </Link>
+              </div>
+
+              {/* Mobile-only cart button */}
+              <div className="md:hidden">
+                <CartButton />
+              </div>
+
+              {/* Desktop-only right side elements */}
+              <div className="hidden md:flex items-center space-x-4">
+                <CartButton />
+                <Link href="/contact">
+                  <Button className="bg-black hover:bg-black/90 text-white rounded-full px-6">Contact</Button>
+                </Link>
+              </div>
             </div>
           </div>
-        </div>
-      </header>
+        </header>
 
-      <main>{children}</main>
-    </div>
+        <main>{children}</main>
+        <CartDrawer />
+      </div>
+    </CartProvider>
   )
 }
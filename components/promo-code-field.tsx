@@ -0,0 +1,123 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { CartLineInput, CartSummary } from "@/lib/shopify"
+import { previewDiscountCode } from "@/lib/shopify"
+import { formatCartMoney } from "@/lib/shopify/markets"
+import { usePromoCode } from "@/hooks/use-promo-code"
+
+interface PromoCodeFieldProps {
+  // The lines the calculator would add to the cart, or `null` until a package is selected
+  lines: CartLineInput[] | null
+}
+
+/**
+ * Promo code entry for the pricing calculators
+ *
+ * Checks the code against the current selection in Shopify and shows the discounted total.
+ * The code itself is applied to the cart when the calculator adds its lines.
+ */
+export default function PromoCodeField({ lines }: PromoCodeFieldProps) {
+  const [code, setCode] = usePromoCode()
+  const [input, setInput] = useState<string>("")
+  const [preview, setPreview] = useState<CartSummary | null>(null)
+  const [isChecking, setIsChecking] = useState<boolean>(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setInput(code ?? "")
+  }, [code])
+
+  // Re-check the code whenever it or the selection changes
+  useEffect(() => {
+    setPreview(null)
+    setError(null)
+    if (!code || !lines) return
+
+    let cancelled = false
+    setIsChecking(true)
+
+    previewDiscountCode(code, lines)
+      .then((cart) => {
+        if (!cancelled) setPreview(cart)
+      })
+      .catch((error) => {
+        if (!cancelled) setError(error instanceof Error ? error.message : String(error))
+      })
+      .finally(() => {
+        if (!cancelled) setIsChecking(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [code, lines])
+
+  const applicable = preview?.discountCodes.find((discountCode) => discountCode.code.toUpperCase() === code)?.applicable
+  const discountTotal = preview?.discounts.reduce((sum, discount) => sum + Number.parseFloat(discount.amount), 0) ?? 0
+
+  return (
+    <div className="mt-4">
+      <Label htmlFor="promo-code" className="text-english-violet/80 block mb-1">
+        Promo Code
+      </Label>
+      <form
+        className="flex items-center space-x-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          setCode(input)
+        }}
+      >
+        <Input
+          id="promo-code"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Enter code"
+          className="h-10 bg-white/70"
+        />
+        {code && input.trim().toUpperCase() === code ? (
+          <Button type="button" variant="outline" className="h-10 rounded-md" onClick={() => setCode(null)}>
+            Remove
+          </Button>
+        ) : (
+          <Button type="submit" variant="outline" className="h-10 rounded-md" disabled={!input.trim()}>
+            Apply
+          </Button>
+        )}
+      </form>
+
+      {code && !lines && (
+        <p className="text-sm text-english-violet/80 mt-2">Select a package to see your discount with {code}.</p>
+      )}
+      {isChecking && <p className="text-sm text-english-violet/80 mt-2">Checking {code}...</p>}
+      {error && <p className="text-sm text-red-700 mt-2">We couldn't check {code}. It will be applied at checkout.</p>}
+      {preview && !isChecking && !applicable && (
+        <p className="text-sm text-red-700 mt-2">{code} can't be used with this package.</p>
+      )}
+      {preview && !isChecking && applicable && (
+        <div className="text-sm text-english-violet mt-2 space-y-1">
+          {preview.discounts.map((discount) => (
+            <div key={discount.title} className="flex justify-between">
+              <span>{discount.title}</span>
+              <span>-{formatCartMoney(discount.amount, preview)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between font-bold">
+            <span>Total with code</span>
+            <span>
+              {discountTotal > 0 && (
+                <span className="font-normal line-through text-english-violet/60 mr-2">
+                  {formatCartMoney(Math.round((Number.parseFloat(preview.total) + discountTotal) * 100) / 100, preview)}
+                </span>
+              )}
+              {formatCartMoney(preview.total, preview)}
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
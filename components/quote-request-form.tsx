@@ -0,0 +1,226 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { QuoteTimeline } from "@/lib/quotes"
+import { QUOTE_HONEYPOT_FIELD, QUOTE_TIMELINES } from "@/lib/quotes"
+import type { Market } from "@/lib/shopify/markets"
+
+interface QuoteRequestFormProps {
+  // Signature packages the requester can pick from
+  packages: Array<{ id: string; name: string }>
+  defaultPackageId: string
+  defaultSeatCount: number
+  market: Market
+}
+
+/**
+ * Custom quote request for teams too large for self-serve pricing
+ *
+ * Posts to `/api/quotes`, which stores the request and notifies sales, then shows the requester
+ * their reference number.
+ */
+export default function QuoteRequestForm({
+  packages,
+  defaultPackageId,
+  defaultSeatCount,
+  market,
+}: QuoteRequestFormProps) {
+  const [formData, setFormData] = useState({
+    name: "",
+    email: "",
+    company: "",
+    website: "",
+    notes: "",
+  })
+  const [productId, setProductId] = useState(defaultPackageId)
+  const [seatCount, setSeatCount] = useState(defaultSeatCount)
+  const [timeline, setTimeline] = useState<QuoteTimeline>("within-month")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [reference, setReference] = useState<string | null>(null)
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target
+    setFormData((prev) => ({ ...prev, [name]: value }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    // Read from the form rather than state, so bots that set the input's value directly are caught too
+    const honeypot = new FormData(e.currentTarget).get(QUOTE_HONEYPOT_FIELD)
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/quotes", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...formData,
+          website: formData.website || undefined,
+          notes: formData.notes || undefined,
+          seatCount,
+          productId,
+          timeline,
+          country: market.country,
+          [QUOTE_HONEYPOT_FIELD]: honeypot || undefined,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (response.status === 429) {
+        throw new Error("You've sent several quote requests already. Please try again later, or email us directly.")
+      }
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to send quote request")
+      }
+
+      setReference(data.reference)
+    } catch (error) {
+      console.error("Error submitting quote request:", error)
+      setError(error instanceof Error ? error.message : "Please try again later.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (reference) {
+    return (
+      <div className="text-center py-6">
+        <p className="text-lg font-bold text-english-violet">Thanks, we've got your request!</p>
+        <p className="text-gray-600 mt-2">Your reference number is</p>
+        <p className="text-3xl font-bold text-english-violet tracking-wider my-3">{reference}</p>
+        <p className="text-sm text-gray-600">
+          We've emailed you a copy. Our team will reply with a quote within one business day.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {/* Honeypot: hidden from people and screen readers, so only bots fill it in */}
+      <div className="absolute -left-[9999px]" aria-hidden="true">
+        <Label htmlFor="quote-fax">Fax</Label>
+        <Input id="quote-fax" name={QUOTE_HONEYPOT_FIELD} tabIndex={-1} autoComplete="off" defaultValue="" />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="quote-name">Name</Label>
+          <Input id="quote-name" name="name" value={formData.name} onChange={handleChange} required />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="quote-email">Work email</Label>
+          <Input id="quote-email" name="email" type="email" value={formData.email} onChange={handleChange} required />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="quote-company">Company</Label>
+          <Input id="quote-company" name="company" value={formData.company} onChange={handleChange} required />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="quote-website">Website</Label>
+          <Input
+            id="quote-website"
+            name="website"
+            placeholder="example.com"
+            value={formData.website}
+            onChange={handleChange}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="quote-package">Package</Label>
+          <Select value={productId} onValueChange={setProductId}>
+            <SelectTrigger id="quote-package">
+              <SelectValue placeholder="Select package" />
+            </SelectTrigger>
+            <SelectContent>
+              {packages.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="quote-seats">Users</Label>
+          <Input
+            id="quote-seats"
+            type="number"
+            min="1"
+            value={seatCount}
+            onChange={(e) => {
+              const value = Number.parseInt(e.target.value)
+              if (!isNaN(value)) {
+                setSeatCount(Math.max(1, value))
+              }
+            }}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="quote-timeline">Timeline</Label>
+          <Select value={timeline} onValueChange={(value) => setTimeline(value as QuoteTimeline)}>
+            <SelectTrigger id="quote-timeline">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {QUOTE_TIMELINES.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="quote-notes">Anything else we should know?</Label>
+        <Textarea
+          id="quote-notes"
+          name="notes"
+          placeholder="Teams or regions, brand guidelines, email platforms..."
+          rows={3}
+          value={formData.notes}
+          onChange={handleChange}
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <Button
+        type="submit"
+        className="w-full bg-english-violet hover:bg-english-violet/90"
+        disabled={isSubmitting || !productId}
+      >
+        {isSubmitting ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Sending...
+          </>
+        ) : (
+          "Request Quote"
+        )}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,57 @@
+"use client"
+
+import { useState } from "react"
+import { Check, Link2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import type { CalculatorConfig, CalculatorPage } from "@/lib/calculator-config"
+import { encodeShareCode } from "@/lib/calculator-config"
+import type { Market } from "@/lib/shopify/markets"
+
+interface ShareQuoteButtonProps {
+  page: CalculatorPage
+  // Nothing to share until a package is selected
+  config: CalculatorConfig | null
+  market: Market
+}
+
+/**
+ * "Share this quote" button that copies a short link to the calculator's configuration
+ *
+ * The link (`/q/...`) opens the same page with the same package, users and payment option, in the
+ * same market, so the recipient sees the same total.
+ */
+export default function ShareQuoteButton({ page, config, market }: ShareQuoteButtonProps) {
+  const [shared, setShared] = useState<{ code: string; link: string; copied: boolean } | null>(null)
+
+  if (!config) return null
+
+  const code = encodeShareCode({ page, config, country: market.country })
+  // Forget the last shared link once the configuration changes
+  const current = shared?.code === code ? shared : null
+
+  const handleShare = async () => {
+    const link = `${window.location.origin}/q/${code}`
+
+    try {
+      await navigator.clipboard.writeText(link)
+      setShared({ code, link, copied: true })
+    } catch (error) {
+      // Clipboard access can be blocked; the link is then shown to copy by hand
+      console.error("Error copying share link:", error)
+      setShared({ code, link, copied: false })
+    }
+  }
+
+  return (
+    <div className="mt-3 space-y-2">
+      <Button type="button" variant="link" className="text-english-violet px-0" onClick={handleShare}>
+        {current?.copied ? <Check className="mr-2 h-4 w-4" /> : <Link2 className="mr-2 h-4 w-4" />}
+        {current?.copied ? "Link copied" : "Share this quote"}
+      </Button>
+      {current && !current.copied && (
+        <Input readOnly value={current.link} onFocus={(e) => e.target.select()} className="bg-white" />
+      )}
+    </div>
+  )
+}
@@ -3,50 +3,78 @@
 import type React from "react"
 
 import { useState, useEffect } from "react"
-import type { Employee } from "@/data/movement-employees"
+import type { Tenant } from "@/data/tenants"
+import { copyRichText } from "@/lib/clipboard"
+import type { CopyMethod } from "@/lib/clipboard"
+import { formatSignatureHtml, GMAIL_SIGNATURE_MAX_LENGTH } from "@/lib/signatures/format"
+import type { SignatureHtmlFormat } from "@/lib/signatures/format"
+import { getAppleMailInstallGuide, renderAppleMailSignature } from "@/lib/signatures/apple-mail"
+import { getOutlookInstallGuides } from "@/lib/signatures/outlook"
+import { renderSignatureDocument } from "@/lib/signatures/render"
+import type { Employee, SignatureEdits } from "@/lib/signatures/template"
+import { getSignatureName, signatureEditsSchema } from "@/lib/signatures/template"
 import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Card, CardContent } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Check, Copy, Download, Save } from "lucide-react"
+import { Check, Copy, Download, Loader2, Mail, Save } from "lucide-react"
+import { useSignatureHtml } from "@/hooks/use-signature-html"
 import { useToast } from "@/hooks/use-toast"
 import EmailSignature from "@/components/email-signature"
+import HtmlSourceView from "@/components/html-source-view"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
 import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
 
+// What ended up on the clipboard, for the toast after copying
+const COPY_METHOD_DESCRIPTIONS: Record<CopyMethod, string> = {
+  rich: "Your formatted signature and a plain-text version are on your clipboard. Paste it into your signature editor.",
+  selection: "Your formatted signature is on your clipboard. Paste it into your signature editor.",
+  plain: "Your browser only let us copy plain text, without formatting or images. Use the HTML code tab instead.",
+}
+
+/**
+ * The editable fields of an employee's signature, as the form starts out
+ */
+function getFormData(employee: Employee | undefined): SignatureEdits {
+  return {
+    firstName: employee?.firstName ?? "",
+    lastName: employee?.lastName ?? "",
+    title: employee?.title ?? "",
+    phone: employee?.phone ?? "",
+    scheduleLink: employee?.scheduleLink || "",
+    useCompanyLogo: employee?.useCompanyLogo || false,
+  }
+}
+
+function FieldError({ id, messages }: { id: string; messages?: string[] }) {
+  if (!messages?.length) return null
+  return (
+    <p id={id} className="text-sm text-red-600 mt-1">
+      {messages[0]}
+    </p>
+  )
+}
+
 interface SignatureDeliveryPageProps {
-  companyName: string
-  companyLogo: string
-  companyColor: string
-  companyBrandedGif: string
-  employees: Employee[]
+  tenant: Tenant
   isAdmin?: boolean
 }
 
-export default function SignatureDeliveryPage({
-  companyName,
-  companyLogo,
-  companyColor,
-  companyBrandedGif,
-  employees,
-  isAdmin = false,
-}: SignatureDeliveryPageProps) {
+export default function SignatureDeliveryPage({ tenant, isAdmin = false }: SignatureDeliveryPageProps) {
+  const { name: companyName, logo: companyLogo, brandColor: companyColor, employees, signatureTemplate } = tenant
   const [selectedEmployeeId, setSelectedEmployeeId] = useState<string>(employees[0]?.id || "")
   const [copied, setCopied] = useState(false)
+  const [sourceCopied, setSourceCopied] = useState(false)
+  const [htmlFormat, setHtmlFormat] = useState<SignatureHtmlFormat>("pretty")
+  const [isDownloadingOutlook, setIsDownloadingOutlook] = useState(false)
   const { toast } = useToast()
 
   const selectedEmployee = employees.find((emp) => emp.id === selectedEmployeeId) || employees[0]
 
   // Form state for editable fields
-  const [formData, setFormData] = useState({
-    firstName: "",
-    lastName: "",
-    title: "",
-    phone: "",
-    scheduleLink: "",
-    useCompanyLogo: false,
-  })
+  const [formData, setFormData] = useState<SignatureEdits>(() => getFormData(selectedEmployee))
 
   // Create a modified employee object with the current form data
   const [modifiedEmployee, setModifiedEmployee] = useState<Employee | null>(null)
@@ -54,14 +82,7 @@ export default function SignatureDeliveryPage({
   // Initialize form data when selected employee changes
   useEffect(() => {
     if (selectedEmployee) {
-      setFormData({
-        firstName: selectedEmployee.firstName,
-        lastName: selectedEmployee.lastName,
-        title: selectedEmployee.title,
-        phone: selectedEmployee.phone,
-        scheduleLink: selectedEmployee.scheduleLink || "",
-        useCompanyLogo: selectedEmployee.useCompanyLogo || false,
-      })
+      setFormData(getFormData(selectedEmployee))
     }
   }, [selectedEmployee])
 
@@ -76,10 +97,9 @@ export default function SignatureDeliveryPage({
         phone: formData.phone,
         scheduleLink: formData.scheduleLink,
         useCompanyLogo: formData.useCompanyLogo,
-        avatarUrl: formData.useCompanyLogo ? companyBrandedGif : selectedEmployee.avatarUrl,
       })
     }
-  }, [formData, selectedEmployee, companyBrandedGif])
+  }, [formData, selectedEmployee])
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target
@@ -96,49 +116,158 @@ export default function SignatureDeliveryPage({
     }))
   }
 
+  // Checked with the route's schema before rendering, so a rejected edit shows next to its field
+  const editsResult = signatureEditsSchema.safeParse(formData)
+  const fieldErrors: Partial<Record<keyof SignatureEdits, string[]>> = editsResult.success
+    ? {}
+    : editsResult.error.flatten().fieldErrors
+
+  // Email-safe HTML for copy, download and the HTML code tab, rendered on the server with absolute asset URLs
+  const signatureRequest =
+    selectedEmployee && editsResult.success
+      ? { tenantId: tenant.id, employeeId: selectedEmployee.id, edits: editsResult.data }
+      : null
+  const {
+    html: signatureHtml,
+    text: signatureText,
+    isStale: isSignatureStale,
+    error: signatureError,
+  } = useSignatureHtml(signatureRequest)
+  const isSignatureReady = signatureHtml !== null && !isSignatureStale
+  // Why copy and download are unavailable and the HTML code is out of date
+  const signatureStatus = !editsResult.success
+    ? "Fix the highlighted fields to update your signature."
+    : signatureError && `We couldn't update your signature: ${signatureError}`
+  // What the HTML code tab shows, and copies and downloads
+  const sourceHtml = signatureHtml ? formatSignatureHtml(signatureHtml, htmlFormat) : null
+  const fileName = `${selectedEmployee.name.replace(" ", "-")}-signature`
+  // What the signature is called in mail clients
+  const signatureName = getSignatureName(companyName, selectedEmployee.name)
+  const appleMailGuide = getAppleMailInstallGuide(signatureName)
+
   const copySignatureToClipboard = async () => {
-    const signatureElement = document.getElementById("signature-preview")
-    if (signatureElement) {
-      try {
-        const signatureHtml = signatureElement.innerHTML
-        await navigator.clipboard.writeText(signatureHtml)
-        setCopied(true)
-        toast({
-          title: "Signature copied!",
-          description: "The HTML signature has been copied to your clipboard.",
-        })
-        setTimeout(() => setCopied(false), 2000)
-      } catch (err) {
-        toast({
-          title: "Copy failed",
-          description: "Please try again or use the HTML code directly.",
-          variant: "destructive",
-        })
-      }
+    if (!signatureHtml || !signatureText) return
+
+    try {
+      const method = await copyRichText(signatureHtml, signatureText)
+      setCopied(true)
+      toast({
+        title: method === "plain" ? "Signature copied as plain text" : "Signature copied!",
+        description: COPY_METHOD_DESCRIPTIONS[method],
+      })
+      setTimeout(() => setCopied(false), 2000)
+    } catch (err) {
+      toast({
+        title: "Copy failed",
+        description: "Please try again or use the HTML code directly.",
+        variant: "destructive",
+      })
     }
   }
 
+  const downloadFile = (content: BlobPart, name: string, type: string) => {
+    const blob = new Blob([content], { type })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = name
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
   const downloadSignatureAsHtml = () => {
-    const signatureElement = document.getElementById("signature-preview")
-    if (signatureElement) {
-      const signatureHtml = signatureElement.innerHTML
-      const blob = new Blob([signatureHtml], { type: "text/html" })
-      const url = URL.createObjectURL(blob)
-      const a = document.createElement("a")
-      a.href = url
-      a.download = `${selectedEmployee.name.replace(" ", "-")}-signature.html`
-      document.body.appendChild(a)
-      a.click()
-      document.body.removeChild(a)
-      URL.revokeObjectURL(url)
+    if (!signatureHtml) return
+
+    const signatureDocument = renderSignatureDocument(signatureHtml, `${selectedEmployee.name} email signature`)
+    downloadFile(signatureDocument, `${fileName}.html`, "text/html")
 
+    toast({
+      title: "Signature downloaded!",
+      description: "The HTML signature has been downloaded as a file.",
+    })
+  }
+
+  const downloadForOutlook = async () => {
+    if (!signatureRequest) return
+    setIsDownloadingOutlook(true)
+
+    try {
+      const response = await fetch("/api/signatures/outlook", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(signatureRequest),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || "Outlook package failed")
+      }
+
+      downloadFile(await response.blob(), `${signatureName}.zip`, "application/zip")
+      toast({
+        title: "Outlook signature downloaded!",
+        description: "Unzip it and follow the Outlook steps in the Installation Instructions tab.",
+      })
+    } catch (error) {
+      console.error("Error downloading Outlook signature:", error)
       toast({
-        title: "Signature downloaded!",
-        description: "The HTML signature has been downloaded as a file.",
+        title: "Download failed",
+        description: "Please try again, or copy your signature into Outlook instead.",
+        variant: "destructive",
       })
+    } finally {
+      setIsDownloadingOutlook(false)
     }
   }
 
+  const downloadForAppleMail = () => {
+    if (!signatureHtml) return
+
+    downloadFile(
+      renderAppleMailSignature(signatureHtml, crypto.randomUUID()),
+      `${signatureName}.mailsignature`,
+      "application/octet-stream",
+    )
+    toast({
+      title: "Apple Mail signature downloaded!",
+      description: "Follow the Apple Mail steps in the Installation Instructions tab to install it.",
+    })
+  }
+
+  const copySourceToClipboard = async () => {
+    if (!sourceHtml) return
+
+    try {
+      await navigator.clipboard.writeText(sourceHtml)
+      setSourceCopied(true)
+      toast({
+        title: "HTML copied!",
+        description: `The ${htmlFormat} HTML code has been copied to your clipboard.`,
+      })
+      setTimeout(() => setSourceCopied(false), 2000)
+    } catch (err) {
+      toast({
+        title: "Copy failed",
+        description: "Please try again or download the HTML instead.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const downloadSource = () => {
+    if (!sourceHtml) return
+
+    downloadFile(sourceHtml, `${fileName}${htmlFormat === "minified" ? ".min" : ""}.html`, "text/html")
+    toast({
+      title: "HTML downloaded!",
+      description: `The ${htmlFormat} HTML code has been downloaded as a file.`,
+    })
+  }
+
   // Function to save employee preferences (in a real app, this would connect to a backend)
   const savePreferences = () => {
     // In a real implementation, this would update the database
@@ -217,8 +346,11 @@ export default function SignatureDeliveryPage({
                         name="firstName"
                         value={formData.firstName}
                         onChange={handleInputChange}
+                        aria-invalid={Boolean(fieldErrors.firstName)}
+                        aria-describedby={fieldErrors.firstName ? "firstName-error" : undefined}
                         className="mt-1"
                       />
+                      <FieldError id="firstName-error" messages={fieldErrors.firstName} />
                     </div>
 
                     <div>
@@ -230,8 +362,11 @@ export default function SignatureDeliveryPage({
                         name="lastName"
                         value={formData.lastName}
                         onChange={handleInputChange}
+                        aria-invalid={Boolean(fieldErrors.lastName)}
+                        aria-describedby={fieldErrors.lastName ? "lastName-error" : undefined}
                         className="mt-1"
                       />
+                      <FieldError id="lastName-error" messages={fieldErrors.lastName} />
                     </div>
 
                     <div>
@@ -243,8 +378,11 @@ export default function SignatureDeliveryPage({
                         name="title"
                         value={formData.title}
                         onChange={handleInputChange}
+                        aria-invalid={Boolean(fieldErrors.title)}
+                        aria-describedby={fieldErrors.title ? "title-error" : undefined}
                         className="mt-1"
                       />
+                      <FieldError id="title-error" messages={fieldErrors.title} />
                     </div>
                   </div>
 
@@ -258,8 +396,11 @@ export default function SignatureDeliveryPage({
                         name="phone"
                         value={formData.phone}
                         onChange={handleInputChange}
+                        aria-invalid={Boolean(fieldErrors.phone)}
+                        aria-describedby={fieldErrors.phone ? "phone-error" : undefined}
                         className="mt-1"
                       />
+                      <FieldError id="phone-error" messages={fieldErrors.phone} />
                     </div>
 
                     <div>
@@ -271,9 +412,12 @@ export default function SignatureDeliveryPage({
                         name="scheduleLink"
                         value={formData.scheduleLink}
                         onChange={handleInputChange}
+                        aria-invalid={Boolean(fieldErrors.scheduleLink)}
+                        aria-describedby={fieldErrors.scheduleLink ? "scheduleLink-error" : undefined}
                         placeholder="https://calendly.com/your-link"
                         className="mt-1"
                       />
+                      <FieldError id="scheduleLink-error" messages={fieldErrors.scheduleLink} />
                     </div>
 
                     <div className="pt-2">
@@ -297,6 +441,7 @@ export default function SignatureDeliveryPage({
                 <div className="mt-6 flex justify-end">
                   <Button
                     onClick={savePreferences}
+                    disabled={!editsResult.success}
                     className="flex items-center gap-2"
                     style={{ backgroundColor: companyColor }}
                   >
@@ -324,23 +469,52 @@ export default function SignatureDeliveryPage({
                       </h2>
                       <div className="border p-6 bg-white rounded-md mb-6">
                         <div id="signature-preview">
-                          <EmailSignature employee={modifiedEmployee} companyColor={companyColor} />
+                          <EmailSignature template={signatureTemplate} employee={modifiedEmployee} />
                         </div>
                       </div>
-                      <div className="flex flex-col sm:flex-row gap-4">
+                      <div className="flex flex-col sm:flex-row sm:flex-wrap gap-4">
                         <Button
                           onClick={copySignatureToClipboard}
+                          disabled={!isSignatureReady}
                           className="flex items-center gap-2"
                           style={{ backgroundColor: companyColor }}
                         >
                           {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
                           {copied ? "Copied!" : "Copy Signature"}
                         </Button>
-                        <Button onClick={downloadSignatureAsHtml} variant="outline" className="flex items-center gap-2">
+                        <Button
+                          onClick={downloadSignatureAsHtml}
+                          disabled={!isSignatureReady}
+                          variant="outline"
+                          className="flex items-center gap-2"
+                        >
                           <Download className="h-4 w-4" />
                           Download as HTML
                         </Button>
+                        <Button
+                          onClick={downloadForOutlook}
+                          disabled={!isSignatureReady || isDownloadingOutlook}
+                          variant="outline"
+                          className="flex items-center gap-2"
+                        >
+                          {isDownloadingOutlook ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Mail className="h-4 w-4" />
+                          )}
+                          Download for Outlook
+                        </Button>
+                        <Button
+                          onClick={downloadForAppleMail}
+                          disabled={!isSignatureReady}
+                          variant="outline"
+                          className="flex items-center gap-2"
+                        >
+                          <Mail className="h-4 w-4" />
+                          Download for Apple Mail
+                        </Button>
                       </div>
+                      {signatureStatus && <p className="text-sm text-red-600 mt-4">{signatureStatus}</p>}
                     </CardContent>
                   </Card>
                 </TabsContent>
@@ -352,23 +526,64 @@ export default function SignatureDeliveryPage({
                         HTML Code
                       </h2>
                       <p className="text-gray-600 mb-4">
-                        If you need to manually add your signature, copy the HTML code below:
+                        If you need to manually add your signature, e.g. in Outlook or the Google Workspace admin
+                        console, copy the HTML code below:
                       </p>
-                      <div className="bg-gray-100 p-4 rounded-md overflow-auto max-h-96 mb-4">
-                        <pre className="text-xs text-gray-800 whitespace-pre-wrap">
-                          {`<div id="signature-preview">
-  <EmailSignature employee={modifiedEmployee} companyColor={companyColor} />
-</div>`}
-                        </pre>
+                      <div className="flex flex-wrap items-center justify-between gap-4 mb-2">
+                        <ToggleGroup
+                          type="single"
+                          size="sm"
+                          variant="outline"
+                          value={htmlFormat}
+                          onValueChange={(value) => value && setHtmlFormat(value as SignatureHtmlFormat)}
+                        >
+                          <ToggleGroupItem value="pretty">Pretty</ToggleGroupItem>
+                          <ToggleGroupItem value="minified">Minified</ToggleGroupItem>
+                        </ToggleGroup>
+                        {sourceHtml && (
+                          <span className="text-sm text-gray-500">
+                            {sourceHtml.length.toLocaleString()} characters
+                          </span>
+                        )}
+                      </div>
+                      {sourceHtml && sourceHtml.length > GMAIL_SIGNATURE_MAX_LENGTH && (
+                        <p className="text-sm text-amber-700 mb-2">
+                          Gmail only accepts signatures up to {GMAIL_SIGNATURE_MAX_LENGTH.toLocaleString()} characters.
+                          {htmlFormat === "pretty" && " Switch to minified to save space."}
+                        </p>
+                      )}
+                      {signatureStatus && sourceHtml && (
+                        <p className="text-sm text-red-600 mb-2">
+                          {signatureStatus} The code below doesn&apos;t include your latest changes.
+                        </p>
+                      )}
+                      <div className="bg-gray-50 border p-4 rounded-md overflow-auto max-h-96 mb-4">
+                        {sourceHtml ? (
+                          <HtmlSourceView html={sourceHtml} />
+                        ) : (
+                          <p className="text-xs text-gray-500">Rendering your signature...</p>
+                        )}
+                      </div>
+                      <div className="flex flex-col sm:flex-row gap-4">
+                        <Button
+                          onClick={copySourceToClipboard}
+                          disabled={!isSignatureReady}
+                          className="flex items-center gap-2"
+                          style={{ backgroundColor: companyColor }}
+                        >
+                          {sourceCopied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                          {sourceCopied ? "Copied!" : "Copy HTML"}
+                        </Button>
+                        <Button
+                          onClick={downloadSource}
+                          disabled={!isSignatureReady}
+                          variant="outline"
+                          className="flex items-center gap-2"
+                        >
+                          <Download className="h-4 w-4" />
+                          Download HTML
+                        </Button>
                       </div>
-                      <Button
-                        onClick={copySignatureToClipboard}
-                        className="flex items-center gap-2"
-                        style={{ backgroundColor: companyColor }}
-                      >
-                        {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
-                        {copied ? "Copied!" : "Copy HTML"}
-                      </Button>
                     </CardContent>
                   </Card>
                 </TabsContent>
@@ -394,23 +609,56 @@ export default function SignatureDeliveryPage({
 
                         <div>
                           <h3 className="font-medium text-lg mb-2">Outlook</h3>
-                          <ol className="list-decimal pl-5 space-y-2 text-gray-700">
-                            <li>Click the "Copy Signature" button above</li>
-                            <li>Open Outlook and go to File &gt; Options &gt; Mail &gt; Signatures</li>
-                            <li>Create a new signature or select an existing one to edit</li>
-                            <li>Paste your copied signature into the editor</li>
-                            <li>Click "Save" and then "OK"</li>
-                          </ol>
+                          <p className="text-gray-700 mb-4">
+                            Pasting into Outlook's signature editor can break the layout and stop GIFs from playing.
+                            Download your signature as Outlook's own signature files instead:
+                          </p>
+                          <Button
+                            onClick={downloadForOutlook}
+                            disabled={!isSignatureReady || isDownloadingOutlook}
+                            className="flex items-center gap-2 mb-4"
+                            style={{ backgroundColor: companyColor }}
+                          >
+                            {isDownloadingOutlook ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <Download className="h-4 w-4" />
+                            )}
+                            Download for Outlook
+                          </Button>
+                          <div className="space-y-4">
+                            {getOutlookInstallGuides(signatureName).map((guide) => (
+                              <div key={guide.id}>
+                                <h4 className="font-medium mb-2">{guide.title}</h4>
+                                <ol className="list-decimal pl-5 space-y-2 text-gray-700">
+                                  {guide.steps.map((step) => (
+                                    <li key={step}>{step}</li>
+                                  ))}
+                                </ol>
+                              </div>
+                            ))}
+                          </div>
                         </div>
 
                         <div>
-                          <h3 className="font-medium text-lg mb-2">Apple Mail</h3>
+                          <h3 className="font-medium text-lg mb-2">{appleMailGuide.title}</h3>
+                          <p className="text-gray-700 mb-4">
+                            Apple Mail rewrites signatures pasted into its settings. Download your signature as an
+                            Apple Mail signature file and swap it in for a placeholder instead:
+                          </p>
+                          <Button
+                            onClick={downloadForAppleMail}
+                            disabled={!isSignatureReady}
+                            className="flex items-center gap-2 mb-4"
+                            style={{ backgroundColor: companyColor }}
+                          >
+                            <Download className="h-4 w-4" />
+                            Download for Apple Mail
+                          </Button>
                           <ol className="list-decimal pl-5 space-y-2 text-gray-700">
-                            <li>Click the "Copy Signature" button above</li>
-                            <li>Open Mail and go to Mail &gt; Preferences &gt; Signatures</li>
-                            <li>Select your email account and click the "+" button to add a new signature</li>
-                            <li>Name your signature and paste the copied signature</li>
-                            <li>Close the preferences window to save</li>
+                            {appleMailGuide.steps.map((step) => (
+                              <li key={step}>{step}</li>
+                            ))}
                           </ol>
                         </div>
                       </div>
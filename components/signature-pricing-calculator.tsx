@@ -2,64 +2,105 @@
 
 /**
  * @component SignaturePricingCalculator
- * @version 1.2.0
+ * @version 1.10.0
  * @description
  * Pricing calculator for email signatures that handles variant selection based on user count.
  *
  * CRITICAL COMPONENT: This component directly impacts checkout functionality and revenue.
  * Any changes should be thoroughly tested with actual Shopify variants.
  *
- * @lastModified 2023-04-16
+ * @lastModified 2026-10-19
  * @changelog
  * - 1.0.0: Initial implementation
  * - 1.1.0: Fixed variant selection to correctly match user count with Shopify variants
  * - 1.2.0: Updated display title logic to use product ID/handle instead of price ranges
+ * - 1.3.0: Payment options (deposit, pay in full, installments) come from Shopify selling plans
+ * - 1.4.0: Package tiers, order, visibility, user limits and custom-quote variants come from Shopify metafields
+ * - 1.5.0: Prices load and display in the buyer's market currency, with a country/currency selector
+ * - 1.6.0: Totals, volume discounts and variant resolution come from the shared pricing engine (lib/pricing)
+ * - 1.7.0: Teams over the package's user limit send a quote request instead of checking out a placeholder
+ * - 1.8.0: Package, user count and payment option are kept in the URL and localStorage, with a share link
+ * - 1.9.0: Loading and cart errors show a message for their error code instead of the raw API error
+ * - 1.10.0: Shows the estimated delivery date, offers rush delivery while capacity allows and reserves the
+ *   production week on the cart line
  */
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { cn } from "@/lib/utils"
 import type { ReactNode } from "react"
-import type { ShopifyProduct } from "@/lib/shopify"
-import { createCart } from "@/lib/shopify"
+import type { CartLineInput, ShopifyProduct } from "@/lib/shopify"
+import { CATALOG_COLLECTIONS, getProductsByCollection } from "@/lib/shopify"
+import { useCart } from "@/components/cart-provider"
+import PromoCodeField from "@/components/promo-code-field"
+import PaymentOptions from "@/components/payment-options"
+import DeliveryOptions from "@/components/delivery-options"
+import { getShopifyErrorMessage, ShopifyApiError } from "@/lib/shopify/errors"
+import { getPaymentOptions, resolvePaymentOption } from "@/lib/shopify/payment-options"
+import { getVisiblePackages } from "@/lib/shopify/packages"
+import {
+  findVariantForUserCount,
+  getPackagePrice,
+  getUserPrice,
+  quoteSignature,
+  requiresCustomQuote,
+} from "@/lib/pricing"
+import type { Market } from "@/lib/shopify/markets"
+import { formatMoney } from "@/lib/shopify/markets"
+import MarketSelector from "@/components/market-selector"
+import { usePromoCode } from "@/hooks/use-promo-code"
 import AnimationExamples from "@/components/animation-examples"
+import PricingCalculatorLoading from "@/components/pricing-calculator-loading"
+import QuoteRequestForm from "@/components/quote-request-form"
+import ShareQuoteButton from "@/components/share-quote-button"
+import { useCalculatorConfig } from "@/hooks/use-calculator-config"
+import { useProductionSchedule } from "@/hooks/use-production-schedule"
+import type { DeliverySpeed } from "@/lib/capacity"
+import { getSlotAttributes } from "@/lib/capacity"
+import type { CalculatorConfig } from "@/lib/calculator-config"
+import { toPackageSlug } from "@/lib/calculator-config"
 
 interface PricingOption {
   id: string
   name: string
   description: string
   price: number
-  handle?: string
 }
 
 interface SignaturePricingCalculatorProps {
   title: string
   description: ReactNode
   products: ShopifyProduct[] | null
+  // Market the products are priced in
+  market: Market
 }
 
-// Default price per user
-const USER_PRICE = 50
-
 export default function SignaturePricingCalculator({
   title,
   description,
   products: initialProducts,
+  market,
 }: SignaturePricingCalculatorProps) {
   const [products, setProducts] = useState<ShopifyProduct[] | null>(initialProducts)
-  const [animationPackages, setAnimationPackages] = useState<PricingOption[]>([])
   const [selectedAnimation, setSelectedAnimation] = useState<string>("")
+  const [selectedPaymentOption, setSelectedPaymentOption] = useState<string | null>(null)
+  const [deliverySpeed, setDeliverySpeed] = useState<DeliverySpeed>("standard")
   const [userCount, setUserCount] = useState<number>(1)
   const [totalPrice, setTotalPrice] = useState<number>(0)
   const [isCustomPricing, setIsCustomPricing] = useState<boolean>(false)
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false)
+  const [isQuoteFormOpen, setIsQuoteFormOpen] = useState<boolean>(false)
   const [error, setError] = useState<string | null>(null)
-  const [loading, setLoading] = useState<boolean>(true)
+  const [loading, setLoading] = useState<boolean>(!initialProducts)
+  const { addLines } = useCart()
+  const [promoCode] = usePromoCode()
+  const { schedules, refresh: refreshSchedules } = useProductionSchedule(CATALOG_COLLECTIONS.signatures)
 
-  // Fetch products if not provided
+  // Fall back to fetching in the browser when the server could not provide products
   useEffect(() => {
     async function fetchProducts() {
       if (initialProducts) {
@@ -69,294 +110,120 @@ export default function SignaturePricingCalculator({
 
       setLoading(true)
       try {
-        // CRITICAL: This GraphQL query must include selectedOptions to properly match variants with user counts
-        const response = await fetch("/api/shopify", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            query: `
-             query GetProductsByCollection($title: String!) {
-               collections(first: 1, query: $title) {
-                 edges {
-                   node {
-                     title
-                     products(first: 10) {
-                       edges {
-                         node {
-                           id
-                           title
-                           description
-                           handle
-                           variants(first: 20) {
-                             edges {
-                               node {
-                                 id
-                                 title
-                                 priceV2 {
-                                   amount
-                                   currencyCode
-                                 }
-                                 availableForSale
-                                 selectedOptions {
-                                   name
-                                   value
-                                 }
-                               }
-                             }
-                           }
-                         }
-                       }
-                     }
-                   }
-                 }
-               }
-             }
-           `,
-            variables: {
-              title: "Email Signatures",
-            },
-          }),
-        })
-
-        if (!response.ok) {
-          throw new Error(`API error: ${response.status}`)
-        }
-
-        const data = await response.json()
-
-        if (data.error) {
-          throw new Error(data.error)
-        }
-
-        if (
-          !data.data ||
-          !data.data.collections ||
-          !data.data.collections.edges ||
-          data.data.collections.edges.length === 0
-        ) {
-          throw new Error("Collection not found")
-        }
-
-        const collection = data.data.collections.edges[0].node
-
-        if (!collection.products || !collection.products.edges || collection.products.edges.length === 0) {
-          throw new Error(`No products found in collection`)
-        }
-
-        // Transform the response to a simpler format
-        const fetchedProducts = collection.products.edges.map((edge: any) => {
-          const product = edge.node
-          return {
-            id: product.id,
-            title: product.title,
-            description: product.description,
-            handle: product.handle,
-            variants: product.variants.edges.map((variantEdge: any) => {
-              const variant = variantEdge.node
-              return {
-                id: variant.id,
-                title: variant.title,
-                price: variant.priceV2.amount,
-                available: variant.availableForSale,
-                selectedOptions: variant.selectedOptions,
-              }
-            }),
-          }
-        })
+        // CRITICAL: The catalog query must include selectedOptions to properly match variants
+        const fetchedProducts = await getProductsByCollection(CATALOG_COLLECTIONS.signatures, market)
 
         setProducts(fetchedProducts)
       } catch (error) {
         console.error("Error fetching products:", error)
-        setError(`Error fetching products: ${error instanceof Error ? error.message : String(error)}`)
+        setError(getShopifyErrorMessage(error))
       } finally {
         setLoading(false)
       }
     }
 
     fetchProducts()
-  }, [initialProducts])
+  }, [initialProducts, market])
+
+  // Derive packages during render so server-provided products are priced in the initial HTML
+  const animationPackages = useMemo<PricingOption[]>(() => {
+    if (!products) return []
+
+    // Hidden packages and display order come from the products' metafields
+    return getVisiblePackages(products).map((product) => ({
+      id: product.id,
+      name: product.package.tier,
+      description: product.description,
+      price: getPackagePrice(product),
+    }))
+  }, [products])
 
-  // Process products when they're available
-  useEffect(() => {
-    if (!products) return
+  const selectedProduct = products?.find((p) => p.id === selectedAnimation)
 
-    try {
-      // Format products for the calculator
-      const formattedPackages = products!.map((product) => {
-        // Get the base price from the first variant
-        const basePrice = product.variants.length > 0 ? Number.parseFloat(product.variants[0].price) : 0
-
-        return {
-          id: product.id,
-          name: product.title,
-          description: product.description,
-          price: basePrice,
-          handle: product.handle,
-        }
-      })
+  // Per-user price in the market's currency, from the selected (or first) package's variants
+  const userPrice = getUserPrice(selectedProduct ?? products?.[0])
 
-      setAnimationPackages(formattedPackages)
-    } catch (error) {
-      console.error("Error processing products:", error)
-      setError(`Error: ${error instanceof Error ? error.message : String(error)}`)
-    }
-  }, [products])
+  const quote = useMemo(
+    () => (selectedProduct ? quoteSignature(selectedProduct, userCount) : null),
+    [selectedProduct, userCount],
+  )
+
+  // Shopify may fall back to the store currency for a market it doesn't sell in, so format in the currency it returned
+  const currencyCode = products?.[0]?.variants[0]?.currencyCode ?? market.currencyCode
+  const formatPrice = (amount: number) => formatMoney(amount, currencyCode, market.locale)
+
+  // Payment options come from the selected product's selling plans in Shopify
+  const paymentOptions = useMemo(() => getPaymentOptions(selectedProduct), [selectedProduct])
+  const paymentOption = resolvePaymentOption(paymentOptions, selectedPaymentOption)
+
+  // Production slots for the selected package; rush falls back to standard once next week fills up
+  const schedule = schedules?.find((schedule) => schedule.productId === selectedProduct?.id) ?? null
+  const speed = deliverySpeed === "rush" && schedule?.rush ? "rush" : "standard"
+  const slot = speed === "rush" ? schedule?.rush : schedule?.standard
+  const isFullyBooked = Boolean(schedule && !schedule.standard)
+
+  // The configuration kept in the URL and localStorage, and shared by "Share this quote"
+  const calculatorConfig = useMemo<CalculatorConfig | null>(
+    () =>
+      selectedProduct
+        ? { package: toPackageSlug(selectedProduct.package.tier), users: userCount, payment: paymentOption?.kind }
+        : null,
+    [selectedProduct, userCount, paymentOption?.kind],
+  )
+
+  useCalculatorConfig({
+    page: "signatures",
+    ready: animationPackages.length > 0,
+    config: calculatorConfig,
+    onRestore: (config) => {
+      const selectedPackage = animationPackages.find((option) => toPackageSlug(option.name) === config.package)
+      if (!selectedPackage) return
+
+      setSelectedAnimation(selectedPackage.id)
+      if (config.users) setUserCount(config.users)
+
+      const product = products?.find((p) => p.id === selectedPackage.id)
+      const option = getPaymentOptions(product).find((option) => option.kind === config.payment)
+      setSelectedPaymentOption(option?.id ?? null)
+    },
+  })
 
   // Calculate total price
   useEffect(() => {
-    const selectedPackage = animationPackages.find((p) => p.id === selectedAnimation)
-    if (!selectedPackage) {
+    if (!quote) {
       setTotalPrice(0)
       return
     }
 
-    if (userCount > 50) {
+    if (quote.customQuote) {
       setIsCustomPricing(true)
     } else {
       setIsCustomPricing(false)
-      setTotalPrice(selectedPackage.price + USER_PRICE * userCount)
-    }
-  }, [selectedAnimation, userCount, animationPackages])
-
-  /**
-   * Helper function to determine the display title based on product ID or handle
-   *
-   * @param option - The pricing option
-   * @returns The display title (Starter, Essential, or Premium)
-   */
-  const getDisplayTitle = (option: PricingOption): string => {
-    // Check handle first (most reliable)
-    if (option.handle) {
-      if (option.handle.includes("starter")) return "Starter"
-      if (option.handle.includes("custom")) return "Essential"
-      if (option.handle.includes("premium")) return "Premium"
-    }
-
-    // Fallback to ID check
-    const id = option.id.toLowerCase()
-    if (id.includes("starter")) return "Starter"
-    if (id.includes("custom") || id.includes("essential")) return "Essential"
-    if (id.includes("premium")) return "Premium"
-
-    // Fallback to name
-    if (option.name === "Starter" || option.name === "Essential" || option.name === "Premium") {
-      return option.name
-    }
-
-    // Last resort: determine by price
-    if (option.price <= 950) return "Starter"
-    if (option.price <= 1450) return "Essential"
-    return "Premium"
-  }
-
-  /**
-   * CRITICAL FUNCTION: Finds the variant ID that matches the user count
-   *
-   * This function is responsible for selecting the correct Shopify variant based on the user count.
-   * It's critical for ensuring the correct price is charged at checkout.
-   *
-   * @param product - The Shopify product containing variants
-   * @param userCount - The number of users selected
-   * @returns The variant ID that matches the user count, or null if no match is found
-   */
-  const findVariantForUserCount = (product: ShopifyProduct, userCount: number): string | null => {
-    if (!product || !product.variants || product.variants.length === 0) {
-      console.error("Invalid product or no variants available", product)
-      return null
-    }
-
-    // For user counts > 50, use the specific Custom Quote variant IDs
-    if (userCount > 50) {
-      console.log(`Using Custom Quote variant for user count > 50: ${userCount}`)
-
-      // Determine which product this is (Starter, Essential, Premium)
-      const productType = getDisplayTitle({
-        id: product.id,
-        name: product.title,
-        description: product.description || "",
-        price: 0,
-        handle: product.handle,
-      })
-
-      // Use the specific variant ID based on product type
-      if (productType === "Premium") {
-        console.log("Using Premium Custom Quote variant ID: 44872062795961")
-        return "gid://shopify/ProductVariant/44872062795961"
-      } else if (productType === "Essential") {
-        console.log("Using Essential Custom Quote variant ID: 44872056373433")
-        return "gid://shopify/ProductVariant/44872056373433"
-      } else if (productType === "Starter") {
-        console.log("Using Starter Custom Quote variant ID: 44872043167929")
-        return "gid://shopify/ProductVariant/44872043167929"
-      }
-
-      // If we couldn't determine the product type, fall back to the first variant
-      console.warn("Could not determine product type for custom quote, using first variant")
-      return product.variants[0].id
-    }
-
-    // Try to find an exact match for the user count
-    console.log(`Looking for exact match for user count: ${userCount}`)
-    const exactMatch = product.variants.find((variant) => {
-      if (!variant.selectedOptions) return false
-      return variant.selectedOptions.some(
-        (option) => option.name === "User Count" && option.value === userCount.toString(),
-      )
-    })
-
-    if (exactMatch) {
-      console.log(`Found exact match variant: ${exactMatch.id}`)
-      return exactMatch.id
-    }
-
-    console.log(`No exact match found, looking for closest match below ${userCount}`)
-    // If no exact match, find the closest match below the requested count
-    const validVariants = product.variants
-      .filter((variant) => {
-        if (!variant.selectedOptions) return false
-        const countOption = variant.selectedOptions.find((option) => option.name === "User Count")
-        if (!countOption) return false
-        const count = Number.parseInt(countOption.value, 10)
-        return !isNaN(count) && count <= userCount
-      })
-      .sort((a, b) => {
-        const aCount = extractUserCount(a)
-        const bCount = extractUserCount(b)
-        return bCount - aCount // Sort in descending order
-      })
-
-    if (validVariants.length > 0) {
-      console.log(`Using closest match variant: ${validVariants[0].id} (${extractUserCount(validVariants[0])} users)`)
-      return validVariants[0]?.id || null
+      setTotalPrice(quote.total)
     }
+  }, [quote])
 
-    // Fallback to the first variant if no match is found
-    console.log(`No matching variant found, using first variant: ${product.variants[0].id}`)
-    return product.variants[0].id
-  }
-
-  /**
-   * Helper function to extract user count from variant
-   *
-   * @param variant - The Shopify variant
-   * @returns The user count as a number, or 0 if not found
-   */
-  const extractUserCount = (variant: any): number => {
-    if (!variant.selectedOptions) return 0
+  // The lines "Get Started" adds, used to check promo codes against real Shopify prices
+  const promoLines = useMemo<CartLineInput[] | null>(() => {
+    if (!selectedProduct || requiresCustomQuote(selectedProduct, userCount)) return null
 
-    const countOption = variant.selectedOptions.find((option: any) => option.name === "User Count")
-    if (!countOption) return 0
+    const variant = findVariantForUserCount(selectedProduct, userCount)
+    if (!variant) return null
 
-    const count = Number.parseInt(countOption.value, 10)
-    return isNaN(count) ? 0 : count
-  }
+    return [
+      {
+        merchandiseId: variant.id,
+        quantity: 1,
+        attributes: [{ key: "User Count", value: userCount.toString() }],
+        sellingPlanId: paymentOption?.sellingPlan?.id,
+      },
+    ]
+  }, [selectedProduct, userCount, paymentOption])
 
   /**
    * CRITICAL FUNCTION: Handles the "Get Started" button click
    *
-   * This function is responsible for finding the correct variant and creating the cart.
+   * This function is responsible for finding the correct variant and adding it to the session cart.
    * It's critical for ensuring the correct product is added to the cart.
    *
    * DO NOT MODIFY without thorough testing with actual Shopify variants.
@@ -379,9 +246,9 @@ export default function SignaturePricingCalculator({
       }
 
       // Find the variant that matches the user count
-      const variantId = findVariantForUserCount(product, userCount)
+      const variantId = findVariantForUserCount(product, userCount)?.id
       if (!variantId) {
-        throw new Error(`No variant found for user count: ${userCount}`)
+        throw new ShopifyApiError(`No variant found for user count: ${userCount}`, 404, undefined, "VARIANT_NOT_FOUND")
       }
 
       console.log(`Selected variant ID: ${variantId} for user count: ${userCount}`)
@@ -394,36 +261,33 @@ export default function SignaturePricingCalculator({
         },
       ]
 
-      // Hardcoded selling plan ID for 50% deposit
-      const sellingPlanId = "gid://shopify/SellingPlan/3226403001"
+      // Reserve the production week so the production team sees it on the order
+      if (slot) {
+        customAttributes.push(...getSlotAttributes(slot, speed))
+      }
 
-      // Create a cart with the selected variant and selling plan
-      const cart = await createCart(variantId, 1, customAttributes, sellingPlanId)
+      // Selling plan for the chosen payment option (none when paying in full)
+      const sellingPlanId = paymentOption?.sellingPlan?.id
 
-      // Redirect to checkout
-      window.location.href = cart.checkoutUrl
+      // Add the selected variant and selling plan to the session cart (opens the cart drawer)
+      await addLines([{ merchandiseId: variantId, quantity: 1, attributes: customAttributes, sellingPlanId }], {
+        discountCode: promoCode ?? undefined,
+      })
     } catch (error) {
       console.error("Error adding to cart:", error)
-      setError(`Error: ${error instanceof Error ? error.message : String(error)}`)
+      setError(getShopifyErrorMessage(error))
+
+      // The week filled up since the page loaded, so show the next free one
+      if (error instanceof ShopifyApiError && error.code === "CAPACITY_UNAVAILABLE") {
+        refreshSchedules()
+      }
     } finally {
       setIsSubmitting(false)
     }
   }
 
   if (loading) {
-    return (
-      <section id="pricing" className="py-20 bg-white">
-        <div className="container mx-auto px-4">
-          <div className="text-center mb-12">
-            <h2 className="heading-md text-english-violet mb-4">{title}</h2>
-            <div className="text-lg text-gray-700 max-w-2xl mx-auto">{description}</div>
-          </div>
-          <div className="flex justify-center items-center py-20">
-            <div className="animate-pulse text-xl text-english-violet">Loading pricing options...</div>
-          </div>
-        </div>
-      </section>
-    )
+    return <PricingCalculatorLoading title={title} description={description} />
   }
 
   return (
@@ -434,6 +298,7 @@ export default function SignaturePricingCalculator({
           <div className="text-base md:text-lg text-gray-700 max-w-xs sm:max-w-lg md:max-w-2xl mx-auto">
             {description}
           </div>
+          <MarketSelector market={market} />
         </div>
 
         {error && (
@@ -448,88 +313,75 @@ export default function SignaturePricingCalculator({
         <div className="max-w-full sm:max-w-2xl md:max-w-4xl mx-auto">
           {/* Pricing Options */}
           <div className="grid grid-cols-1 gap-8">
-            {/* Animation Package - Business model updated to show only Starter and Premium packages */}
+            {/* Animation Package - which packages show is set per product in Shopify (lumio.hidden) */}
             <div className="bg-seasalt p-8 rounded-xl">
               <h3 className="text-2xl font-bold text-english-violet mb-6 text-center">
                 Step #1: Select Animation Package
               </h3>
               <RadioGroup value={selectedAnimation} onValueChange={setSelectedAnimation} className="space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6 max-w-3xl mx-auto">
-                  {/* Sort and map the packages to ensure Starter, Essential, Premium order */}
-                  {[...animationPackages]
-                    .filter((option) => {
-                      // Filter out the Essential package
-                      const title = getDisplayTitle(option)
-                      return title !== "Essential"
-                    })
-                    .sort((a, b) => {
-                      // Order: Starter (1), Premium (2)
-                      const order = { Starter: 1, Premium: 2 }
-                      const aType = getDisplayTitle(a)
-                      const bType = getDisplayTitle(b)
-                      return (order[aType as keyof typeof order] || 99) - (order[bType as keyof typeof order] || 99)
-                    })
-                    .map((option) => {
-                      // Get the display title based on product ID or handle
-                      const displayTitle = getDisplayTitle(option)
-
-                      return (
-                        <div
-                          key={option.id}
-                          className={cn(
-                            "flex flex-col rounded-xl border p-6 cursor-pointer transition-all",
-                            selectedAnimation === option.id
-                              ? "border-english-violet bg-white shadow-md"
-                              : "border-transparent bg-white/50 hover:bg-white hover:shadow-sm",
-                          )}
-                          onClick={() => setSelectedAnimation(option.id)}
-                        >
-                          <div className="flex items-start mb-4">
-                            <RadioGroupItem value={option.id} id={`animation-${option.id}`} className="mt-1" />
-                            <div className="ml-3">
-                              <Label htmlFor={`animation-${option.id}`} className="font-bold text-lg cursor-pointer">
-                                {displayTitle}
-                              </Label>
-                              <p className="text-english-violet/70 font-medium text-lg">${option.price}</p>
-                            </div>
+                  {/* Packages arrive filtered and ordered by their metafields */}
+                  {animationPackages.map((option) => {
+                    // Tier name from the product's metafields
+                    const displayTitle = option.name
+
+                    return (
+                      <div
+                        key={option.id}
+                        className={cn(
+                          "flex flex-col rounded-xl border p-6 cursor-pointer transition-all",
+                          selectedAnimation === option.id
+                            ? "border-english-violet bg-white shadow-md"
+                            : "border-transparent bg-white/50 hover:bg-white hover:shadow-sm",
+                        )}
+                        onClick={() => setSelectedAnimation(option.id)}
+                      >
+                        <div className="flex items-start mb-4">
+                          <RadioGroupItem value={option.id} id={`animation-${option.id}`} className="mt-1" />
+                          <div className="ml-3">
+                            <Label htmlFor={`animation-${option.id}`} className="font-bold text-lg cursor-pointer">
+                              {displayTitle}
+                            </Label>
+                            <p className="text-english-violet/70 font-medium text-lg">{formatPrice(option.price)}</p>
                           </div>
-                          <p className="text-sm text-gray-600 flex-grow">{option.description}</p>
-                          {displayTitle === "Starter" && (
-                            <AnimationExamples
-                              examples={[
-                                {
-                                  src: "https://imagedelivery.net/nAvfNlDyCTDMbgRwQ09UKA/d4d68160-ef93-444e-6d59-509ba10ae500/150x150px",
-                                  alt: "Animated flow",
-                                },
-                                { src: "/animations/examples/starter-spin.gif", alt: "Animated spin" },
-                                { src: "/animations/examples/starter-pulse-spin.gif", alt: "Animated pulse spin" },
-                              ]}
-                            />
-                          )}
-                          {displayTitle === "Essential" && (
-                            <AnimationExamples
-                              examples={[
-                                { src: "/animations/examples/essential-b.gif", alt: "Animated B logo" },
-                                { src: "/animations/examples/essential-squares.gif", alt: "Animated squares" },
-                                { src: "/animations/examples/essential-slip.gif", alt: "Animated Slip logo" },
-                              ]}
-                            />
-                          )}
-                          {displayTitle === "Premium" && (
-                            <AnimationExamples
-                              examples={[
-                                { src: "/animations/examples/essential-slip.gif", alt: "Animated Slip logo" },
-                                {
-                                  src: "https://imagedelivery.net/nAvfNlDyCTDMbgRwQ09UKA/58bd7767-df02-4d72-e907-13d236d4ce00/150x150px",
-                                  alt: "Animated Melalogic logo",
-                                },
-                                { src: "/animations/examples/premium-playpad.gif", alt: "Animated Playpad logo" },
-                              ]}
-                            />
-                          )}
                         </div>
-                      )
-                    })}
+                        <p className="text-sm text-gray-600 flex-grow">{option.description}</p>
+                        {displayTitle === "Starter" && (
+                          <AnimationExamples
+                            examples={[
+                              {
+                                src: "https://imagedelivery.net/nAvfNlDyCTDMbgRwQ09UKA/d4d68160-ef93-444e-6d59-509ba10ae500/150x150px",
+                                alt: "Animated flow",
+                              },
+                              { src: "/animations/examples/starter-spin.gif", alt: "Animated spin" },
+                              { src: "/animations/examples/starter-pulse-spin.gif", alt: "Animated pulse spin" },
+                            ]}
+                          />
+                        )}
+                        {displayTitle === "Essential" && (
+                          <AnimationExamples
+                            examples={[
+                              { src: "/animations/examples/essential-b.gif", alt: "Animated B logo" },
+                              { src: "/animations/examples/essential-squares.gif", alt: "Animated squares" },
+                              { src: "/animations/examples/essential-slip.gif", alt: "Animated Slip logo" },
+                            ]}
+                          />
+                        )}
+                        {displayTitle === "Premium" && (
+                          <AnimationExamples
+                            examples={[
+                              { src: "/animations/examples/essential-slip.gif", alt: "Animated Slip logo" },
+                              {
+                                src: "https://imagedelivery.net/nAvfNlDyCTDMbgRwQ09UKA/58bd7767-df02-4d72-e907-13d236d4ce00/150x150px",
+                                alt: "Animated Melalogic logo",
+                              },
+                              { src: "/animations/examples/premium-playpad.gif", alt: "Animated Playpad logo" },
+                            ]}
+                          />
+                        )}
+                      </div>
+                    )
+                  })}
                 </div>
               </RadioGroup>
             </div>
@@ -547,7 +399,7 @@ export default function SignaturePricingCalculator({
                       <Label className="font-bold text-lg mb-1 block">Number of Users</Label>
                       <p className="text-sm text-gray-600 mb-3">Add the number of users in your organization</p>
                       <div className="flex items-center space-x-2">
-                        <span className="text-english-violet/70 font-medium">${USER_PRICE}/user</span>
+                        <span className="text-english-violet/70 font-medium">{formatPrice(userPrice)}/user</span>
                       </div>
                     </div>
 
@@ -586,13 +438,23 @@ export default function SignaturePricingCalculator({
                       </Button>
                     </div>
 
-                    {userCount > 50 ? (
+                    {requiresCustomQuote(selectedProduct, userCount) ? (
                       <div className="mt-4 py-2">
                         <p className="font-medium text-english-violet">Custom Pricing Available</p>
-                        <p className="text-sm text-gray-600 mt-1">Contact us for a custom quote for your team</p>
+                        <p className="text-sm text-gray-600 mt-1">Request a custom quote for your team</p>
                       </div>
                     ) : (
-                      <p className="mt-4 font-large text-english-violet/70">Subtotal: ${USER_PRICE * userCount}</p>
+                      <div className="mt-4">
+                        <p className="font-large text-english-violet/70">
+                          Subtotal: {formatPrice(quote?.subtotal ?? userPrice * userCount)}
+                        </p>
+                        {quote?.volumeDiscount && (
+                          <p className="text-sm text-english-violet mt-1">
+                            Volume discount ({quote.volumeDiscount.percentOff}% off {quote.volumeDiscount.minUsers}+
+                            users): -{formatPrice(quote.volumeDiscount.amount)}
+                          </p>
+                        )}
+                      </div>
                     )}
                   </div>
                 </div>
@@ -615,35 +477,72 @@ export default function SignaturePricingCalculator({
                 ) : (
                   <>
                     <h2 className="text-4xl font-bold text-english-violet mb-2 transform scale-110 px-4 pb-2">
-                      ${totalPrice}
+                      {formatPrice(totalPrice)}
                     </h2>
-                    <div className="inline-block bg-black/10 rounded-full px-6 py-2 mb-3">
-                      <span className="font-medium text-english-violet">
-                        50% Deposit: ${Math.round(totalPrice / 2)} today
-                      </span>
-                    </div>
-                    <p className="text-english-violet/80 mb-2">
-                      Remaining 50% will be auto-charged in 20 days or upon project completion.
-                    </p>
+                    <PaymentOptions
+                      options={paymentOptions}
+                      value={paymentOption}
+                      onChange={setSelectedPaymentOption}
+                      total={totalPrice}
+                      formatPrice={formatPrice}
+                    />
+                    <DeliveryOptions
+                      schedule={schedule}
+                      value={speed}
+                      onChange={setDeliverySpeed}
+                      locale={market.locale}
+                    />
                   </>
                 )}
                 <p className="text-english-violet/70 py-2">
                   All packages include installation and 2 rounds of revision. If additional revisions are needed, we'll
                   provide a personalized quote.
                 </p>
-
-                <Button
-                  className="bg-english-violet hover:bg-english-violet/90 text-white px-6 py-4 text-lg rounded-full mt-6"
-                  onClick={handleGetStarted}
-                  disabled={isSubmitting || !selectedAnimation}
-                >
-                  {isSubmitting ? "Processing..." : selectedAnimation ? "Get Started" : "Select a Package"}
-                </Button>
+                {selectedAnimation && !isCustomPricing && <PromoCodeField lines={promoLines} />}
+                <ShareQuoteButton page="signatures" config={calculatorConfig} market={market} />
+
+                {/* Large teams are priced by sales rather than checked out at a placeholder price */}
+                {selectedAnimation && isCustomPricing ? (
+                  <Button
+                    className="bg-english-violet hover:bg-english-violet/90 text-white px-6 py-4 text-lg rounded-full mt-6"
+                    onClick={() => setIsQuoteFormOpen(true)}
+                  >
+                    Request a Quote
+                  </Button>
+                ) : (
+                  <Button
+                    className="bg-english-violet hover:bg-english-violet/90 text-white px-6 py-4 text-lg rounded-full mt-6"
+                    onClick={handleGetStarted}
+                    disabled={isSubmitting || !selectedAnimation || isFullyBooked}
+                  >
+                    {isSubmitting ? "Processing..." : selectedAnimation ? "Get Started" : "Select a Package"}
+                  </Button>
+                )}
               </div>
             </div>
           </div>
         </div>
       </div>
+
+      <Dialog open={isQuoteFormOpen} onOpenChange={setIsQuoteFormOpen}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-english-violet">Request a Custom Quote</DialogTitle>
+            <DialogDescription>
+              Tell us about your team and we'll send a quote you can check out online.
+            </DialogDescription>
+          </DialogHeader>
+          {/* Remount per opening so the form picks up the current package and user count */}
+          {isQuoteFormOpen && (
+            <QuoteRequestForm
+              packages={animationPackages}
+              defaultPackageId={selectedAnimation}
+              defaultSeatCount={userCount}
+              market={market}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </section>
   )
 }
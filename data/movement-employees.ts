@@ -1,15 +1,4 @@
-export interface Employee {
-  id: string
-  name: string
-  firstName: string
-  lastName: string
-  title: string
-  email: string
-  phone: string
-  avatarUrl: string
-  useCompanyLogo?: boolean // Flag to indicate if using company logo instead of personal headshot
-  scheduleLink?: string
-}
+import type { Employee } from "@/lib/signatures/template"
 
 export const movementEmployees: Employee[] = [
   {
@@ -0,0 +1,82 @@
+import { companyAssets, movementEmployees } from "./movement-employees"
+import type { Employee, SignatureTemplate } from "@/lib/signatures/template"
+import { defineSignatureTemplate } from "@/lib/signatures/template"
+
+// A client whose employees get their signatures from the delivery portal at `/delivery/<id>`
+export interface Tenant {
+  id: string
+  name: string
+  description: string
+  logo: string
+  brandColor: string
+  employees: Employee[]
+  signatureTemplate: SignatureTemplate
+  // Set when the tenant's mail is on Google Workspace, so staff can push signatures to the mailboxes on it
+  googleWorkspaceDomain?: string
+}
+
+const movementSignatureTemplate = defineSignatureTemplate({
+  id: "movement",
+  website: { url: "https://movement.io", label: "movement.io" },
+  companyAvatarUrl: companyAssets.brandedGif,
+  socialLinks: [
+    { network: "facebook", url: "https://www.facebook.com/MovementIO" },
+    { network: "linkedin", url: "https://www.linkedin.com/company/movement-io" },
+    { network: "twitter", url: "https://twitter.com/MovementIO" },
+    { network: "instagram", url: "https://www.instagram.com/movement.io" },
+  ],
+  colors: { primary: companyAssets.brandColor, text: "#333333" },
+  fonts: { family: "Arial", nameSize: 20, titleSize: 14, detailSize: 12 },
+  columns: [
+    {
+      align: "center",
+      verticalAlign: "top",
+      blocks: [
+        { type: "avatar", size: 110 },
+        { type: "spacer", height: 12 },
+        { type: "socialLinks", iconSize: 20 },
+      ],
+    },
+    {
+      align: "left",
+      verticalAlign: "middle",
+      blocks: [
+        { type: "field", field: "name", style: "name" },
+        { type: "field", field: "title", style: "title" },
+        { type: "spacer", height: 12 },
+        { type: "divider", width: 40 },
+        { type: "spacer", height: 12 },
+        { type: "field", field: "phone", style: "detail" },
+        { type: "website" },
+        { type: "field", field: "scheduleLink", style: "detail", label: "Create Media that Moves: Schedule Here" },
+      ],
+    },
+  ],
+  columnGap: 35,
+})
+
+export const tenants: Tenant[] = [
+  {
+    id: "movement",
+    name: "Movement.io",
+    description: "Digital marketing and media production",
+    logo: companyAssets.logo,
+    brandColor: companyAssets.brandColor,
+    employees: movementEmployees,
+    signatureTemplate: movementSignatureTemplate,
+    googleWorkspaceDomain: "movement.io",
+  },
+]
+
+export function getTenant(id: string): Tenant | null {
+  return tenants.find((tenant) => tenant.id === id) ?? null
+}
+
+/**
+ * Looks up an employee of a tenant, or `null` when either doesn't exist
+ */
+export function getTenantEmployee(tenantId: string, employeeId: string): { tenant: Tenant; employee: Employee } | null {
+  const tenant = getTenant(tenantId)
+  const employee = tenant?.employees.find((employee) => employee.id === employeeId)
+  return tenant && employee ? { tenant, employee } : null
+}
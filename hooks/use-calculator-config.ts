@@ -0,0 +1,60 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import type { CalculatorConfig, CalculatorPage } from "@/lib/calculator-config"
+import { parseCalculatorConfig, parseStoredCalculatorConfig, setCalculatorConfigParams } from "@/lib/calculator-config"
+
+interface UseCalculatorConfigOptions {
+  page: CalculatorPage
+  // The packages have loaded, so a saved configuration can be matched to them
+  ready: boolean
+  // The calculator's current configuration, or `null` when no package is selected
+  config: CalculatorConfig | null
+  // Applies a configuration from the URL or localStorage to the calculator's state
+  onRestore: (config: CalculatorConfig) => void
+}
+
+function getStorageKey(page: CalculatorPage) {
+  return `lumio_calculator_${page}`
+}
+
+/**
+ * Keeps a calculator's configuration in the page URL and localStorage
+ *
+ * Once the packages are ready, restores the configuration from the URL (a shared link) or else from
+ * localStorage (a returning visitor). After that every change is written back to both, so reloading
+ * or copying the address bar keeps the configuration.
+ */
+export function useCalculatorConfig({ page, ready, config, onRestore }: UseCalculatorConfigOptions) {
+  const [isRestored, setIsRestored] = useState(false)
+  const onRestoreRef = useRef(onRestore)
+  onRestoreRef.current = onRestore
+
+  useEffect(() => {
+    if (!ready || isRestored) return
+
+    const saved =
+      parseCalculatorConfig(new URLSearchParams(window.location.search)) ??
+      parseStoredCalculatorConfig(window.localStorage.getItem(getStorageKey(page)))
+    if (saved) onRestoreRef.current(saved)
+
+    // Set together with the restored state, so the first write below already sees it
+    setIsRestored(true)
+  }, [ready, isRestored, page])
+
+  const serializedConfig = config ? JSON.stringify(config) : null
+
+  useEffect(() => {
+    if (!isRestored) return
+
+    if (serializedConfig) {
+      window.localStorage.setItem(getStorageKey(page), serializedConfig)
+    } else {
+      window.localStorage.removeItem(getStorageKey(page))
+    }
+
+    const url = new URL(window.location.href)
+    setCalculatorConfigParams(url.searchParams, parseStoredCalculatorConfig(serializedConfig))
+    window.history.replaceState(window.history.state, "", url)
+  }, [isRestored, serializedConfig, page])
+}
@@ -0,0 +1,38 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { CatalogCollection } from "@/lib/shopify"
+import { getProductionSchedules } from "@/lib/shopify"
+import type { ProductionSchedule } from "@/lib/capacity"
+
+/**
+ * Standard and rush production slots for a calculator's packages
+ *
+ * `schedules` stays `null` while loading and when capacity can't be loaded, in which case calculators
+ * leave out the delivery estimate rather than block checkout. `refresh` refetches them, e.g. after the
+ * cart rejected a week that filled up.
+ */
+export function useProductionSchedule(collection: CatalogCollection) {
+  const [schedules, setSchedules] = useState<ProductionSchedule[] | null>(null)
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => {
+    let isCurrent = true
+
+    getProductionSchedules(collection)
+      .then((schedules) => {
+        if (isCurrent) setSchedules(schedules)
+      })
+      .catch(() => {
+        if (isCurrent) setSchedules(null)
+      })
+
+    return () => {
+      isCurrent = false
+    }
+  }, [collection, version])
+
+  const refresh = useCallback(() => setVersion((version) => version + 1), [])
+
+  return { schedules, refresh }
+}
@@ -0,0 +1,56 @@
+"use client"
+
+import { useCallback, useEffect, useSyncExternalStore } from "react"
+
+// Kept for the browser session so a code follows the visitor between /avatars and /signatures
+const STORAGE_KEY = "lumio_promo_code"
+
+const listeners = new Set<() => void>()
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+function getSnapshot() {
+  return window.sessionStorage.getItem(STORAGE_KEY)
+}
+
+function getServerSnapshot() {
+  return null
+}
+
+function storePromoCode(code: string | null) {
+  if (code) {
+    window.sessionStorage.setItem(STORAGE_KEY, code)
+  } else {
+    window.sessionStorage.removeItem(STORAGE_KEY)
+  }
+  listeners.forEach((listener) => listener())
+}
+
+/**
+ * The visitor's promo code, shared by every calculator on the page
+ *
+ * A `?code=` URL parameter (e.g. from a sales email) replaces any stored code and is then
+ * removed from the address bar, so clearing the code doesn't bring it back on the next visit.
+ */
+export function usePromoCode(): [string | null, (code: string | null) => void] {
+  const code = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot)
+
+  useEffect(() => {
+    const url = new URL(window.location.href)
+    const codeFromUrl = url.searchParams.get("code")?.trim()
+    if (!codeFromUrl) return
+
+    storePromoCode(codeFromUrl.toUpperCase())
+    url.searchParams.delete("code")
+    window.history.replaceState(window.history.state, "", url)
+  }, [])
+
+  const setCode = useCallback((code: string | null) => {
+    storePromoCode(code?.trim().toUpperCase() || null)
+  }, [])
+
+  return [code, setCode]
+}
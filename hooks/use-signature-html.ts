@@ -0,0 +1,64 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { SignatureRequest } from "@/lib/signatures/template"
+
+// Waits for typing to pause before rendering the edited signature
+const RENDER_DELAY_MS = 300
+
+/**
+ * Email-safe HTML of an employee's signature and its plain-text version, rendered by `/api/signatures`
+ *
+ * `html` and `text` stay `null` until the first render and are kept while a newer one loads, so copy and download
+ * always have a complete signature. `isStale` is true while they don't match the latest edits yet, including while
+ * `request` is `null` because the edits aren't valid. `error` is set when the latest render failed.
+ */
+export function useSignatureHtml(request: SignatureRequest | null) {
+  const [html, setHtml] = useState<string | null>(null)
+  const [text, setText] = useState<string | null>(null)
+  const [isStale, setIsStale] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // The request is rebuilt on every render, so compare it by value
+  const body = request ? JSON.stringify(request) : null
+
+  useEffect(() => {
+    setIsStale(true)
+    if (!body) return
+
+    const controller = new AbortController()
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch("/api/signatures", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body,
+          signal: controller.signal,
+        })
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || "Signature rendering failed")
+        }
+
+        setHtml(data.html)
+        setText(data.text)
+        setError(null)
+        setIsStale(false)
+      } catch (error) {
+        if (controller.signal.aborted) return
+        console.error("Error rendering signature:", error)
+        setError(error instanceof Error ? error.message : "Please try again later.")
+      }
+    }, RENDER_DELAY_MS)
+
+    return () => {
+      clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [body])
+
+  return { html, text, isStale, error }
+}
@@ -0,0 +1,10 @@
+/**
+ * Runs once when a Next.js server starts
+ */
+export async function register() {
+  // Validates the environment before the first request; `lib/config.ts` throws on invalid values
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { reportMissingSecrets } = await import("./lib/config")
+    reportMissingSecrets()
+  }
+}
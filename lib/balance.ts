@@ -0,0 +1,47 @@
+/**
+ * Balance payments for orders placed with a deposit selling plan.
+ *
+ * Buyers pay a deposit at checkout and the rest once their animation is approved. The balance is paid
+ * through a draft order for the outstanding amount (see `lib/shopify/balance.ts`), whose invoice URL is the
+ * buyer's checkout link. This module only holds what the browser and the server share.
+ */
+
+import { z } from "zod"
+import type { CurrencyCode } from "@/lib/shopify/storefront.generated"
+
+export const balanceLookupSchema = z.object({
+  // "#1042" or "1042"; stored without the "#"
+  orderNumber: z
+    .string()
+    .trim()
+    .regex(/^#?\d{1,10}$/, "Enter your order number, e.g. #1042")
+    .transform((orderNumber) => orderNumber.replace(/^#/, "")),
+  email: z.string().trim().email("Enter the email address you ordered with"),
+})
+
+export type BalanceLookupInput = z.infer<typeof balanceLookupSchema>
+
+export const balanceDueSchema = z.object({
+  // Added to the "balance due" email, e.g. a note about the approved animation
+  message: z.string().trim().max(1000).optional(),
+})
+
+export type BalanceDueInput = z.infer<typeof balanceDueSchema>
+
+export type BalanceStatus = "due" | "paid" | "cancelled"
+
+export interface BalanceOrder {
+  orderId: string
+  orderName: string
+  email: string
+  status: BalanceStatus
+  currencyCode: CurrencyCode
+  total: string
+  // What the buyer has paid so far, usually the deposit
+  paid: string
+  balance: string
+  items: Array<{ title: string; quantity: number; sellingPlanName: string | null }>
+  // Checkout link for the current balance, once one has been created
+  checkoutUrl: string | null
+  createdAt: string
+}
@@ -0,0 +1,94 @@
+/**
+ * Bundle pricing rules for buying an avatar and a signature package together.
+ *
+ * The percentages here are what the bundle configurator shows. The discount itself is applied by Shopify,
+ * so each rule's `discountCode` (or automatic discount) must be set up in Shopify admin with the same value.
+ */
+
+import { getPercentOff, roundMoney } from "@/lib/pricing"
+
+export interface BundleRule {
+  id: string
+  name: string
+  description: string
+  // Package tiers (`lumio.tier` metafield) the rule covers; an empty list matches every tier
+  avatarPackages: string[]
+  signaturePackages: string[]
+  // Signature user counts the rule covers (larger teams get a custom quote instead)
+  minUsers: number
+  maxUsers: number
+  percentOff: number
+  // Shopify discount code applied to the cart. Leave unset when an automatic discount in Shopify covers the bundle.
+  discountCode?: string
+}
+
+export interface BundlePrice {
+  separateTotal: number
+  discount: number
+  total: number
+}
+
+export const BUNDLE_RULES: BundleRule[] = [
+  {
+    id: "avatar-signature",
+    name: "Avatar + Signature Bundle",
+    description: "Save 10% when you pair an animated avatar with an animated signature.",
+    avatarPackages: [],
+    signaturePackages: [],
+    minUsers: 1,
+    maxUsers: 50,
+    percentOff: 10,
+    discountCode: "BUNDLE10",
+  },
+  {
+    id: "premium-bundle",
+    name: "Premium Bundle",
+    description: "Save 15% when both your avatar and signature are Premium.",
+    avatarPackages: ["Premium"],
+    signaturePackages: ["Premium"],
+    minUsers: 1,
+    maxUsers: 50,
+    percentOff: 15,
+    discountCode: "PREMIUMBUNDLE15",
+  },
+]
+
+/**
+ * Looks up a bundle rule by ID
+ */
+export function getBundleRule(id: string): BundleRule | null {
+  return BUNDLE_RULES.find((rule) => rule.id === id) ?? null
+}
+
+/**
+ * Finds the best bundle rule for a package combination, or `null` when none applies
+ */
+export function findBundleRule(
+  avatarPackage: string,
+  signaturePackage: string,
+  userCount: number,
+): BundleRule | null {
+  const matches = BUNDLE_RULES.filter(
+    (rule) =>
+      (rule.avatarPackages.length === 0 || rule.avatarPackages.includes(avatarPackage)) &&
+      (rule.signaturePackages.length === 0 || rule.signaturePackages.includes(signaturePackage)) &&
+      userCount >= rule.minUsers &&
+      userCount <= rule.maxUsers,
+  )
+
+  // When several rules match, the buyer gets the biggest discount
+  return matches.sort((a, b) => b.percentOff - a.percentOff)[0] ?? null
+}
+
+/**
+ * Prices a bundle against the sum of its separate prices
+ */
+export function calculateBundlePrice(separateTotal: number, rule: BundleRule | null): BundlePrice {
+  const discount = rule ? getPercentOff(separateTotal, rule.percentOff) : 0
+
+  return {
+    separateTotal,
+    discount,
+    total: roundMoney(separateTotal - discount),
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Calculator configurations that can be saved, put in a URL and shared.
+ *
+ * A configuration is the package tier, user count and payment option a visitor picked. It lives in the
+ * page URL (`?package=premium&users=35&payment=deposit`), in localStorage for returning visitors, and in
+ * short links like `/q/s.premium.35.gb.d`, which also carry the market so the recipient sees the same
+ * currency and total. Packages are identified by their tier (`lumio.tier`), so links keep working when
+ * product IDs change.
+ */
+
+import { z } from "zod"
+import type { PaymentOptionKind } from "@/lib/shopify/payment-options"
+import type { CountryCode } from "@/lib/shopify/storefront.generated"
+import { MARKET_COUNTRIES } from "@/lib/shopify/markets"
+
+export type CalculatorPage = "signatures" | "avatars"
+
+export interface CalculatorConfig {
+  // Package tier as a slug, e.g. "premium"
+  package: string
+  users?: number
+  payment?: PaymentOptionKind
+}
+
+export interface SharedCalculatorConfig {
+  page: CalculatorPage
+  config: CalculatorConfig
+  country?: CountryCode
+}
+
+export const CALCULATOR_PATHS: Record<CalculatorPage, string> = {
+  signatures: "/signatures",
+  avatars: "/avatars",
+}
+
+// Single letters used in short links
+const PAGE_CODES: Record<CalculatorPage, string> = { signatures: "s", avatars: "a" }
+const PAYMENT_CODES: Record<PaymentOptionKind, string> = { deposit: "d", full: "f", installments: "i" }
+
+const calculatorConfigSchema = z.object({
+  package: z.string().regex(/^[a-z0-9-]{1,40}$/),
+  users: z.coerce.number().int().min(1).max(10000).optional(),
+  payment: z.enum(["deposit", "full", "installments"]).optional(),
+})
+
+/**
+ * Slug for a package tier, as used in URLs
+ *
+ * @example
+ * toPackageSlug("Premium Plus") // "premium-plus"
+ */
+export function toPackageSlug(tier: string): string {
+  return tier
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+}
+
+/**
+ * Reads a configuration from URL search parameters, returning `null` when there is none or it is invalid
+ */
+export function parseCalculatorConfig(params: URLSearchParams): CalculatorConfig | null {
+  if (!params.has("package")) return null
+
+  const result = calculatorConfigSchema.safeParse({
+    package: params.get("package"),
+    users: params.get("users") ?? undefined,
+    payment: params.get("payment") ?? undefined,
+  })
+
+  return result.success ? result.data : null
+}
+
+/**
+ * Reads a configuration stored with `JSON.stringify`, returning `null` when it is invalid
+ */
+export function parseStoredCalculatorConfig(value: string | null): CalculatorConfig | null {
+  if (!value) return null
+
+  try {
+    const result = calculatorConfigSchema.safeParse(JSON.parse(value))
+    return result.success ? result.data : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Writes a configuration into URL search parameters, leaving unrelated parameters alone
+ */
+export function setCalculatorConfigParams(params: URLSearchParams, config: CalculatorConfig | null) {
+  params.delete("package")
+  params.delete("users")
+  params.delete("payment")
+
+  if (!config) return
+
+  params.set("package", config.package)
+  if (config.users !== undefined) params.set("users", config.users.toString())
+  if (config.payment) params.set("payment", config.payment)
+}
+
+/**
+ * Builds the code of a short link: page, package, users, country and payment, separated by dots
+ *
+ * @example
+ * encodeShareCode({ page: "signatures", config: { package: "premium", users: 35 }, country: "GB" })
+ * // "s.premium.35.gb"
+ */
+export function encodeShareCode({ page, config, country }: SharedCalculatorConfig): string {
+  return [
+    PAGE_CODES[page],
+    config.package,
+    config.users?.toString() ?? "",
+    country?.toLowerCase() ?? "",
+    config.payment ? PAYMENT_CODES[config.payment] : "",
+  ]
+    .join(".")
+    .replace(/\.+$/, "")
+}
+
+/**
+ * Reads a short link code, returning `null` when it is malformed
+ */
+export function decodeShareCode(code: string): SharedCalculatorConfig | null {
+  const [pageCode, slug, users, country, paymentCode] = code.split(".")
+
+  const page = (Object.keys(PAGE_CODES) as CalculatorPage[]).find((page) => PAGE_CODES[page] === pageCode)
+  const payment = (Object.keys(PAYMENT_CODES) as PaymentOptionKind[]).find(
+    (kind) => PAYMENT_CODES[kind] === paymentCode,
+  )
+  const countryCode = MARKET_COUNTRIES.find((market) => market.toLowerCase() === country)
+
+  if (!page || (paymentCode && !payment) || (country && !countryCode)) return null
+
+  const result = calculatorConfigSchema.safeParse({ package: slug, users: users || undefined, payment })
+  if (!result.success) return null
+
+  return { page, config: result.data, country: countryCode }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest"
+import { addWeeks, getWeekStart, isSlotAvailable } from "./capacity"
+
+const now = new Date("2026-10-21T12:00:00Z")
+const thisWeek = getWeekStart(now)
+const settings = { weeklySlots: 3, leadWeeks: 2 }
+
+describe("isSlotAvailable", () => {
+  const week = addWeeks(thisWeek, 2)
+
+  it("takes as many packages as the week has slots left", () => {
+    const booked = { [week]: 1 }
+
+    expect(isSlotAvailable(settings, booked, { week, speed: "standard" }, now)).toBe(true)
+    expect(isSlotAvailable(settings, booked, { week, speed: "standard", quantity: 2 }, now)).toBe(true)
+  })
+
+  it("turns away more packages than the week has slots left", () => {
+    expect(isSlotAvailable(settings, { [week]: 1 }, { week, speed: "standard", quantity: 3 }, now)).toBe(false)
+    expect(isSlotAvailable(settings, { [week]: 3 }, { week, speed: "standard" }, now)).toBe(false)
+  })
+
+  it("checks rush quantities against next week", () => {
+    const nextWeek = addWeeks(thisWeek, 1)
+
+    expect(isSlotAvailable(settings, { [nextWeek]: 2 }, { week: nextWeek, speed: "rush" }, now)).toBe(true)
+    expect(isSlotAvailable(settings, { [nextWeek]: 2 }, { week: nextWeek, speed: "rush", quantity: 2 }, now)).toBe(
+      false,
+    )
+  })
+
+  it("never books a week that isn't a Monday or is inside the lead time", () => {
+    expect(isSlotAvailable(settings, {}, { week: addWeeks(thisWeek, 1), speed: "standard" }, now)).toBe(false)
+    expect(isSlotAvailable(settings, {}, { week: "2026-11-04", speed: "standard" }, now)).toBe(false)
+  })
+})
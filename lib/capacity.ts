@@ -0,0 +1,167 @@
+/**
+ * Production capacity shared by the calculators, the cart and the server.
+ *
+ * The studio can produce a limited number of each package per week (`lumio.weekly_slots`). A standard
+ * order goes into the first week with a free slot at least `lumio.lead_weeks` out, and rush delivery
+ * takes a slot next week, so it is only offered while next week has one. Weeks are identified by their
+ * Monday in UTC (e.g. "2026-11-02") and a package is delivered by the Friday of its production week.
+ *
+ * The reserved week travels on the cart line as attributes, so the production team sees it on the order,
+ * and it counts against the week's capacity once the order is placed (see `lib/shopify/capacity.ts`).
+ */
+
+import type { CartAttribute } from "@/lib/shopify"
+import type { PackageSettings } from "@/lib/shopify/packages"
+
+export type DeliverySpeed = "standard" | "rush"
+
+// Cart line attributes, shown on the order in Shopify admin
+export const PRODUCTION_WEEK_ATTRIBUTE = "Production week"
+export const ESTIMATED_DELIVERY_ATTRIBUTE = "Estimated delivery"
+export const RUSH_DELIVERY_ATTRIBUTE = "Rush delivery"
+
+// How many weeks ahead standard slots are offered
+export const CAPACITY_HORIZON_WEEKS = 12
+
+export interface ProductionSlot {
+  // Monday of the production week
+  week: string
+  // Friday of the production week
+  deliveryDate: string
+  // Slots still free that week
+  remaining: number
+}
+
+export interface ProductionSchedule {
+  productId: string
+  // `null` when every week within `CAPACITY_HORIZON_WEEKS` is fully booked
+  standard: ProductionSlot | null
+  // `null` when next week is fully booked or the package has no shorter lead time to rush
+  rush: ProductionSlot | null
+}
+
+// Slots already booked per week, keyed by the week's Monday
+export type BookedWeeks = Record<string, number>
+
+type CapacitySettings = Pick<PackageSettings, "weeklySlots" | "leadWeeks">
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Monday (UTC) of the week a date falls in
+ *
+ * @example
+ * getWeekStart(new Date("2026-10-22T15:00:00Z")) // "2026-10-19"
+ */
+export function getWeekStart(date: Date): string {
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7
+  const monday = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday)
+  return toDateString(new Date(monday))
+}
+
+/**
+ * Moves a week's Monday by a number of weeks
+ */
+export function addWeeks(week: string, weeks: number): string {
+  return toDateString(new Date(Date.parse(week) + weeks * 7 * DAY_MS))
+}
+
+/**
+ * The Friday a package produced in a week is delivered by
+ */
+export function getDeliveryDate(week: string): string {
+  return toDateString(new Date(Date.parse(week) + 4 * DAY_MS))
+}
+
+/**
+ * Formats a delivery date for buyers, e.g. "Fri, 6 Nov"
+ */
+export function formatDeliveryDate(date: string, locale: string): string {
+  return new Intl.DateTimeFormat(locale, { weekday: "short", day: "numeric", month: "short", timeZone: "UTC" }).format(
+    new Date(date),
+  )
+}
+
+/**
+ * Returns the slot in a week, or `null` when the week is fully booked
+ */
+function getSlot(settings: CapacitySettings, booked: BookedWeeks, week: string): ProductionSlot | null {
+  const remaining = settings.weeklySlots - (booked[week] ?? 0)
+  return remaining > 0 ? { week, deliveryDate: getDeliveryDate(week), remaining } : null
+}
+
+/**
+ * Picks the standard and rush slots a package can be ordered with
+ *
+ * @param booked - The package's booked slots per week
+ * @param now - Orders placed during a week are scheduled from the next Monday
+ */
+export function planProduction(
+  productId: string,
+  settings: CapacitySettings,
+  booked: BookedWeeks,
+  now: Date = new Date(),
+): ProductionSchedule {
+  const thisWeek = getWeekStart(now)
+
+  let standard: ProductionSlot | null = null
+  for (let offset = settings.leadWeeks; !standard && offset <= CAPACITY_HORIZON_WEEKS; offset++) {
+    standard = getSlot(settings, booked, addWeeks(thisWeek, offset))
+  }
+
+  // With a one-week lead time, next week is already the standard slot
+  const rush = settings.leadWeeks > 1 ? getSlot(settings, booked, addWeeks(thisWeek, 1)) : null
+
+  return { productId, standard, rush }
+}
+
+/**
+ * Checks whether a week can still take `quantity` packages with a delivery speed
+ *
+ * A standard order may keep a later week than the earliest free one, e.g. one picked before a cancellation.
+ * Weeks that aren't a Monday are never available.
+ */
+export function isSlotAvailable(
+  settings: CapacitySettings,
+  booked: BookedWeeks,
+  { week, speed, quantity = 1 }: { week: string; speed: DeliverySpeed; quantity?: number },
+  now: Date = new Date(),
+): boolean {
+  if (Number.isNaN(Date.parse(week)) || getWeekStart(new Date(week)) !== week) return false
+
+  const weeksAhead = (Date.parse(week) - Date.parse(getWeekStart(now))) / (7 * DAY_MS)
+  const allowed =
+    speed === "rush"
+      ? weeksAhead === 1 && settings.leadWeeks > 1
+      : weeksAhead >= settings.leadWeeks && weeksAhead <= CAPACITY_HORIZON_WEEKS
+
+  return allowed && (getSlot(settings, booked, week)?.remaining ?? 0) >= quantity
+}
+
+/**
+ * Cart line attributes reserving a slot
+ */
+export function getSlotAttributes(slot: ProductionSlot, speed: DeliverySpeed): CartAttribute[] {
+  return [
+    { key: PRODUCTION_WEEK_ATTRIBUTE, value: slot.week },
+    { key: ESTIMATED_DELIVERY_ATTRIBUTE, value: slot.deliveryDate },
+    ...(speed === "rush" ? [{ key: RUSH_DELIVERY_ATTRIBUTE, value: "Yes" }] : []),
+  ]
+}
+
+/**
+ * Reads the slot reserved by a cart line's attributes, or `null` when it doesn't reserve one
+ */
+export function readSlotAttributes(
+  attributes: Array<{ key: string; value?: string | null }>,
+): { week: string; speed: DeliverySpeed } | null {
+  const week = attributes.find((attribute) => attribute.key === PRODUCTION_WEEK_ATTRIBUTE)?.value
+  if (!week || !/^\d{4}-\d{2}-\d{2}$/.test(week)) return null
+
+  const rush = attributes.some((attribute) => attribute.key === RUSH_DELIVERY_ATTRIBUTE && attribute.value === "Yes")
+  return { week, speed: rush ? "rush" : "standard" }
+}
@@ -0,0 +1,75 @@
+/**
+ * Copying formatted content to the clipboard.
+ *
+ * Rich text editors, like Gmail's and Outlook's signature editors, paste the `text/html` flavor of the clipboard
+ * as formatted content, while `writeText` only puts the markup on it as text. Browsers without `ClipboardItem`
+ * can still copy formatted content by selecting it on the page and running the copy command.
+ */
+
+// How the content ended up on the clipboard
+export type CopyMethod = "rich" | "selection" | "plain"
+
+async function copyWithClipboardItem(html: string, text: string) {
+  await navigator.clipboard.write([
+    new ClipboardItem({
+      "text/html": new Blob([html], { type: "text/html" }),
+      "text/plain": new Blob([text], { type: "text/plain" }),
+    }),
+  ])
+}
+
+/**
+ * Renders the HTML off-screen, selects it and copies the selection
+ */
+function copyWithSelection(html: string): boolean {
+  const container = document.createElement("div")
+  container.innerHTML = html
+  // Off-screen but rendered, since hidden elements can't be selected
+  container.style.position = "fixed"
+  container.style.left = "-10000px"
+  container.style.top = "0"
+  document.body.appendChild(container)
+
+  const selection = window.getSelection()
+  const previousRanges = selection
+    ? Array.from({ length: selection.rangeCount }, (_, index) => selection.getRangeAt(index))
+    : []
+
+  try {
+    const range = document.createRange()
+    range.selectNodeContents(container)
+    selection?.removeAllRanges()
+    selection?.addRange(range)
+    return document.execCommand("copy")
+  } catch {
+    return false
+  } finally {
+    selection?.removeAllRanges()
+    previousRanges.forEach((range) => selection?.addRange(range))
+    document.body.removeChild(container)
+  }
+}
+
+/**
+ * Copies HTML as formatted content, with a plain-text version for editors that don't take HTML
+ *
+ * Falls back to copying a selection of the rendered HTML, and then to plain text.
+ *
+ * @throws {Error} When nothing could be copied
+ */
+export async function copyRichText(html: string, text: string): Promise<CopyMethod> {
+  if (typeof ClipboardItem !== "undefined" && typeof navigator.clipboard?.write === "function") {
+    try {
+      await copyWithClipboardItem(html, text)
+      return "rich"
+    } catch (error) {
+      // E.g. the browser refuses `text/html`, or the page isn't focused
+      console.error("Rich text copy failed, copying a selection instead:", error)
+    }
+  }
+
+  if (copyWithSelection(html)) return "selection"
+
+  await navigator.clipboard.writeText(text)
+  return "plain"
+}
@@ -0,0 +1,223 @@
+/**
+ * Deployment configuration, read from environment variables and validated with zod.
+ *
+ * Everything that differs between production, staging and preview deployments lives here: the Shopify
+ * store and API version, access tokens and credentials, the addresses emails are sent from and to, and the
+ * analytics IDs.
+ * Defaults are production's, so production only has to set its secrets. A staging deployment points at
+ * another store with `SHOPIFY_STORE_DOMAIN` and its own tokens; setting an analytics ID to an empty
+ * string leaves that tag out, e.g. on previews.
+ *
+ * The module is validated when it is first imported, which `instrumentation.ts` does as the server
+ * starts, so a malformed value stops the deployment instead of failing the first request that reads it.
+ * It holds secrets, so only import it from server code.
+ */
+
+import { z } from "zod"
+
+// Unset and empty variables both mean "not configured"
+function emptyToUndefined(value: unknown) {
+  return value === "" ? undefined : value
+}
+
+const secretSchema = z.preprocess(emptyToUndefined, z.string().trim().min(1).optional())
+
+// A service account's JSON key file, as downloaded from the Google Cloud console
+const serviceAccountKeySchema = z
+  .string()
+  .transform((value, context) => {
+    try {
+      return JSON.parse(value) as unknown
+    } catch {
+      context.addIssue({ code: z.ZodIssueCode.custom, message: "Expected the service account's JSON key" })
+      return z.NEVER
+    }
+  })
+  .pipe(
+    z.object({
+      client_email: z.string().email(),
+      private_key: z.string().includes("PRIVATE KEY", { message: "Expected a PEM private key" }),
+      token_uri: z.string().url().default("https://oauth2.googleapis.com/token"),
+    }),
+  )
+
+/**
+ * Schema for an analytics ID: unset uses the production ID, an empty string turns the tag off
+ */
+function analyticsIdSchema(pattern: RegExp, productionId: string) {
+  return z
+    .union([z.literal(""), z.string().trim().regex(pattern, `Expected an ID like ${productionId}`)])
+    .default(productionId)
+    .transform((id) => id || null)
+}
+
+const envSchema = z.object({
+  // Public URL of the site, used for absolute links in metadata and emails
+  SITE_URL: z
+    .string()
+    .url()
+    .default("https://golumio.co")
+    .transform((url) => url.replace(/\/+$/, "")),
+
+  SHOPIFY_STORE_DOMAIN: z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9][a-z0-9-]*\.myshopify\.com$/, "Expected the store's *.myshopify.com domain")
+    .default("golumio.myshopify.com"),
+  // Storefront and Admin API version. The generated Storefront types come from the schema `pnpm codegen`
+  // reads, so bump that package together with this.
+  SHOPIFY_API_VERSION: z
+    .string()
+    .regex(/^\d{4}-(01|04|07|10)$/, "Expected a Shopify API version like 2025-01")
+    .default("2025-01"),
+  SHOPIFY_STOREFRONT_ACCESS_TOKEN: secretSchema,
+  SHOPIFY_ADMIN_ACCESS_TOKEN: secretSchema,
+  SHOPIFY_WEBHOOK_SECRET: secretSchema,
+  SHOPIFY_STOREFRONT_MOCK: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+  SHOPIFY_STOREFRONT_MOCK_FAULT: z.preprocess(emptyToUndefined, z.enum(["throttled", "outage"]).optional()),
+
+  STAFF_API_TOKEN: secretSchema,
+
+  RESEND_API_KEY: secretSchema,
+  // Sender of every email, and the inbox contact forms, quote requests and buyer replies go to
+  EMAIL_FROM: z.string().trim().email().default("hello@golumio.co"),
+  EMAIL_TO: z.string().trim().email().default("chris@golumio.co"),
+
+  // Pushes signatures to Gmail tenants' mailboxes; the tenant's Workspace admin grants it domain-wide delegation
+  GOOGLE_SERVICE_ACCOUNT_KEY: z.preprocess(emptyToUndefined, serviceAccountKeySchema.optional()),
+  GOOGLE_WORKSPACE_MOCK: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+
+  GA_MEASUREMENT_ID: analyticsIdSchema(/^G-[A-Z0-9]+$/, "G-SF5P78WTLT"),
+  GTM_CONTAINER_ID: analyticsIdSchema(/^GTM-[A-Z0-9]+$/, "GTM-MQ95GQB8"),
+  HOTJAR_SITE_ID: analyticsIdSchema(/^\d+$/, "6376878"),
+  META_PIXEL_ID: analyticsIdSchema(/^\d+$/, "1421954795648761"),
+  LINKEDIN_PARTNER_ID: analyticsIdSchema(/^\d+$/, "7212564"),
+})
+
+export interface Config {
+  siteUrl: string
+  shopify: {
+    storeDomain: string
+    apiVersion: string
+    storefrontAccessToken?: string
+    adminAccessToken?: string
+    webhookSecret?: string
+    // Answer Storefront and Admin API requests from the offline stand-in in `lib/shopify/mock/`
+    mock: boolean
+    mockFault?: "throttled" | "outage"
+  }
+  staffApiToken?: string
+  email: {
+    resendApiKey?: string
+    from: string
+    to: string
+  }
+  googleWorkspace: {
+    serviceAccount?: {
+      clientEmail: string
+      privateKey: string
+      tokenUri: string
+    }
+    // Answer Gmail API requests from the offline stand-in in `lib/google-workspace/mock.ts`
+    mock: boolean
+  }
+  // `null` leaves the tag out of the page
+  analytics: {
+    googleAnalyticsId: string | null
+    googleTagManagerId: string | null
+    hotjarSiteId: string | null
+    metaPixelId: string | null
+    linkedInPartnerId: string | null
+  }
+}
+
+/**
+ * Reads and validates the configuration
+ *
+ * @throws {Error} Listing every invalid variable, so a broken deployment can be fixed in one go
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): Config {
+  const result = envSchema.safeParse(env)
+
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `- ${issue.path.join(".")}: ${issue.message}`).join("\n")
+    throw new Error(`Invalid environment configuration:\n${issues}`)
+  }
+
+  const values = result.data
+  const serviceAccount = values.GOOGLE_SERVICE_ACCOUNT_KEY
+
+  return {
+    siteUrl: values.SITE_URL,
+    shopify: {
+      storeDomain: values.SHOPIFY_STORE_DOMAIN,
+      apiVersion: values.SHOPIFY_API_VERSION,
+      storefrontAccessToken: values.SHOPIFY_STOREFRONT_ACCESS_TOKEN,
+      adminAccessToken: values.SHOPIFY_ADMIN_ACCESS_TOKEN,
+      webhookSecret: values.SHOPIFY_WEBHOOK_SECRET,
+      mock: values.SHOPIFY_STOREFRONT_MOCK,
+      mockFault: values.SHOPIFY_STOREFRONT_MOCK_FAULT,
+    },
+    staffApiToken: values.STAFF_API_TOKEN,
+    email: {
+      resendApiKey: values.RESEND_API_KEY,
+      from: values.EMAIL_FROM,
+      to: values.EMAIL_TO,
+    },
+    googleWorkspace: {
+      serviceAccount: serviceAccount && {
+        clientEmail: serviceAccount.client_email,
+        privateKey: serviceAccount.private_key,
+        tokenUri: serviceAccount.token_uri,
+      },
+      mock: values.GOOGLE_WORKSPACE_MOCK,
+    },
+    analytics: {
+      googleAnalyticsId: values.GA_MEASUREMENT_ID,
+      googleTagManagerId: values.GTM_CONTAINER_ID,
+      hotjarSiteId: values.HOTJAR_SITE_ID,
+      metaPixelId: values.META_PIXEL_ID,
+      linkedInPartnerId: values.LINKEDIN_PARTNER_ID,
+    },
+  }
+}
+
+export const config = loadConfig()
+
+/**
+ * Logs the features a deployment has turned off by leaving out their secrets
+ *
+ * Secrets are optional so previews and local development work without them, but each one missing means a
+ * feature fails when it's used. Called once at startup from `instrumentation.ts`.
+ */
+export function reportMissingSecrets() {
+  const { shopify, email, staffApiToken, googleWorkspace } = config
+
+  if (shopify.mock) {
+    console.warn("SHOPIFY_STOREFRONT_MOCK is on: Shopify requests are answered by the offline stand-in")
+  }
+  if (googleWorkspace.mock) {
+    console.warn("GOOGLE_WORKSPACE_MOCK is on: Gmail API requests are answered by the offline stand-in")
+  }
+
+  const missing = [
+    !shopify.mock && !shopify.storefrontAccessToken && "SHOPIFY_STOREFRONT_ACCESS_TOKEN (catalog, cart and checkout)",
+    !shopify.mock && !shopify.adminAccessToken && "SHOPIFY_ADMIN_ACCESS_TOKEN (quotes, balance payments and capacity)",
+    !shopify.mock && !shopify.webhookSecret && "SHOPIFY_WEBHOOK_SECRET (cache invalidation and balance settlement)",
+    !staffApiToken && "STAFF_API_TOKEN (staff pages)",
+    !email.resendApiKey && "RESEND_API_KEY (emails)",
+    !googleWorkspace.mock &&
+      !googleWorkspace.serviceAccount &&
+      "GOOGLE_SERVICE_ACCOUNT_KEY (pushing signatures to Google Workspace)",
+  ].filter(Boolean)
+
+  if (missing.length > 0) {
+    console.warn(`Missing configuration, these features won't work:\n- ${missing.join("\n- ")}`)
+  }
+}
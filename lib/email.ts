@@ -0,0 +1,15 @@
+/**
+ * Helpers for the HTML emails sent through Resend
+ */
+
+/**
+ * Escapes text for an HTML email body
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
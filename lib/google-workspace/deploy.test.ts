@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+// `config` is read when the module loads, so the mock has to be switched on before anything imports it
+vi.hoisted(() => {
+  process.env.GOOGLE_WORKSPACE_MOCK = "true"
+})
+
+import { deploySignatures } from "./deploy"
+import { getMockSendAsSettings } from "./mock"
+import { getTenant } from "@/data/tenants"
+import type { Tenant } from "@/data/tenants"
+import { GMAIL_SIGNATURE_MAX_LENGTH, prettifySignatureHtml } from "@/lib/signatures/format"
+
+const tenant = getTenant("movement") as Tenant
+
+// Jordan's mailbox answers like one without Gmail enabled
+const DISABLED_EMPLOYEE = "jordan-patel"
+
+/**
+ * Signature HTML the way Gmail hands it back: same markup, different serialization
+ */
+function reserialize(html: string): string {
+  return prettifySignatureHtml(html)
+    .replace(/style="([^"]*)"/g, (_match, style: string) => `style='${style.replace(/([:;])/g, "$1 ")};'`)
+    .replace(/<(img|br)([^>]*)>/g, "<$1$2 />")
+    .replace(/&nbsp;/g, "&#160;")
+}
+
+function getSignature(email: string): string | undefined {
+  return getMockSendAsSettings().find((sendAs) => sendAs.sendAsEmail === email)?.signature
+}
+
+beforeEach(() => {
+  // Mailboxes are kept for the life of the process; start every test from empty signatures
+  for (const sendAs of getMockSendAsSettings()) sendAs.signature = ""
+
+  vi.spyOn(console, "log").mockImplementation(() => {})
+  vi.spyOn(console, "error").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("deploySignatures", () => {
+  it("reports every mailbox that would change on a dry run, without changing any", async () => {
+    const deployment = await deploySignatures(tenant, { dryRun: true })
+
+    expect(deployment).toMatchObject({ tenantId: "movement", dryRun: true })
+    expect(deployment.results).toHaveLength(tenant.employees.length)
+    for (const result of deployment.results) {
+      if (result.employeeId === DISABLED_EMPLOYEE) continue
+      expect(result).toMatchObject({ status: "would-update", error: null, characters: expect.any(Number) })
+    }
+    expect(getMockSendAsSettings().every((sendAs) => sendAs.signature === "")).toBe(true)
+  })
+
+  it("pushes each signature to its mailbox", async () => {
+    const deployment = await deploySignatures(tenant, { dryRun: false })
+
+    for (const result of deployment.results) {
+      if (result.employeeId === DISABLED_EMPLOYEE) continue
+      expect(result).toMatchObject({ status: "updated", error: null })
+      expect(getSignature(result.email)).toHaveLength(result.characters ?? 0)
+      expect(getSignature(result.email)).toContain(result.name)
+    }
+  })
+
+  it("keeps going past a mailbox without Gmail and reports it as failed, in both modes", async () => {
+    for (const dryRun of [true, false]) {
+      const { results } = await deploySignatures(tenant, { dryRun })
+
+      expect(results.find((result) => result.employeeId === DISABLED_EMPLOYEE)).toMatchObject({
+        email: "jordan@movement.io",
+        status: "failed",
+        error: "Mail service not enabled",
+      })
+      expect(results.filter((result) => result.status === "failed")).toHaveLength(1)
+    }
+    expect(getSignature("jordan@movement.io")).toBe("")
+  })
+
+  it("leaves signatures that are already pushed unchanged", async () => {
+    await deploySignatures(tenant, { dryRun: false })
+
+    for (const dryRun of [true, false]) {
+      const { results } = await deploySignatures(tenant, { dryRun })
+      const statuses = results.filter((result) => result.employeeId !== DISABLED_EMPLOYEE).map(({ status }) => status)
+
+      expect(new Set(statuses)).toEqual(new Set(["unchanged"]))
+    }
+  })
+
+  it("leaves signatures unchanged that Gmail stored in its own serialization", async () => {
+    await deploySignatures(tenant, { dryRun: false })
+    for (const sendAs of getMockSendAsSettings()) sendAs.signature = reserialize(sendAs.signature ?? "")
+
+    for (const dryRun of [true, false]) {
+      const { results } = await deploySignatures(tenant, { dryRun })
+      const statuses = results.filter((result) => result.employeeId !== DISABLED_EMPLOYEE).map(({ status }) => status)
+
+      expect(new Set(statuses)).toEqual(new Set(["unchanged"]))
+    }
+  })
+
+  it("only pushes the chosen employees", async () => {
+    const [employee] = tenant.employees
+
+    const { results } = await deploySignatures(tenant, { dryRun: false, employeeIds: [employee.id] })
+
+    expect(results.map((result) => result.employeeId)).toEqual([employee.id])
+    expect(getMockSendAsSettings().filter((sendAs) => sendAs.signature !== "")).toHaveLength(1)
+  })
+
+  it("fails addresses outside the tenant's domain without calling Gmail", async () => {
+    const [employee] = tenant.employees
+    const outsider = { ...employee, id: "outsider", email: "someone@example.com" }
+
+    const { results } = await deploySignatures({ ...tenant, employees: [outsider] }, { dryRun: false })
+
+    expect(results).toEqual([
+      expect.objectContaining({ employeeId: "outsider", status: "failed", error: "Not an address on movement.io" }),
+    ])
+  })
+
+  it("fails signatures over Gmail's length limit before pushing them", async () => {
+    const [employee] = tenant.employees
+    const wordy = { ...employee, title: "x".repeat(GMAIL_SIGNATURE_MAX_LENGTH) }
+
+    const { results } = await deploySignatures({ ...tenant, employees: [wordy] }, { dryRun: false })
+
+    expect(results[0]).toMatchObject({ status: "failed", error: expect.stringContaining("over Gmail's limit") })
+    expect(getSignature(employee.email)).toBe("")
+  })
+})
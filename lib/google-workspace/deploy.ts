@@ -0,0 +1,87 @@
+/**
+ * Pushes a tenant's signatures to its employees' Gmail mailboxes (see `lib/signatures/deployment.ts`).
+ */
+
+import { getSendAs, GmailApiError, updateSendAsSignature } from "./gmail"
+import type { Tenant } from "@/data/tenants"
+import { config } from "@/lib/config"
+import type {
+  SignatureDeployment,
+  SignatureDeploymentRequest,
+  SignatureDeploymentResult,
+} from "@/lib/signatures/deployment"
+import { GMAIL_SIGNATURE_MAX_LENGTH, normalizeSignatureHtml } from "@/lib/signatures/format"
+import { renderSignature } from "@/lib/signatures/render"
+import type { Employee } from "@/lib/signatures/template"
+
+/**
+ * Renders an employee's signature and pushes it to their mailbox, or checks whether it would change
+ */
+async function deployEmployeeSignature(
+  tenant: Tenant,
+  employee: Employee,
+  dryRun: boolean,
+): Promise<SignatureDeploymentResult> {
+  const result = { employeeId: employee.id, name: employee.name, email: employee.email }
+
+  // Gmail can't store relative links, so assets load from the site
+  const html = renderSignature(tenant.signatureTemplate, employee, { assetBaseUrl: config.siteUrl })
+  const characters = html.length
+
+  if (!employee.email.toLowerCase().endsWith(`@${tenant.googleWorkspaceDomain}`)) {
+    const error = `Not an address on ${tenant.googleWorkspaceDomain}`
+    return { ...result, status: "failed", error, characters }
+  }
+
+  if (characters > GMAIL_SIGNATURE_MAX_LENGTH) {
+    const error = `Signature is ${characters} characters, over Gmail's limit of ${GMAIL_SIGNATURE_MAX_LENGTH}`
+    return { ...result, status: "failed", error, characters }
+  }
+
+  try {
+    const sendAs = await getSendAs(employee.email)
+
+    // Gmail re-serializes the HTML it stores, so the two are compared in a normalized form
+    if (normalizeSignatureHtml(sendAs.signature ?? "") === normalizeSignatureHtml(html)) {
+      return { ...result, status: "unchanged", error: null, characters }
+    }
+    if (dryRun) {
+      return { ...result, status: "would-update", error: null, characters }
+    }
+
+    await updateSendAsSignature(employee.email, sendAs, html)
+    return { ...result, status: "updated", error: null, characters }
+  } catch (error) {
+    console.error(`Error pushing the signature of ${employee.email}:`, error)
+    const message = error instanceof GmailApiError ? error.message : "Unexpected error"
+    return { ...result, status: "failed", error: message, characters }
+  }
+}
+
+/**
+ * Pushes the signatures of a tenant on Google Workspace to its employees' mailboxes
+ *
+ * Mailboxes are updated one at a time and a failure doesn't stop the others; each employee's outcome is in
+ * the results. A dry run only reads the mailboxes.
+ */
+export async function deploySignatures(
+  tenant: Tenant,
+  { dryRun, employeeIds }: Omit<SignatureDeploymentRequest, "tenantId">,
+): Promise<SignatureDeployment> {
+  const employees = employeeIds
+    ? tenant.employees.filter((employee) => employeeIds.includes(employee.id))
+    : tenant.employees
+
+  const results: SignatureDeploymentResult[] = []
+  for (const employee of employees) {
+    results.push(await deployEmployeeSignature(tenant, employee, dryRun))
+  }
+
+  const failed = results.filter((result) => result.status === "failed").length
+  console.log(
+    `Signature ${dryRun ? "dry run" : "deployment"} for ${tenant.id}: ` +
+      `${results.length - failed} of ${results.length} mailboxes succeeded`,
+  )
+
+  return { tenantId: tenant.id, dryRun, results }
+}
@@ -0,0 +1,194 @@
+/**
+ * Server-side client for the Gmail settings API.
+ *
+ * Calls the API as each mailbox's user through a service account with domain-wide delegation: the tenant's
+ * Workspace admin allows the service account's client ID the `gmail.settings.basic` scope in the Admin
+ * console, and the account then signs a token request per user. Reads the account's private key, so only
+ * import this from route handlers.
+ *
+ * With `GOOGLE_WORKSPACE_MOCK=true`, requests are answered by the offline stand-in in `mock.ts`.
+ */
+
+import { createSign } from "crypto"
+import { executeMockGmailRequest, isMockGoogleWorkspace } from "./mock"
+import { config } from "@/lib/config"
+
+export const GMAIL_API_ENDPOINT = "https://gmail.googleapis.com/gmail/v1"
+
+const GMAIL_SETTINGS_SCOPE = "https://www.googleapis.com/auth/gmail.settings.basic"
+
+// Google issues tokens for an hour at most
+const TOKEN_LIFETIME_SECONDS = 3600
+
+// A request to Google slower than this fails, so one stalled call can't hold up a whole deployment
+const REQUEST_TIMEOUT_MS = 10 * 1000
+
+/**
+ * A send-as alias of a mailbox; the primary address is one too
+ *
+ * Only the fields used here are typed, the rest are sent back to Gmail as they were.
+ */
+export interface GmailSendAs {
+  sendAsEmail: string
+  displayName?: string
+  signature?: string
+  isPrimary?: boolean
+  [field: string]: unknown
+}
+
+/**
+ * Error raised when getting a token or calling the Gmail API fails
+ */
+export class GmailApiError extends Error {
+  status: number
+  details?: unknown
+
+  constructor(message: string, status: number, details?: unknown) {
+    super(message)
+    this.name = "GmailApiError"
+    this.status = status
+    this.details = details
+  }
+}
+
+// Access tokens per user, kept until shortly before they expire
+const accessTokens = new Map<string, { token: string; expiresAt: number }>()
+
+/**
+ * `fetch` with the request timeout, reporting a timed-out request as a 504 `GmailApiError`
+ */
+async function fetchGoogle(url: string, init: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) })
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "TimeoutError") {
+      console.error(`Request to ${url} timed out after ${REQUEST_TIMEOUT_MS / 1000}s`)
+      throw new GmailApiError("Google didn't answer in time", 504)
+    }
+    throw error
+  }
+}
+
+function toBase64Url(value: string | Buffer): string {
+  return (typeof value === "string" ? Buffer.from(value) : value).toString("base64url")
+}
+
+/**
+ * Gets an access token to call the Gmail API as `userEmail`
+ */
+async function getAccessToken(userEmail: string): Promise<string> {
+  const cached = accessTokens.get(userEmail)
+  if (cached && cached.expiresAt > Date.now()) return cached.token
+
+  const serviceAccount = config.googleWorkspace.serviceAccount
+
+  if (!serviceAccount) {
+    console.error("Google service account key is missing. Check your environment variables.")
+    throw new GmailApiError("Google service account key is missing", 500)
+  }
+
+  const issuedAt = Math.floor(Date.now() / 1000)
+  const header = toBase64Url(JSON.stringify({ alg: "RS256", typ: "JWT" }))
+  const claims = toBase64Url(
+    JSON.stringify({
+      iss: serviceAccount.clientEmail,
+      // Domain-wide delegation: the token acts as this user
+      sub: userEmail,
+      scope: GMAIL_SETTINGS_SCOPE,
+      aud: serviceAccount.tokenUri,
+      iat: issuedAt,
+      exp: issuedAt + TOKEN_LIFETIME_SECONDS,
+    }),
+  )
+  const signature = createSign("RSA-SHA256").update(`${header}.${claims}`).sign(serviceAccount.privateKey)
+
+  const response = await fetchGoogle(serviceAccount.tokenUri, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+      assertion: `${header}.${claims}.${toBase64Url(signature)}`,
+    }),
+    cache: "no-store",
+  })
+
+  const body = await response.json().catch(() => null)
+
+  if (!response.ok || typeof body?.access_token !== "string") {
+    console.error("Error response from Google's token endpoint:", body)
+    // E.g. `unauthorized_client` when the Workspace admin hasn't granted the scope to the service account
+    const reason = body?.error_description ?? body?.error ?? `${response.status} ${response.statusText}`
+    throw new GmailApiError(`Couldn't authorize as ${userEmail}: ${reason}`, response.ok ? 500 : response.status, body)
+  }
+
+  const expiresIn = typeof body.expires_in === "number" ? body.expires_in : TOKEN_LIFETIME_SECONDS
+  accessTokens.set(userEmail, { token: body.access_token, expiresAt: Date.now() + (expiresIn - 60) * 1000 })
+  return body.access_token
+}
+
+/**
+ * Turns a Gmail API response into its body, throwing with Google's error message when it failed
+ */
+function unwrapResponse<TData>(status: number, body: unknown): TData {
+  if (status >= 200 && status < 300) return body as TData
+
+  const error = (body as { error?: { message?: string } } | null)?.error
+  throw new GmailApiError(error?.message ?? `Gmail API error: ${status}`, status, error)
+}
+
+/**
+ * Calls the Gmail API on `userEmail`'s mailbox, as that user
+ */
+async function gmailRequest<TData>(
+  userEmail: string,
+  method: "GET" | "PUT",
+  path: string,
+  body?: unknown,
+): Promise<TData> {
+  if (isMockGoogleWorkspace()) {
+    const response = executeMockGmailRequest(userEmail, method, path, body)
+    return unwrapResponse<TData>(response.status, response.body)
+  }
+
+  const accessToken = await getAccessToken(userEmail)
+
+  const response = await fetchGoogle(`${GMAIL_API_ENDPOINT}/users/me${path}`, {
+    method,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${accessToken}` },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    cache: "no-store",
+  })
+
+  let responseBody: unknown
+  try {
+    responseBody = await response.json()
+  } catch (error) {
+    console.error("Error parsing Gmail API response as JSON:", error)
+    throw new GmailApiError(`Gmail API error: ${response.status} ${response.statusText}`, response.status)
+  }
+
+  if (!response.ok) {
+    console.error(`Error response from Gmail API for ${userEmail}:`, responseBody)
+  }
+
+  return unwrapResponse<TData>(response.status, responseBody)
+}
+
+/**
+ * Gets a mailbox's send-as alias for its own address, which holds the signature Gmail uses
+ */
+export function getSendAs(userEmail: string): Promise<GmailSendAs> {
+  return gmailRequest<GmailSendAs>(userEmail, "GET", `/settings/sendAs/${encodeURIComponent(userEmail)}`)
+}
+
+/**
+ * Replaces the signature of a mailbox's send-as alias for its own address (`users.settings.sendAs.update`)
+ *
+ * Update replaces the whole alias, so `sendAs` should be what `getSendAs` returned.
+ */
+export function updateSendAsSignature(userEmail: string, sendAs: GmailSendAs, signature: string): Promise<GmailSendAs> {
+  return gmailRequest<GmailSendAs>(userEmail, "PUT", `/settings/sendAs/${encodeURIComponent(userEmail)}`, {
+    ...sendAs,
+    signature,
+  })
+}
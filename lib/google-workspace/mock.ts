@@ -0,0 +1,122 @@
+/**
+ * Offline stand-in for the Gmail settings API, used for local development and testing.
+ *
+ * Turned on with `GOOGLE_WORKSPACE_MOCK=true`. `gmail.ts` then answers requests here instead of getting a
+ * token and calling Google: every employee of a tenant with a `googleWorkspaceDomain` has a mailbox, kept in
+ * memory for the life of the server process. `/api/google-workspace/mock` lists them with their signatures.
+ *
+ * Like Gmail, the stand-in rejects signatures over 10,000 characters. Jordan's mailbox answers the way one
+ * without Gmail enabled does, so a failed push can be tried out.
+ */
+
+import type { GmailSendAs } from "./gmail"
+import { tenants } from "@/data/tenants"
+import { config } from "@/lib/config"
+import { GMAIL_SIGNATURE_MAX_LENGTH } from "@/lib/signatures/format"
+
+export interface MockGmailResponse {
+  status: number
+  body: unknown
+}
+
+// Mailboxes whose user has Gmail turned off in the Admin console
+const MOCK_DISABLED_MAILBOXES = ["jordan@movement.io"]
+
+// Kept on globalThis so signatures survive hot reloads in development
+const globalForMock = globalThis as typeof globalThis & { lumioMockSendAs?: Map<string, GmailSendAs> }
+const sendAsSettings = (globalForMock.lumioMockSendAs ??= createMailboxes())
+
+function createMailboxes(): Map<string, GmailSendAs> {
+  const mailboxes = new Map<string, GmailSendAs>()
+
+  for (const tenant of tenants) {
+    if (!tenant.googleWorkspaceDomain) continue
+
+    for (const employee of tenant.employees) {
+      const email = employee.email.toLowerCase()
+      if (!email.endsWith(`@${tenant.googleWorkspaceDomain}`)) continue
+
+      mailboxes.set(email, {
+        sendAsEmail: email,
+        displayName: employee.name,
+        replyToAddress: "",
+        signature: "",
+        isPrimary: true,
+        isDefault: true,
+        treatAsAlias: false,
+        verificationStatus: "accepted",
+      })
+    }
+  }
+
+  return mailboxes
+}
+
+/**
+ * Checks whether the mock Gmail API is switched on
+ */
+export function isMockGoogleWorkspace(): boolean {
+  return config.googleWorkspace.mock
+}
+
+// Gmail's error body, e.g. `{ error: { code: 404, message: "Not Found", status: "NOT_FOUND" } }`
+function errorResponse(code: number, status: string, message: string): MockGmailResponse {
+  return { status: code, body: { error: { code, message, status, errors: [{ message, reason: status }] } } }
+}
+
+/**
+ * Answers a Gmail API request made as `userEmail`, with `path` relative to `/users/me`
+ */
+export function executeMockGmailRequest(
+  userEmail: string,
+  method: "GET" | "PUT",
+  path: string,
+  body?: unknown,
+): MockGmailResponse {
+  const mailbox = userEmail.toLowerCase()
+
+  if (!sendAsSettings.has(mailbox)) {
+    // What Google's token endpoint answers for a user outside the domain
+    return errorResponse(400, "INVALID_ARGUMENT", `Invalid email or User ID: ${userEmail}`)
+  }
+
+  if (MOCK_DISABLED_MAILBOXES.includes(mailbox)) {
+    return errorResponse(400, "FAILED_PRECONDITION", "Mail service not enabled")
+  }
+
+  const alias = path.match(/^\/settings\/sendAs\/([^/]+)$/)?.[1]
+  if (!alias) {
+    return errorResponse(404, "NOT_FOUND", `The mock Gmail API doesn't handle ${method} ${path}`)
+  }
+
+  // Only the mailbox's own address is set up, not other aliases
+  const sendAs = decodeURIComponent(alias).toLowerCase() === mailbox ? sendAsSettings.get(mailbox) : undefined
+  if (!sendAs) {
+    return errorResponse(404, "NOT_FOUND", "Requested entity was not found.")
+  }
+
+  if (method === "GET") {
+    return { status: 200, body: sendAs }
+  }
+
+  const signature = (body as Partial<GmailSendAs> | undefined)?.signature ?? ""
+  if (typeof signature !== "string" || signature.length > GMAIL_SIGNATURE_MAX_LENGTH) {
+    return errorResponse(400, "INVALID_ARGUMENT", "Signature is too long.")
+  }
+
+  // Fields Gmail manages itself can't be changed through an update
+  const updated: GmailSendAs = { ...sendAs, ...(body as object), sendAsEmail: sendAs.sendAsEmail, signature }
+  updated.isPrimary = sendAs.isPrimary
+  updated.verificationStatus = sendAs.verificationStatus
+  sendAsSettings.set(mailbox, updated)
+  console.log(`Mock Gmail API: signature of ${mailbox} updated (${signature.length} characters)`)
+
+  return { status: 200, body: updated }
+}
+
+/**
+ * The stand-in's mailboxes with their current send-as settings
+ */
+export function getMockSendAsSettings(): GmailSendAs[] {
+  return Array.from(sendAsSettings.values())
+}
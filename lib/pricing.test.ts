@@ -0,0 +1,237 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import {
+  findVariantForUserCount,
+  getUserPrice,
+  getVolumeDiscountTier,
+  quoteSignature,
+  requiresCustomQuote,
+  SIGNATURE_USER_PRICE,
+} from "./pricing"
+import type { VolumeDiscountTier } from "./pricing"
+import type { ShopifyProduct, ShopifyVariant } from "@/lib/shopify"
+import { DEFAULT_MAX_USERS } from "@/lib/shopify/packages"
+import type { PackageSettings } from "@/lib/shopify/packages"
+
+const VOLUME_DISCOUNTS: VolumeDiscountTier[] = [
+  { minUsers: 25, percentOff: 10 },
+  { minUsers: 10, percentOff: 5 },
+]
+
+function variant(userCount: number | null, price: number, title = `${userCount} users`): ShopifyVariant {
+  return {
+    id: `gid://shopify/ProductVariant/${title.replace(/\W/g, "-")}`,
+    title,
+    price: price.toFixed(2),
+    currencyCode: "USD",
+    available: true,
+    selectedOptions: [{ name: "Users", value: title }],
+    userCount,
+  }
+}
+
+/**
+ * A signature package priced like the store's: the base price for one user plus `userPrice` for each other
+ */
+function signatureProduct({
+  basePrice = 500,
+  userPrice = 50,
+  userCounts = [1, 2, 3, 4, 5, 10, 15, 20, 25, 30, 40, 50],
+  settings = {},
+}: {
+  basePrice?: number
+  userPrice?: number
+  userCounts?: number[]
+  settings?: Partial<PackageSettings>
+} = {}): ShopifyProduct {
+  return {
+    id: "gid://shopify/Product/signature",
+    title: "Premium Signature",
+    description: "",
+    handle: "premium-signature",
+    requiresSellingPlan: false,
+    sellingPlans: [],
+    variants: [
+      ...userCounts.map((count) => variant(count, basePrice + userPrice * (count - 1))),
+      variant(null, 0, "Custom Quote"),
+    ],
+    package: {
+      tier: "Premium",
+      displayOrder: 1,
+      hidden: false,
+      minUsers: 1,
+      maxUsers: DEFAULT_MAX_USERS,
+      volumeDiscounts: VOLUME_DISCOUNTS,
+      customQuoteVariantId: null,
+      weeklySlots: 5,
+      leadWeeks: 2,
+      ...settings,
+    },
+  }
+}
+
+beforeEach(() => {
+  // `findVariantForUserCount` logs every lookup
+  vi.spyOn(console, "log").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("getVolumeDiscountTier", () => {
+  it("has no tier below the smallest one", () => {
+    expect(getVolumeDiscountTier(VOLUME_DISCOUNTS, 1)).toBeNull()
+    expect(getVolumeDiscountTier(VOLUME_DISCOUNTS, 9)).toBeNull()
+  })
+
+  it("applies a tier from its minimum user count", () => {
+    expect(getVolumeDiscountTier(VOLUME_DISCOUNTS, 10)).toEqual({ minUsers: 10, percentOff: 5 })
+    expect(getVolumeDiscountTier(VOLUME_DISCOUNTS, 24)).toEqual({ minUsers: 10, percentOff: 5 })
+  })
+
+  it("picks the highest tier the team reaches, whatever the order of the tiers", () => {
+    expect(getVolumeDiscountTier(VOLUME_DISCOUNTS, 25)).toEqual({ minUsers: 25, percentOff: 10 })
+    expect(getVolumeDiscountTier([...VOLUME_DISCOUNTS].reverse(), 100)).toEqual({ minUsers: 25, percentOff: 10 })
+  })
+
+  it("has no tier without tiers", () => {
+    expect(getVolumeDiscountTier([], 50)).toBeNull()
+  })
+})
+
+describe("getUserPrice", () => {
+  it("is the step between the 1-user and 2-user variants", () => {
+    expect(getUserPrice(signatureProduct({ userPrice: 68.5 }))).toBe(68.5)
+  })
+
+  it("falls back to SIGNATURE_USER_PRICE without both variants", () => {
+    expect(getUserPrice(signatureProduct({ userCounts: [1, 5, 10] }))).toBe(SIGNATURE_USER_PRICE)
+    expect(getUserPrice(null)).toBe(SIGNATURE_USER_PRICE)
+  })
+})
+
+describe("requiresCustomQuote", () => {
+  it("starts above the package's maxUsers", () => {
+    const product = signatureProduct({ settings: { maxUsers: 30 } })
+
+    expect(requiresCustomQuote(product, 30)).toBe(false)
+    expect(requiresCustomQuote(product, 31)).toBe(true)
+  })
+
+  it("uses DEFAULT_MAX_USERS without a product", () => {
+    expect(requiresCustomQuote(null, DEFAULT_MAX_USERS)).toBe(false)
+    expect(requiresCustomQuote(null, DEFAULT_MAX_USERS + 1)).toBe(true)
+  })
+})
+
+describe("findVariantForUserCount", () => {
+  const product = signatureProduct()
+
+  it("picks the variant for exactly that many users", () => {
+    expect(findVariantForUserCount(product, 1)?.userCount).toBe(1)
+    expect(findVariantForUserCount(product, 25)?.userCount).toBe(25)
+    expect(findVariantForUserCount(product, DEFAULT_MAX_USERS)?.userCount).toBe(DEFAULT_MAX_USERS)
+  })
+
+  it("picks the closest variant below a count without its own", () => {
+    expect(findVariantForUserCount(product, 7)?.userCount).toBe(5)
+    expect(findVariantForUserCount(product, 49)?.userCount).toBe(40)
+  })
+
+  it("picks the custom quote variant above maxUsers, found by title", () => {
+    expect(findVariantForUserCount(product, DEFAULT_MAX_USERS + 1)?.title).toBe("Custom Quote")
+  })
+
+  it("prefers the custom quote variant from the metafield", () => {
+    const withMetafield = signatureProduct({ settings: { maxUsers: 10 } })
+    withMetafield.package.customQuoteVariantId = withMetafield.variants[3].id
+
+    expect(findVariantForUserCount(withMetafield, 11)?.id).toBe(withMetafield.variants[3].id)
+  })
+
+  it("falls back to the first variant when none is below the count", () => {
+    const fromFive = signatureProduct({ userCounts: [5, 10] })
+
+    expect(findVariantForUserCount(fromFive, 3)?.userCount).toBe(5)
+  })
+
+  it("has no variant for a product without variants", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {})
+
+    expect(findVariantForUserCount({ ...product, variants: [] }, 5)).toBeNull()
+  })
+})
+
+describe("quoteSignature", () => {
+  const product = signatureProduct()
+
+  it("charges the 1-user variant's price for one user", () => {
+    const quote = quoteSignature(product, 1)
+
+    expect(quote.variant?.userCount).toBe(1)
+    expect(quote.subtotal).toBe(500)
+    expect(quote.usersSubtotal).toBe(0)
+    expect(quote.total).toBe(500)
+  })
+
+  it("matches the price of the variant that goes in the cart", () => {
+    for (const userCount of [2, 3, 4, 5, 7]) {
+      const quote = quoteSignature(product, userCount)
+      expect(quote.total).toBe(Number.parseFloat(findVariantForUserCount(product, userCount)!.price))
+    }
+  })
+
+  it("prices a count without its own variant at the variant the cart gets", () => {
+    const quote = quoteSignature(product, 7)
+
+    expect(quote.variant?.userCount).toBe(5)
+    expect(quote.subtotal).toBe(700)
+  })
+
+  it("has no volume discount just below the first tier", () => {
+    const quote = quoteSignature(product, 9)
+
+    expect(quote.volumeDiscount).toBeNull()
+    expect(quote.total).toBe(quote.subtotal)
+  })
+
+  it("takes the tier's discount off the users beyond the first", () => {
+    // 500 + 9 × 50, with 5% off the 450 for the other nine users
+    expect(quoteSignature(product, 10)).toMatchObject({
+      subtotal: 950,
+      usersSubtotal: 450,
+      volumeDiscount: { minUsers: 10, percentOff: 5, amount: 22.5 },
+      total: 927.5,
+    })
+  })
+
+  it("moves to the next tier at its minimum", () => {
+    expect(quoteSignature(product, 24).volumeDiscount?.percentOff).toBe(5)
+    // 500 + 24 × 50, with 10% off the 1,200 for the other users
+    expect(quoteSignature(product, 25)).toMatchObject({
+      subtotal: 1700,
+      volumeDiscount: { percentOff: 10, amount: 120 },
+      total: 1580,
+    })
+  })
+
+  it("is still priced at maxUsers", () => {
+    const quote = quoteSignature(product, DEFAULT_MAX_USERS)
+
+    expect(quote.customQuote).toBe(false)
+    expect(quote.variant?.userCount).toBe(DEFAULT_MAX_USERS)
+  })
+
+  it("needs a custom quote above maxUsers, without a cart variant", () => {
+    const quote = quoteSignature(product, DEFAULT_MAX_USERS + 1)
+
+    expect(quote.customQuote).toBe(true)
+    expect(quote.variant).toBeNull()
+  })
+
+  it("charges the per-user price for each extra user when the package has no user-count variants", () => {
+    const flat = { ...product, variants: [variant(null, 300, "Default Title")], package: product.package }
+
+    expect(quoteSignature(flat, 3)).toMatchObject({ subtotal: 400, usersSubtotal: 100, total: 400 })
+  })
+})
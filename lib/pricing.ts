@@ -0,0 +1,211 @@
+/**
+ * Pricing engine shared by every calculator.
+ *
+ * Pure functions over catalog data: package and per-user prices, volume discounts, the custom-quote
+ * threshold and which variant goes in the cart. Components only render what these return, so a pricing
+ * change happens here and nowhere else.
+ *
+ * Amounts are in the currency Shopify returned for the visitor's market.
+ */
+
+import type { ShopifyProduct, ShopifyVariant } from "@/lib/shopify"
+import { DEFAULT_MAX_USERS } from "@/lib/shopify/packages"
+
+// Per-user signature price used when a package has no 1-user and 2-user variants to derive it from
+export const SIGNATURE_USER_PRICE = 50
+
+export interface VolumeDiscountTier {
+  // Smallest team the tier applies to
+  minUsers: number
+  percentOff: number
+}
+
+export interface VolumeDiscount extends VolumeDiscountTier {
+  amount: number
+}
+
+export interface SignatureQuote {
+  userCount: number
+  // The variant that goes in the cart, from `findVariantForUserCount`
+  variant: ShopifyVariant | null
+  // Price of the 1-user variant, which includes the first user
+  packagePrice: number
+  userPrice: number
+  // Price of the cart variant, before any volume discount
+  subtotal: number
+  // The part of the subtotal for users beyond the first, which volume discounts apply to
+  usersSubtotal: number
+  volumeDiscount: VolumeDiscount | null
+  total: number
+  // True when the team is too large for self-serve pricing; the totals are then not meaningful
+  customQuote: boolean
+}
+
+export interface AvatarQuote {
+  total: number
+  variant: ShopifyVariant | null
+}
+
+/**
+ * Rounds an amount to the cent
+ */
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Total for a line: unit price times quantity
+ */
+export function getLineTotal(unitPrice: number | string, quantity: number): number {
+  const price = typeof unitPrice === "string" ? Number.parseFloat(unitPrice) : unitPrice
+  return roundMoney(price * quantity)
+}
+
+/**
+ * The amount taken off by a percentage discount, rounded to the cent
+ */
+export function getPercentOff(amount: number, percentOff: number): number {
+  return roundMoney((amount * percentOff) / 100)
+}
+
+/**
+ * Price of a package on its own: its 1-user variant, or its first variant when it isn't priced per user
+ */
+export function getPackagePrice(product: ShopifyProduct | null | undefined): number {
+  const variant = product?.variants.find((variant) => variant.userCount === 1) ?? product?.variants[0]
+  return variant ? Number.parseFloat(variant.price) : 0
+}
+
+/**
+ * Returns the per-user price in the product's currency: the step between its 1-user and 2-user variants,
+ * which Shopify converts for each market, or `SIGNATURE_USER_PRICE` when the product doesn't have both
+ */
+export function getUserPrice(product: ShopifyProduct | null | undefined): number {
+  const oneUser = product?.variants.find((variant) => variant.userCount === 1)
+  const twoUsers = product?.variants.find((variant) => variant.userCount === 2)
+
+  if (!oneUser || !twoUsers) return SIGNATURE_USER_PRICE
+
+  return roundMoney(Number.parseFloat(twoUsers.price) - Number.parseFloat(oneUser.price))
+}
+
+/**
+ * Finds the volume discount tier for a team size: the tier with the highest `minUsers` the team reaches
+ */
+export function getVolumeDiscountTier(tiers: VolumeDiscountTier[], userCount: number): VolumeDiscountTier | null {
+  return tiers.filter((tier) => userCount >= tier.minUsers).sort((a, b) => b.minUsers - a.minUsers)[0] ?? null
+}
+
+/**
+ * Checks whether a team is too large for self-serve pricing on this package
+ */
+export function requiresCustomQuote(product: ShopifyProduct | null | undefined, userCount: number): boolean {
+  return userCount > (product?.package.maxUsers ?? DEFAULT_MAX_USERS)
+}
+
+/**
+ * Finds the variant used for custom quotes: the `lumio.custom_quote_variant` metafield,
+ * or a variant with "custom" in its title or options
+ */
+export function findCustomQuoteVariant(product: ShopifyProduct): ShopifyVariant | null {
+  const { customQuoteVariantId } = product.package
+  if (customQuoteVariantId) {
+    const variant = product.variants.find((variant) => variant.id === customQuoteVariantId)
+    if (variant) return variant
+    console.warn(`Custom quote variant ${customQuoteVariantId} is not a variant of ${product.title}`)
+  }
+
+  return (
+    product.variants.find(
+      (variant) =>
+        variant.title.toLowerCase().includes("custom") ||
+        variant.selectedOptions.some((option) => option.value.toLowerCase().includes("custom")),
+    ) ?? null
+  )
+}
+
+/**
+ * CRITICAL FUNCTION: Finds the variant that matches the user count
+ *
+ * 1. Above the package's `maxUsers`, the custom quote variant
+ * 2. Otherwise the variant covering exactly `userCount` users
+ * 3. Otherwise the closest variant below `userCount`
+ * 4. Otherwise the first variant
+ *
+ * DO NOT MODIFY without thorough testing with actual Shopify variants.
+ */
+export function findVariantForUserCount(product: ShopifyProduct, userCount: number): ShopifyVariant | null {
+  if (product.variants.length === 0) {
+    console.error("Invalid product or no variants available", product)
+    return null
+  }
+
+  if (requiresCustomQuote(product, userCount)) {
+    console.log(`Using Custom Quote variant for user count > ${product.package.maxUsers}: ${userCount}`)
+    return findCustomQuoteVariant(product)
+  }
+
+  const exactMatch = product.variants.find((variant) => variant.userCount === userCount)
+  if (exactMatch) {
+    console.log(`Found exact match variant: ${exactMatch.id}`)
+    return exactMatch
+  }
+
+  console.log(`No exact match found, looking for closest match below ${userCount}`)
+  const closestBelow = product.variants
+    .filter((variant) => variant.userCount !== null && variant.userCount <= userCount)
+    .sort((a, b) => (b.userCount ?? 0) - (a.userCount ?? 0))[0]
+
+  if (closestBelow) {
+    console.log(`Using closest match variant: ${closestBelow.id} (${closestBelow.userCount} users)`)
+    return closestBelow
+  }
+
+  console.log(`No matching variant found, using first variant: ${product.variants[0].id}`)
+  return product.variants[0]
+}
+
+/**
+ * Prices a signature package for a team from the variant that goes in the cart, less any volume discount
+ * on the users beyond the first
+ *
+ * A variant's price covers all of its users, so the package price already includes the first one. When the
+ * product has no variant priced for the team, the package price plus the per-user price for each extra user.
+ */
+export function quoteSignature(product: ShopifyProduct, userCount: number): SignatureQuote {
+  const packagePrice = getPackagePrice(product)
+  const userPrice = getUserPrice(product)
+  const customQuote = requiresCustomQuote(product, userCount)
+
+  const variant = customQuote ? null : findVariantForUserCount(product, userCount)
+  const subtotal =
+    variant && variant.userCount !== null
+      ? Number.parseFloat(variant.price)
+      : roundMoney(packagePrice + getLineTotal(userPrice, Math.max(userCount - 1, 0)))
+  const usersSubtotal = roundMoney(Math.max(subtotal - packagePrice, 0))
+
+  const tier = getVolumeDiscountTier(product.package.volumeDiscounts, userCount)
+  const volumeDiscount = tier ? { ...tier, amount: getPercentOff(usersSubtotal, tier.percentOff) } : null
+
+  return {
+    userCount,
+    variant,
+    packagePrice,
+    userPrice,
+    subtotal,
+    usersSubtotal,
+    volumeDiscount,
+    total: roundMoney(subtotal - (volumeDiscount?.amount ?? 0)),
+    customQuote,
+  }
+}
+
+/**
+ * Prices an avatar package, which isn't priced per user
+ */
+export function quoteAvatar(product: ShopifyProduct): AvatarQuote {
+  return {
+    total: getPackagePrice(product),
+    variant: product.variants[0] ?? null,
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Custom quote requests for teams too large for self-serve pricing.
+ *
+ * A request is stored in Shopify as a draft order tagged with its reference number (see
+ * `lib/shopify/quotes.ts`). Staff later price it, which turns the same draft order into a checkout link.
+ * This module only holds what the browser and the server share: the request schema and status labels.
+ */
+
+import { z } from "zod"
+import { MARKET_COUNTRIES } from "@/lib/shopify/markets"
+import type { CurrencyCode } from "@/lib/shopify/storefront.generated"
+
+export const QUOTE_TIMELINES = [
+  { value: "asap", label: "As soon as possible" },
+  { value: "within-month", label: "Within a month" },
+  { value: "one-to-three-months", label: "In 1-3 months" },
+  { value: "flexible", label: "No fixed date" },
+] as const
+
+export type QuoteTimeline = (typeof QUOTE_TIMELINES)[number]["value"]
+
+export type QuoteStatus = "pending" | "issued" | "completed"
+
+// Reference numbers look like LQ-7KQ2MX; the alphabet leaves out characters that are easy to misread
+export const QUOTE_REFERENCE_PATTERN = /^LQ-[A-HJ-NP-Z2-9]{6}$/
+
+// Hidden field on the request form that people leave empty and form-filling bots don't
+export const QUOTE_HONEYPOT_FIELD = "fax"
+
+export const quoteRequestSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  email: z.string().trim().email("Enter a valid email address"),
+  company: z.string().trim().min(1, "Company is required").max(100),
+  website: z.string().trim().max(200).optional(),
+  seatCount: z.number().int().min(1).max(100000),
+  // The signature package the quote is for
+  productId: z.string().startsWith("gid://shopify/Product/"),
+  timeline: z.enum(QUOTE_TIMELINES.map((timeline) => timeline.value) as [QuoteTimeline, ...QuoteTimeline[]]),
+  notes: z.string().trim().max(2000).optional(),
+  country: z.enum(MARKET_COUNTRIES).optional(),
+})
+
+export type QuoteRequestInput = z.infer<typeof quoteRequestSchema>
+
+export const issueQuoteSchema = z.object({
+  // Total for the whole team, in the currency the request was made in
+  amount: z.number().positive().max(1000000),
+  // Emails Shopify's invoice with the checkout link to the requester
+  sendInvoice: z.boolean().default(false),
+  message: z.string().trim().max(1000).optional(),
+})
+
+export type IssueQuoteInput = z.infer<typeof issueQuoteSchema>
+
+export interface Quote {
+  reference: string
+  status: QuoteStatus
+  draftOrderId: string
+  draftOrderName: string
+  name: string
+  email: string
+  company: string
+  website: string | null
+  seatCount: number
+  packageTitle: string
+  timeline: string
+  notes: string | null
+  currencyCode: CurrencyCode
+  // Priced total and checkout link, once staff have issued the quote
+  total: string | null
+  checkoutUrl: string | null
+  createdAt: string
+}
+
+/**
+ * Label shown for a timeline value
+ */
+export function getTimelineLabel(timeline: string): string {
+  return QUOTE_TIMELINES.find((option) => option.value === timeline)?.label ?? timeline
+}
@@ -0,0 +1,61 @@
+/**
+ * In-memory rate limits for public API routes that send email, write to Shopify or could be used to guess
+ * order numbers and discount codes.
+ *
+ * Counts are kept per server process, so a deployment with several instances allows each client a multiple of
+ * the limit. That's enough to stop a script from sending mail through a form; it isn't a quota.
+ */
+
+import { NextResponse } from "next/server"
+
+export interface RateLimit {
+  // Requests allowed per window
+  limit: number
+  windowMs: number
+}
+
+// Kept on globalThis so counts survive hot reloads in development
+const globalForRateLimit = globalThis as typeof globalThis & {
+  lumioRateLimits?: Map<string, { count: number; resetAt: number }>
+}
+const windows = (globalForRateLimit.lumioRateLimits ??= new Map<string, { count: number; resetAt: number }>())
+
+/**
+ * Counts a request against a fixed-window limit
+ *
+ * @param key - What the limit applies to, e.g. `quotes:ip:203.0.113.7`
+ * @returns `null` when the request is allowed, or the seconds until the window resets when it isn't
+ */
+export function takeRateLimit(key: string, { limit, windowMs }: RateLimit): number | null {
+  const now = Date.now()
+  for (const [storedKey, window] of windows) {
+    if (window.resetAt <= now) windows.delete(storedKey)
+  }
+
+  const window = windows.get(key) ?? { count: 0, resetAt: now + windowMs }
+  if (window.count >= limit) {
+    return Math.ceil((window.resetAt - now) / 1000)
+  }
+
+  window.count++
+  windows.set(key, window)
+  return null
+}
+
+/**
+ * The client's IP address from the proxy headers, or `"unknown"` when there are none (e.g. in development)
+ */
+export function getClientIp(request: Request): string {
+  const forwardedFor = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim()
+  return forwardedFor || request.headers.get("x-real-ip") || "unknown"
+}
+
+/**
+ * Answers a rate-limited request with 429 `RATE_LIMITED` and `Retry-After`
+ */
+export function rateLimitedResponse(retryAfter: number, error = "Too many requests. Please try again later.") {
+  return NextResponse.json(
+    { error, code: "RATE_LIMITED", details: { retryAfter } },
+    { status: 429, headers: { "Retry-After": retryAfter.toString() } },
+  )
+}
@@ -0,0 +1,311 @@
+/**
+ * Admin API operations used by Lumio.
+ *
+ * `pnpm codegen` only knows the Storefront schema, so these documents are not generated: their
+ * response and variable types are written out below and must be kept in step with the documents.
+ * Types only cover the fields selected here.
+ */
+
+import type { CurrencyCode } from "./storefront.generated"
+
+export const DRAFT_QUOTE_FRAGMENT = /* GraphQL */ `
+  fragment DraftQuote on DraftOrder {
+    id
+    name
+    status
+    email
+    invoiceUrl
+    tags
+    createdAt
+    # The note set through DraftOrderInput.note
+    note2
+    customAttributes {
+      key
+      value
+    }
+    totalPriceSet {
+      presentmentMoney {
+        amount
+        currencyCode
+      }
+    }
+  }
+`
+
+export const DRAFT_ORDERS_QUERY = /* GraphQL */ `
+  query DraftOrders($query: String!) {
+    draftOrders(first: 1, query: $query, sortKey: UPDATED_AT, reverse: true) {
+      nodes {
+        ...DraftQuote
+      }
+    }
+  }
+  ${DRAFT_QUOTE_FRAGMENT}
+`
+
+export const DRAFT_ORDER_CREATE_MUTATION = /* GraphQL */ `
+  mutation DraftOrderCreate($input: DraftOrderInput!) {
+    draftOrderCreate(input: $input) {
+      draftOrder {
+        ...DraftQuote
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+  ${DRAFT_QUOTE_FRAGMENT}
+`
+
+export const DRAFT_ORDER_UPDATE_MUTATION = /* GraphQL */ `
+  mutation DraftOrderUpdate($id: ID!, $input: DraftOrderInput!) {
+    draftOrderUpdate(id: $id, input: $input) {
+      draftOrder {
+        ...DraftQuote
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+  ${DRAFT_QUOTE_FRAGMENT}
+`
+
+export const DRAFT_ORDER_INVOICE_SEND_MUTATION = /* GraphQL */ `
+  mutation DraftOrderInvoiceSend($id: ID!, $email: EmailInput) {
+    draftOrderInvoiceSend(id: $id, email: $email) {
+      draftOrder {
+        ...DraftQuote
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+  ${DRAFT_QUOTE_FRAGMENT}
+`
+
+export const BALANCE_ORDER_FRAGMENT = /* GraphQL */ `
+  fragment BalanceOrder on Order {
+    id
+    name
+    email
+    tags
+    createdAt
+    cancelledAt
+    currentTotalPriceSet {
+      presentmentMoney {
+        amount
+        currencyCode
+      }
+    }
+    totalReceivedSet {
+      presentmentMoney {
+        amount
+        currencyCode
+      }
+    }
+    totalOutstandingSet {
+      presentmentMoney {
+        amount
+        currencyCode
+      }
+    }
+    lineItems(first: 10) {
+      nodes {
+        title
+        quantity
+        sellingPlan {
+          name
+        }
+      }
+    }
+  }
+`
+
+export const ORDERS_QUERY = /* GraphQL */ `
+  query Orders($query: String!) {
+    orders(first: 1, query: $query) {
+      nodes {
+        ...BalanceOrder
+      }
+    }
+  }
+  ${BALANCE_ORDER_FRAGMENT}
+`
+
+export const TAGS_ADD_MUTATION = /* GraphQL */ `
+  mutation TagsAdd($id: ID!, $tags: [String!]!) {
+    tagsAdd(id: $id, tags: $tags) {
+      node {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`
+
+export const PRODUCTION_ORDERS_QUERY = /* GraphQL */ `
+  query ProductionOrders($query: String!, $after: String) {
+    orders(first: 100, after: $after, query: $query) {
+      nodes {
+        cancelledAt
+        lineItems(first: 20) {
+          nodes {
+            quantity
+            product {
+              id
+            }
+            customAttributes {
+              key
+              value
+            }
+          }
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`
+
+export type DraftOrderStatus = "OPEN" | "INVOICE_SENT" | "COMPLETED"
+
+interface MoneyBag {
+  presentmentMoney: { amount: string; currencyCode: CurrencyCode }
+}
+
+export interface AdminUserError {
+  field: string[] | null
+  message: string
+}
+
+export interface DraftQuoteFragment {
+  id: string
+  name: string
+  status: DraftOrderStatus
+  email: string | null
+  invoiceUrl: string | null
+  tags: string[]
+  createdAt: string
+  note2: string | null
+  customAttributes: Array<{ key: string; value: string | null }>
+  totalPriceSet: MoneyBag
+}
+
+export interface DraftOrderLineItemInput {
+  title: string
+  quantity: number
+  originalUnitPriceWithCurrency: { amount: string; currencyCode: CurrencyCode }
+  requiresShipping?: boolean
+  taxable?: boolean
+  customAttributes?: Array<{ key: string; value: string }>
+}
+
+export interface DraftOrderInput {
+  email?: string
+  note?: string
+  tags?: string[]
+  customAttributes?: Array<{ key: string; value: string }>
+  lineItems?: DraftOrderLineItemInput[]
+  presentmentCurrencyCode?: CurrencyCode
+}
+
+interface DraftOrderPayload {
+  draftOrder: DraftQuoteFragment | null
+  userErrors: AdminUserError[]
+}
+
+export interface DraftOrdersQuery {
+  draftOrders: { nodes: DraftQuoteFragment[] }
+}
+
+export interface DraftOrdersQueryVariables {
+  query: string
+}
+
+export interface DraftOrderCreateMutation {
+  draftOrderCreate: DraftOrderPayload | null
+}
+
+export interface DraftOrderCreateMutationVariables {
+  input: DraftOrderInput
+}
+
+export interface DraftOrderUpdateMutation {
+  draftOrderUpdate: DraftOrderPayload | null
+}
+
+export interface DraftOrderUpdateMutationVariables {
+  id: string
+  input: DraftOrderInput
+}
+
+export interface DraftOrderInvoiceSendMutation {
+  draftOrderInvoiceSend: DraftOrderPayload | null
+}
+
+export interface DraftOrderInvoiceSendMutationVariables {
+  id: string
+  email?: { subject?: string; customMessage?: string }
+}
+
+export interface BalanceOrderFragment {
+  id: string
+  // The order number as shown to the buyer, e.g. "#1042"
+  name: string
+  email: string | null
+  tags: string[]
+  createdAt: string
+  cancelledAt: string | null
+  currentTotalPriceSet: MoneyBag
+  totalReceivedSet: MoneyBag
+  totalOutstandingSet: MoneyBag
+  lineItems: { nodes: Array<{ title: string; quantity: number; sellingPlan: { name: string } | null }> }
+}
+
+export interface OrdersQuery {
+  orders: { nodes: BalanceOrderFragment[] }
+}
+
+export interface OrdersQueryVariables {
+  query: string
+}
+
+export interface TagsAddMutation {
+  tagsAdd: { node: { id: string } | null; userErrors: AdminUserError[] } | null
+}
+
+export interface TagsAddMutationVariables {
+  id: string
+  tags: string[]
+}
+
+export interface ProductionOrdersQuery {
+  orders: {
+    nodes: Array<{
+      cancelledAt: string | null
+      lineItems: {
+        nodes: Array<{
+          quantity: number
+          product: { id: string } | null
+          customAttributes: Array<{ key: string; value: string | null }>
+        }>
+      }
+    }>
+    pageInfo: { hasNextPage: boolean; endCursor: string | null }
+  }
+}
+
+export interface ProductionOrdersQueryVariables {
+  query: string
+  after?: string | null
+}
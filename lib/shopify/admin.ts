@@ -0,0 +1,107 @@
+/**
+ * Server-side Admin API client.
+ *
+ * Used for the few things the Storefront API can't do, like draft orders for custom quotes. Reads the
+ * Admin API access token of the store's custom app, so only import this from route handlers.
+ *
+ * With `SHOPIFY_STOREFRONT_MOCK=true`, requests are answered by the offline stand-in in `mock/admin.ts`.
+ */
+
+import { executeMockAdminOperation } from "./mock/admin"
+import { isMockStorefront } from "./mock/storefront"
+import { config } from "@/lib/config"
+
+const { storeDomain, apiVersion } = config.shopify
+
+export const SHOPIFY_ADMIN_API_ENDPOINT = `https://${storeDomain}/admin/api/${apiVersion}/graphql.json`
+
+/**
+ * Error raised when the Admin API request fails, returns GraphQL errors or rejects a mutation
+ */
+export class AdminApiError extends Error {
+  status: number
+  details?: unknown
+
+  constructor(message: string, status: number, details?: unknown) {
+    super(message)
+    this.name = "AdminApiError"
+    this.status = status
+    this.details = details
+  }
+}
+
+/**
+ * Sends an operation from `admin-operations.ts` to the Admin API and returns its `data`
+ */
+export async function adminRequest<TData, TVariables = Record<string, never>>(
+  query: string,
+  variables?: TVariables,
+): Promise<TData> {
+  if (isMockStorefront()) {
+    return unwrapResponse<TData>(executeMockAdminOperation(query, variables as Record<string, unknown>))
+  }
+
+  const SHOPIFY_ADMIN_ACCESS_TOKEN = config.shopify.adminAccessToken
+
+  if (!SHOPIFY_ADMIN_ACCESS_TOKEN) {
+    console.error("Shopify Admin API access token is missing. Check your environment variables.")
+    throw new AdminApiError("Shopify Admin API access token is missing", 500)
+  }
+
+  const response = await fetch(SHOPIFY_ADMIN_API_ENDPOINT, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Shopify-Access-Token": SHOPIFY_ADMIN_ACCESS_TOKEN,
+    },
+    body: JSON.stringify({ query, variables }),
+    cache: "no-store",
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error("Error response from Shopify Admin API:", errorText)
+    throw toHttpError(response)
+  }
+
+  let body: { data?: TData; errors?: unknown }
+  try {
+    body = await response.json()
+  } catch (error) {
+    console.error("Error parsing Shopify Admin API response as JSON:", error)
+    throw new AdminApiError("Error parsing Shopify Admin API response as JSON", 502)
+  }
+
+  return unwrapResponse(body)
+}
+
+/**
+ * Turns a failed HTTP response from Shopify into an `AdminApiError` with our own status
+ *
+ * Shopify's status isn't passed through: a 401 from a bad token would otherwise reach the browser as its own.
+ */
+function toHttpError(response: Response): AdminApiError {
+  const message = `Shopify Admin API error: ${response.status} ${response.statusText}`
+
+  if (response.status === 429) {
+    return new AdminApiError(message, 429)
+  }
+
+  return new AdminApiError(message, response.status >= 500 ? 503 : 502)
+}
+
+/**
+ * Returns the `data` of a GraphQL response body, throwing on GraphQL errors
+ */
+function unwrapResponse<TData>(body: { data?: unknown; errors?: unknown }): TData {
+  if (body.errors) {
+    console.error("Shopify Admin API GraphQL errors:", body.errors)
+    throw new AdminApiError("Shopify Admin API GraphQL errors", 502, body.errors)
+  }
+
+  if (!body.data) {
+    throw new AdminApiError("Unexpected Shopify Admin API response structure", 502)
+  }
+
+  return body.data as TData
+}
@@ -0,0 +1,230 @@
+/**
+ * Balance payments stored as Shopify draft orders.
+ *
+ * The balance of a deposit order is paid through a separate draft order tagged `balance-due` and
+ * `balance-<order number>`, with one untaxed line for the outstanding amount (tax was already charged on the
+ * original order). Its invoice URL is the buyer's checkout link. Once it is paid, the `orders/paid` webhook
+ * tags the original order `balance-paid` and `balance-order-<balance order number>`. The original order isn't
+ * marked as paid, since that would record the balance a second time as a manual payment.
+ */
+
+import { adminRequest, AdminApiError } from "./admin"
+import {
+  DRAFT_ORDER_CREATE_MUTATION,
+  DRAFT_ORDER_UPDATE_MUTATION,
+  DRAFT_ORDERS_QUERY,
+  ORDERS_QUERY,
+  TAGS_ADD_MUTATION,
+} from "./admin-operations"
+import type {
+  AdminUserError,
+  BalanceOrderFragment,
+  DraftOrderCreateMutation,
+  DraftOrderCreateMutationVariables,
+  DraftOrderInput,
+  DraftOrdersQuery,
+  DraftOrdersQueryVariables,
+  DraftOrderUpdateMutation,
+  DraftOrderUpdateMutationVariables,
+  DraftQuoteFragment,
+  OrdersQuery,
+  OrdersQueryVariables,
+  TagsAddMutation,
+  TagsAddMutationVariables,
+} from "./admin-operations"
+import type { BalanceOrder } from "@/lib/balance"
+
+// Every balance draft order carries this tag, so they can be filtered in Shopify admin
+export const BALANCE_TAG = "balance-due"
+
+// Tag on an order whose balance was paid through its balance draft order
+export const BALANCE_PAID_TAG = "balance-paid"
+
+// Custom attribute on the balance draft order naming the order it settles
+const BALANCE_FOR_ATTRIBUTE = "Balance for order"
+
+/**
+ * Tag linking a balance draft order to its order, e.g. "balance-1042"
+ */
+function balanceOrderTag(orderName: string): string {
+  return `balance-${orderName.replace(/^#/, "")}`
+}
+
+/**
+ * Tag linking an order to the order its balance was paid with, e.g. "balance-order-1057"
+ */
+function balancePaymentTag(balanceOrderName: string): string {
+  return `balance-order-${balanceOrderName.replace(/^#/, "")}`
+}
+
+/**
+ * Throws on mutation user errors, otherwise returns the draft order
+ */
+function assertDraftOrder(
+  payload: { draftOrder: DraftQuoteFragment | null; userErrors: AdminUserError[] } | null,
+  action: string,
+): DraftQuoteFragment {
+  if (payload?.userErrors.length) {
+    console.error(`Shopify balance draft order user errors (${action}):`, payload.userErrors)
+    throw new AdminApiError(`Balance draft order ${action} errors`, 400, payload.userErrors)
+  }
+
+  if (!payload?.draftOrder) {
+    throw new AdminApiError("Invalid draft order response from Shopify", 500)
+  }
+
+  return payload.draftOrder
+}
+
+/**
+ * Reads the balance of an order, taking a paid balance draft order into account
+ *
+ * The balance is paid on another order, so Shopify still shows it as outstanding on this one. The webhook tags
+ * the order once it's paid, but the completed draft order settles it even if that webhook was missed.
+ */
+function toBalanceOrder(order: BalanceOrderFragment, draftOrder: DraftQuoteFragment | null): BalanceOrder {
+  const outstanding = order.totalOutstandingSet.presentmentMoney
+  const paidByBalanceOrder = draftOrder?.status === "COMPLETED" || order.tags.includes(BALANCE_PAID_TAG)
+  const balancePaid = paidByBalanceOrder || Number.parseFloat(outstanding.amount) <= 0
+  const status = order.cancelledAt ? "cancelled" : balancePaid ? "paid" : "due"
+
+  // A checkout link is only good while it is for the current balance
+  const checkoutUrl =
+    status === "due" &&
+    draftOrder &&
+    Number.parseFloat(draftOrder.totalPriceSet.presentmentMoney.amount) === Number.parseFloat(outstanding.amount)
+      ? draftOrder.invoiceUrl
+      : null
+
+  return {
+    orderId: order.id,
+    orderName: order.name,
+    email: order.email ?? "",
+    status,
+    currencyCode: order.currentTotalPriceSet.presentmentMoney.currencyCode,
+    total: order.currentTotalPriceSet.presentmentMoney.amount,
+    paid: paidByBalanceOrder
+      ? order.currentTotalPriceSet.presentmentMoney.amount
+      : order.totalReceivedSet.presentmentMoney.amount,
+    balance: status === "due" ? outstanding.amount : "0.00",
+    items: order.lineItems.nodes.map((item) => ({
+      title: item.title,
+      quantity: item.quantity,
+      sellingPlanName: item.sellingPlan?.name ?? null,
+    })),
+    checkoutUrl,
+    createdAt: order.createdAt,
+  }
+}
+
+async function findOrder(orderNumber: string): Promise<BalanceOrderFragment | null> {
+  const data = await adminRequest<OrdersQuery, OrdersQueryVariables>(ORDERS_QUERY, {
+    query: `name:'#${orderNumber}'`,
+  })
+
+  return data.orders.nodes[0] ?? null
+}
+
+async function findBalanceDraftOrder(orderName: string): Promise<DraftQuoteFragment | null> {
+  const data = await adminRequest<DraftOrdersQuery, DraftOrdersQueryVariables>(DRAFT_ORDERS_QUERY, {
+    query: `tag:'${balanceOrderTag(orderName)}'`,
+  })
+
+  return data.draftOrders.nodes[0] ?? null
+}
+
+/**
+ * Looks up an order's balance by order number, returning `null` when there is none
+ *
+ * @param orderNumber - The order number without its "#"
+ * @param email - When given, the order is only returned if it was placed with this email address
+ */
+export async function getBalanceOrder(orderNumber: string, email?: string): Promise<BalanceOrder | null> {
+  const order = await findOrder(orderNumber)
+  if (!order) return null
+
+  // Treat a wrong email like a missing order, so order numbers can't be probed
+  if (email !== undefined && order.email?.toLowerCase() !== email.toLowerCase()) return null
+
+  return toBalanceOrder(order, await findBalanceDraftOrder(order.name))
+}
+
+/**
+ * Returns the order with a checkout link for its balance, creating or repricing the balance draft order
+ */
+export async function createBalanceCheckout(order: BalanceOrder): Promise<BalanceOrder> {
+  if (order.status !== "due") {
+    throw new AdminApiError(`Order ${order.orderName} has no balance due`, 409, order.status)
+  }
+
+  if (order.checkoutUrl) return order
+
+  const input: DraftOrderInput = {
+    email: order.email,
+    tags: [BALANCE_TAG, balanceOrderTag(order.orderName)],
+    customAttributes: [{ key: BALANCE_FOR_ATTRIBUTE, value: order.orderName }],
+    presentmentCurrencyCode: order.currencyCode,
+    lineItems: [
+      {
+        title: `Balance for order ${order.orderName}`,
+        quantity: 1,
+        originalUnitPriceWithCurrency: { amount: order.balance, currencyCode: order.currencyCode },
+        requiresShipping: false,
+        taxable: false,
+      },
+    ],
+  }
+
+  // Reprice an open balance draft order rather than leaving a stale one next to a new one
+  const existing = await findBalanceDraftOrder(order.orderName)
+  let draftOrder: DraftQuoteFragment
+
+  if (existing && existing.status !== "COMPLETED") {
+    const data = await adminRequest<DraftOrderUpdateMutation, DraftOrderUpdateMutationVariables>(
+      DRAFT_ORDER_UPDATE_MUTATION,
+      { id: existing.id, input },
+    )
+    draftOrder = assertDraftOrder(data.draftOrderUpdate, "update")
+  } else {
+    const data = await adminRequest<DraftOrderCreateMutation, DraftOrderCreateMutationVariables>(
+      DRAFT_ORDER_CREATE_MUTATION,
+      { input },
+    )
+    draftOrder = assertDraftOrder(data.draftOrderCreate, "create")
+  }
+
+  console.log(`Balance checkout for ${order.orderName}: draft order ${draftOrder.name}, ${order.balance}`)
+  return { ...order, checkoutUrl: draftOrder.invoiceUrl }
+}
+
+/**
+ * Links an order to the order its balance was paid with, once the balance draft order has been paid
+ *
+ * @param payload - The `orders/paid` webhook payload; orders that aren't balance payments are ignored
+ * @returns Whether an order was settled
+ */
+export async function settleBalancePayment(payload: {
+  name?: string
+  tags?: string
+  note_attributes?: Array<{ name: string; value: string }>
+}): Promise<boolean> {
+  const tags = (payload.tags ?? "").split(",").map((tag) => tag.trim())
+  const orderName = payload.note_attributes?.find((attribute) => attribute.name === BALANCE_FOR_ATTRIBUTE)?.value
+  if (!tags.includes(BALANCE_TAG) || !orderName || !payload.name) return false
+
+  const order = await findOrder(orderName.replace(/^#/, ""))
+  if (!order || order.tags.includes(BALANCE_PAID_TAG)) return false
+
+  const data = await adminRequest<TagsAddMutation, TagsAddMutationVariables>(TAGS_ADD_MUTATION, {
+    id: order.id,
+    tags: [BALANCE_PAID_TAG, balancePaymentTag(payload.name)],
+  })
+
+  if (data.tagsAdd?.userErrors.length) {
+    console.error("Shopify order user errors (tags add):", data.tagsAdd.userErrors)
+    throw new AdminApiError(`Order ${order.name} could not be tagged as settled`, 400, data.tagsAdd.userErrors)
+  }
+
+  console.log(`Balance of order ${order.name} paid with order ${payload.name}`)
+  return true
+}
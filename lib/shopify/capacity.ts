@@ -0,0 +1,180 @@
+/**
+ * Server-side production capacity.
+ *
+ * Booked slots are counted from the `Production week` attribute on the line items of recent orders and
+ * cached in the Next.js data cache for `CAPACITY_TTL_SECONDS`. `/api/shopify/webhooks` clears the cache
+ * as soon as an order is created or cancelled. Carts don't hold a slot, so two buyers can still take the
+ * last slot of a week at the same time; the production team reschedules that by hand.
+ */
+
+import { revalidateTag, unstable_cache } from "next/cache"
+import { adminRequest } from "./admin"
+import { PRODUCTION_ORDERS_QUERY } from "./admin-operations"
+import type { ProductionOrdersQuery, ProductionOrdersQueryVariables } from "./admin-operations"
+import { getCatalogProducts } from "./catalog"
+import { CATALOG_COLLECTIONS } from "./index"
+import type { CatalogCollection } from "./index"
+import { StorefrontError } from "./storefront"
+import type { BookedWeeks, ProductionSchedule } from "@/lib/capacity"
+import {
+  addWeeks,
+  CAPACITY_HORIZON_WEEKS,
+  getWeekStart,
+  isSlotAvailable,
+  planProduction,
+  PRODUCTION_WEEK_ATTRIBUTE,
+  readSlotAttributes,
+} from "@/lib/capacity"
+
+// Upper bound on staleness if a webhook is missed
+export const CAPACITY_TTL_SECONDS = 60 * 5
+
+export const CAPACITY_CACHE_TAG = "production-capacity"
+
+// Caps the orders read per count, so a busy store can't stall the calculators
+const MAX_ORDER_PAGES = 10
+
+// Booked slots per week, keyed by product ID
+export type BookedSlots = Record<string, BookedWeeks>
+
+/**
+ * Counts booked slots from the orders placed within the capacity horizon
+ *
+ * Slots can only be booked up to `CAPACITY_HORIZON_WEEKS` ahead, so older orders are all in past weeks.
+ */
+async function countBookedSlots(): Promise<BookedSlots> {
+  const since = addWeeks(getWeekStart(new Date()), -CAPACITY_HORIZON_WEEKS)
+  const booked: BookedSlots = {}
+  let after: string | null = null
+
+  for (let page = 0; page < MAX_ORDER_PAGES; page++) {
+    const data: ProductionOrdersQuery = await adminRequest<ProductionOrdersQuery, ProductionOrdersQueryVariables>(
+      PRODUCTION_ORDERS_QUERY,
+      { query: `created_at:>=${since}`, after },
+    )
+
+    for (const order of data.orders.nodes) {
+      if (order.cancelledAt) continue
+
+      for (const item of order.lineItems.nodes) {
+        const week = item.customAttributes.find((attribute) => attribute.key === PRODUCTION_WEEK_ATTRIBUTE)?.value
+        if (!week || !item.product) continue
+
+        // Each package on the line is produced separately, so a quantity of 2 takes two slots
+        const productWeeks = (booked[item.product.id] ??= {})
+        productWeeks[week] = (productWeeks[week] ?? 0) + item.quantity
+      }
+    }
+
+    if (!data.orders.pageInfo.hasNextPage) break
+    after = data.orders.pageInfo.endCursor
+  }
+
+  return booked
+}
+
+/**
+ * Returns the booked slots of every package, served from cache when fresh
+ */
+export async function getBookedSlots(): Promise<BookedSlots> {
+  const loadBookedSlots = unstable_cache(
+    async () => {
+      console.log("Capacity cache miss, counting booked slots from Shopify orders")
+      return countBookedSlots()
+    },
+    ["production-capacity"],
+    {
+      revalidate: CAPACITY_TTL_SECONDS,
+      tags: [CAPACITY_CACHE_TAG],
+    },
+  )
+
+  return loadBookedSlots()
+}
+
+/**
+ * Clears the cached booked slots
+ */
+export function invalidateCapacity() {
+  console.log(`Invalidating capacity cache: ${CAPACITY_CACHE_TAG}`)
+  revalidateTag(CAPACITY_CACHE_TAG)
+}
+
+/**
+ * Returns the standard and rush slots of every package in a catalog collection
+ */
+export async function getCollectionSchedules(handle: CatalogCollection): Promise<ProductionSchedule[]> {
+  const [products, booked] = await Promise.all([getCatalogProducts(handle), getBookedSlots()])
+  return products.map((product) => planProduction(product.id, product.package, booked[product.id] ?? {}))
+}
+
+// A cart line as far as capacity goes: the package, how many, and the week its attributes reserve
+interface SlotLine {
+  merchandiseId: string
+  quantity: number
+  attributes?: Array<{ key: string; value?: string | null }>
+}
+
+/**
+ * Checks that the production weeks reserved on cart lines can still be booked
+ *
+ * Every package on a line takes its own slot, so the units of all lines booking the same package and week
+ * are added up, together with those already in the cart. Only weeks that `lines` book are checked, so a cart
+ * whose week filled up since can still take other packages. Lines without a reserved week are left alone.
+ * When the booked slots can't be counted the lines are let through, since a missed capacity check is
+ * cheaper than a lost order.
+ *
+ * @param lines - Lines being added, or lines whose quantity is going up, with their new quantity
+ * @param cartLines - The cart's other lines, which already hold their units
+ * @throws {StorefrontError} `CAPACITY_UNAVAILABLE` when a week hasn't enough slots left for the cart
+ */
+export async function assertSlotsAvailable(lines: SlotLine[], cartLines: SlotLine[] = []): Promise<void> {
+  const toReservation = (line: SlotLine) => {
+    const slot = readSlotAttributes(line.attributes ?? [])
+    return slot ? [{ line, slot }] : []
+  }
+  const reservations = lines.flatMap(toReservation)
+  if (reservations.length === 0) return
+
+  let booked: BookedSlots
+  try {
+    booked = await getBookedSlots()
+  } catch (error) {
+    console.error("Couldn't count booked slots, adding lines without a capacity check:", error)
+    return
+  }
+
+  const [signatures, avatars] = await Promise.all([
+    getCatalogProducts(CATALOG_COLLECTIONS.signatures),
+    getCatalogProducts(CATALOG_COLLECTIONS.avatars),
+  ])
+  const products = [...signatures, ...avatars]
+  // Unknown variants are rejected by Shopify when the lines are added
+  const findProduct = (line: SlotLine) =>
+    products.find((product) => product.variants.some((variant) => variant.id === line.merchandiseId))
+
+  // Units wanted per package and week, from the new lines and the rest of the cart
+  const wanted = new Map<string, number>()
+  for (const { line, slot } of [...reservations, ...cartLines.flatMap(toReservation)]) {
+    const product = findProduct(line)
+    if (!product) continue
+
+    const key = `${product.id}:${slot.week}`
+    wanted.set(key, (wanted.get(key) ?? 0) + line.quantity)
+  }
+
+  for (const { line, slot } of reservations) {
+    const product = findProduct(line)
+    if (!product) continue
+
+    const quantity = wanted.get(`${product.id}:${slot.week}`) ?? line.quantity
+    if (!isSlotAvailable(product.package, booked[product.id] ?? {}, { ...slot, quantity })) {
+      throw new StorefrontError(
+        `${product.title} doesn't have ${quantity} slots left in the week of ${slot.week}`,
+        409,
+        { ...slot, quantity },
+        "CAPACITY_UNAVAILABLE",
+      )
+    }
+  }
+}
@@ -0,0 +1,235 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+// `config` is read when the module loads, so the mock has to be switched on before anything imports it
+vi.hoisted(() => {
+  process.env.SHOPIFY_STOREFRONT_MOCK = "true"
+})
+
+// The session cookies of a single visitor
+const cookieJar = vi.hoisted(() => new Map<string, string>())
+
+vi.mock("next/headers", () => ({
+  cookies: async () => ({
+    get: (name: string) => (cookieJar.has(name) ? { name, value: cookieJar.get(name) } : undefined),
+    set: (name: string, value: string) => cookieJar.set(name, value),
+    delete: (name: string) => cookieJar.delete(name),
+  }),
+}))
+
+vi.mock("next/cache", () => ({
+  revalidateTag: vi.fn(),
+  unstable_cache: <T>(load: () => Promise<T>) => load,
+}))
+
+import {
+  addSessionCartLines,
+  CART_COOKIE,
+  getSessionCart,
+  previewCartDiscount,
+  removeSessionCartLines,
+  updateSessionCartLines,
+  withIdempotency,
+} from "./cart"
+import type { CartLineInput } from "./index"
+import { StorefrontError } from "./storefront"
+
+const STARTER_SIGNATURE_2_USERS = "gid://shopify/ProductVariant/9000102"
+const STARTER_SIGNATURE_CUSTOM_QUOTE = "gid://shopify/ProductVariant/9000199"
+const PREMIUM_SIGNATURE_2_USERS = "gid://shopify/ProductVariant/9000302"
+const STARTER_AVATAR = "gid://shopify/ProductVariant/9000401"
+const PREMIUM_AVATAR = "gid://shopify/ProductVariant/9000403"
+const DEPOSIT_PLAN = "gid://shopify/SellingPlan/900000001"
+
+function line(merchandiseId: string, fields: Partial<CartLineInput> = {}): CartLineInput {
+  return { merchandiseId, quantity: 1, attributes: [], ...fields }
+}
+
+/**
+ * Runs a cart call that should fail and returns its error
+ */
+async function rejection(promise: Promise<unknown>): Promise<StorefrontError> {
+  const error = await promise.then(
+    () => null,
+    (error: unknown) => error,
+  )
+  expect(error).toBeInstanceOf(StorefrontError)
+  return error as StorefrontError
+}
+
+beforeEach(() => {
+  cookieJar.clear()
+  // The mock logs every operation, and the cart logs user errors
+  vi.spyOn(console, "log").mockImplementation(() => {})
+  vi.spyOn(console, "error").mockImplementation(() => {})
+  vi.spyOn(console, "warn").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("addSessionCartLines", () => {
+  it("creates the session cart on the first add", async () => {
+    const cart = await addSessionCartLines([line(STARTER_SIGNATURE_2_USERS)])
+
+    expect(cookieJar.get(CART_COOKIE)).toBe(cart.id)
+    expect(cart.lines).toHaveLength(1)
+    expect(cart).toMatchObject({ totalQuantity: 1, subtotal: "1000.00", currencyCode: "USD", countryCode: "US" })
+  })
+
+  it("adds to the same cart on later adds", async () => {
+    const first = await addSessionCartLines([line(STARTER_SIGNATURE_2_USERS)])
+    const second = await addSessionCartLines([line(STARTER_AVATAR)])
+
+    expect(second.id).toBe(first.id)
+    expect(second.lines.map((line) => line.merchandiseId)).toEqual([STARTER_SIGNATURE_2_USERS, STARTER_AVATAR])
+    expect(await getSessionCart()).toMatchObject({ id: first.id, totalQuantity: 2 })
+  })
+
+  it("reports a variant that isn't for sale as VARIANT_NOT_FOUND, without creating a cart", async () => {
+    // Starter's custom-quote variant isn't for sale in the fixtures
+    const error = await rejection(addSessionCartLines([line(STARTER_SIGNATURE_CUSTOM_QUOTE)]))
+
+    expect(error.code).toBe("VARIANT_NOT_FOUND")
+    expect(error.details).toEqual([
+      expect.objectContaining({ field: ["input", "lines", "0", "merchandiseId"], message: expect.any(String) }),
+    ])
+    expect(cookieJar.has(CART_COOKIE)).toBe(false)
+  })
+
+  it("reports an unknown variant on an existing cart as VARIANT_NOT_FOUND", async () => {
+    await addSessionCartLines([line(STARTER_AVATAR)])
+
+    const error = await rejection(addSessionCartLines([line("gid://shopify/ProductVariant/404")]))
+
+    expect(error.code).toBe("VARIANT_NOT_FOUND")
+  })
+
+  it("reports a product that needs a selling plan as CART_USER_ERROR", async () => {
+    const error = await rejection(addSessionCartLines([line(PREMIUM_AVATAR)]))
+
+    expect(error.code).toBe("CART_USER_ERROR")
+    expect(error.details).toEqual([expect.objectContaining({ field: ["input", "lines", "0", "sellingPlanId"] })])
+  })
+
+  it("adds a line with the selling plan it asked for", async () => {
+    const cart = await addSessionCartLines([line(PREMIUM_AVATAR, { sellingPlanId: DEPOSIT_PLAN })])
+
+    expect(cart.lines[0].sellingPlanName).toBe("50% deposit")
+  })
+
+  it("adds the line without its selling plan when the product no longer offers it", async () => {
+    const cart = await addSessionCartLines([line(STARTER_AVATAR, { sellingPlanId: DEPOSIT_PLAN })])
+
+    expect(cart.lines[0]).toMatchObject({ merchandiseId: STARTER_AVATAR, sellingPlanName: null })
+  })
+})
+
+describe("discount codes", () => {
+  it("applies a bundle code to an avatar and signature pair", async () => {
+    const cart = await addSessionCartLines([line(STARTER_AVATAR), line(STARTER_SIGNATURE_2_USERS)], ["BUNDLE10"])
+
+    expect(cart.discountCodes).toEqual([{ code: "BUNDLE10", applicable: true }])
+    // 10% off 450 + 1,000
+    expect(cart.discounts).toEqual([{ title: "BUNDLE10", amount: "145.00" }])
+    expect(cart.total).toBe("1305.00")
+  })
+
+  it("keeps a bundle code on a cart without both packages but doesn't apply it", async () => {
+    const cart = await addSessionCartLines([line(STARTER_SIGNATURE_2_USERS)], ["BUNDLE10"])
+
+    expect(cart.discountCodes).toEqual([{ code: "BUNDLE10", applicable: false }])
+    expect(cart.total).toBe(cart.subtotal)
+  })
+
+  it("adds codes to an existing cart without dropping the ones it has", async () => {
+    await addSessionCartLines([line(STARTER_AVATAR)], ["WELCOME10"])
+    const cart = await addSessionCartLines([line(PREMIUM_SIGNATURE_2_USERS)], ["PREMIUMBUNDLE15"])
+
+    expect(cart.discountCodes.map((discountCode) => discountCode.code)).toEqual(["WELCOME10", "PREMIUMBUNDLE15"])
+  })
+
+  it("previews a code without touching the session cart", async () => {
+    const preview = await previewCartDiscount([line(STARTER_SIGNATURE_2_USERS)], "SPRING25")
+
+    expect(preview.discountCodes).toEqual([{ code: "SPRING25", applicable: true }])
+    expect(preview.total).toBe("750.00")
+    expect(cookieJar.has(CART_COOKIE)).toBe(false)
+  })
+
+  it("previews an unknown code as not applicable", async () => {
+    const preview = await previewCartDiscount([line(STARTER_SIGNATURE_2_USERS)], "NOPE")
+
+    expect(preview.discountCodes).toEqual([{ code: "NOPE", applicable: false }])
+  })
+})
+
+describe("updateSessionCartLines", () => {
+  it("changes a line's quantity", async () => {
+    const { lines } = await addSessionCartLines([line(STARTER_AVATAR)])
+
+    const cart = await updateSessionCartLines([{ id: lines[0].id, quantity: 3 }])
+
+    expect(cart).toMatchObject({ totalQuantity: 3, subtotal: "1350.00" })
+  })
+
+  it("removes a line set to zero", async () => {
+    const { lines } = await addSessionCartLines([line(STARTER_AVATAR), line(STARTER_SIGNATURE_2_USERS)])
+
+    const cart = await updateSessionCartLines([{ id: lines[0].id, quantity: 0 }])
+
+    expect(cart.lines.map((line) => line.merchandiseId)).toEqual([STARTER_SIGNATURE_2_USERS])
+  })
+
+  it("reports an unknown line as CART_USER_ERROR", async () => {
+    await addSessionCartLines([line(STARTER_AVATAR)])
+
+    const error = await rejection(updateSessionCartLines([{ id: "gid://shopify/CartLine/missing", quantity: 2 }]))
+
+    expect(error.code).toBe("CART_USER_ERROR")
+  })
+
+  it("needs a session cart", async () => {
+    const error = await rejection(updateSessionCartLines([{ id: "gid://shopify/CartLine/1", quantity: 2 }]))
+
+    expect(error).toMatchObject({ status: 404, code: "CART_NOT_FOUND" })
+  })
+})
+
+describe("removeSessionCartLines", () => {
+  it("removes lines from the session cart", async () => {
+    const { lines } = await addSessionCartLines([line(STARTER_AVATAR), line(STARTER_SIGNATURE_2_USERS)])
+
+    const cart = await removeSessionCartLines([lines[1].id])
+
+    expect(cart.lines.map((line) => line.merchandiseId)).toEqual([STARTER_AVATAR])
+  })
+
+  it("forgets a cart Shopify no longer has", async () => {
+    cookieJar.set(CART_COOKIE, "gid://shopify/Cart/expired")
+
+    expect(await getSessionCart()).toBeNull()
+    expect(cookieJar.has(CART_COOKIE)).toBe(false)
+  })
+})
+
+describe("withIdempotency", () => {
+  it("returns the first cart to a retry with the same key", async () => {
+    const add = () => addSessionCartLines([line(STARTER_AVATAR)])
+
+    const first = await withIdempotency("key-1", add)
+    const retry = await withIdempotency("key-1", add)
+
+    expect(retry).toEqual(first)
+    expect(await getSessionCart()).toMatchObject({ id: first.id, totalQuantity: 1 })
+  })
+
+  it("runs the change again for a new key", async () => {
+    const add = () => addSessionCartLines([line(STARTER_AVATAR)])
+
+    await withIdempotency("key-2", add)
+    const cart = await withIdempotency("key-3", add)
+
+    expect(cart.totalQuantity).toBe(2)
+  })
+})
@@ -0,0 +1,383 @@
+/**
+ * Server-side cart session.
+ *
+ * The Shopify cart ID lives in an HTTP-only cookie so a visitor keeps one cart across
+ * the avatar and signature pages and can check out both in a single order. Every request runs
+ * `@inContext` of the visitor's market, and the cart's buyer identity is kept on the same country
+ * so the checkout URL charges in that market's currency.
+ */
+
+import { cookies } from "next/headers"
+import { z } from "zod"
+import type { CartDiscount, CartLineInput, CartSummary } from "./index"
+import type { Market } from "./markets"
+import { getMarketContext } from "./markets"
+import { getSessionMarket } from "./market-session"
+import {
+  CART_BUYER_IDENTITY_UPDATE_MUTATION,
+  CART_CREATE_MUTATION,
+  CART_DISCOUNT_CODES_UPDATE_MUTATION,
+  CART_LINES_ADD_MUTATION,
+  CART_LINES_REMOVE_MUTATION,
+  CART_LINES_UPDATE_MUTATION,
+  CART_QUERY,
+} from "./operations"
+import type {
+  CartBuyerIdentityUpdateMutation,
+  CartBuyerIdentityUpdateMutationVariables,
+  CartCreateMutation,
+  CartCreateMutationVariables,
+  CartDiscountCodesUpdateMutation,
+  CartDiscountCodesUpdateMutationVariables,
+  CartLinesAddMutation,
+  CartLinesAddMutationVariables,
+  CartLinesRemoveMutation,
+  CartLinesRemoveMutationVariables,
+  CartLinesUpdateMutation,
+  CartLinesUpdateMutationVariables,
+  CartQuery,
+  CartQueryVariables,
+  CartSummaryFragment,
+} from "./storefront.generated"
+import { storefrontRequest, StorefrontError } from "./storefront"
+import { invalidateCatalog } from "./catalog"
+
+export const CART_COOKIE = "lumio_cart"
+
+// Shopify expires carts 10 days after their last update
+const CART_COOKIE_MAX_AGE = 60 * 60 * 24 * 10
+
+// How long a repeated request with the same Idempotency-Key gets the original result
+const IDEMPOTENCY_WINDOW_MS = 60 * 1000
+
+const idempotentResults = new Map<string, { result: Promise<CartSummary>; expiresAt: number }>()
+
+// Validates lines sent by the browser before they reach Shopify
+export const cartLineInputSchema = z.object({
+  merchandiseId: z.string().startsWith("gid://shopify/ProductVariant/"),
+  quantity: z.number().int().min(1).default(1),
+  attributes: z.array(z.object({ key: z.string(), value: z.string() })).default([]),
+  sellingPlanId: z.string().startsWith("gid://shopify/SellingPlan/").optional(),
+})
+
+export const discountCodeSchema = z.string().trim().min(1).max(255)
+
+interface CartUserError {
+  field: string[] | null
+  message: string
+}
+
+/**
+ * Totals the cart-level and line-level discount allocations per code or discount title
+ */
+function summarizeDiscounts(cart: CartSummaryFragment): CartDiscount[] {
+  const allocations = [...cart.discountAllocations, ...cart.lines.nodes.flatMap((line) => line.discountAllocations)]
+  const totals = new Map<string, number>()
+
+  for (const allocation of allocations) {
+    const title = "code" in allocation ? allocation.code : allocation.title
+    totals.set(title, (totals.get(title) ?? 0) + Number.parseFloat(allocation.discountedAmount.amount))
+  }
+
+  return [...totals].map(([title, amount]) => ({ title, amount: amount.toFixed(2) }))
+}
+
+/**
+ * Maps a `CartSummary` fragment to the shape the cart drawer renders
+ */
+function toCartSummary(cart: CartSummaryFragment): CartSummary {
+  return {
+    id: cart.id,
+    checkoutUrl: cart.checkoutUrl,
+    totalQuantity: cart.totalQuantity,
+    subtotal: cart.cost.subtotalAmount.amount,
+    total: cart.cost.totalAmount.amount,
+    currencyCode: cart.cost.totalAmount.currencyCode,
+    countryCode: cart.buyerIdentity.countryCode,
+    discountCodes: cart.discountCodes,
+    discounts: summarizeDiscounts(cart),
+    lines: cart.lines.nodes.map((line) => ({
+      id: line.id,
+      quantity: line.quantity,
+      merchandiseId: line.merchandise.id,
+      productTitle: line.merchandise.product.title,
+      variantTitle: line.merchandise.title,
+      total: line.cost.totalAmount.amount,
+      sellingPlanName: line.sellingPlanAllocation?.sellingPlan.name ?? null,
+      attributes: line.attributes,
+    })),
+  }
+}
+
+/**
+ * Unwraps a cart mutation payload, turning user errors into a `StorefrontError`
+ *
+ * Errors about a line's merchandise (a deleted or sold-out variant) are reported as `VARIANT_NOT_FOUND`,
+ * since the buyer has to pick something else rather than fix their cart.
+ */
+function unwrapCartPayload(
+  payload: { cart: CartSummaryFragment | null; userErrors: CartUserError[] } | null,
+  action: string,
+): CartSummary {
+  if (payload?.userErrors.length) {
+    console.error(`Shopify cart user errors (${action}):`, payload.userErrors)
+    const isVariantError = payload.userErrors.some((userError) => userError.field?.includes("merchandiseId"))
+    throw new StorefrontError(
+      `Cart ${action} errors`,
+      400,
+      payload.userErrors,
+      isVariantError ? "VARIANT_NOT_FOUND" : "CART_USER_ERROR",
+    )
+  }
+
+  if (!payload?.cart) {
+    throw new StorefrontError("Invalid cart response from Shopify", 500)
+  }
+
+  return toCartSummary(payload.cart)
+}
+
+/**
+ * Reads the cart ID from the session cookie
+ */
+export async function getCartId(): Promise<string | undefined> {
+  const cookieStore = await cookies()
+  return cookieStore.get(CART_COOKIE)?.value
+}
+
+async function setCartId(cartId: string) {
+  const cookieStore = await cookies()
+  cookieStore.set(CART_COOKIE, cartId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: CART_COOKIE_MAX_AGE,
+  })
+}
+
+async function clearCartId() {
+  const cookieStore = await cookies()
+  cookieStore.delete(CART_COOKIE)
+}
+
+/**
+ * Returns the session cart, or `null` when there is none or Shopify no longer has it
+ */
+export async function getSessionCart(): Promise<CartSummary | null> {
+  const cartId = await getCartId()
+  if (!cartId) return null
+
+  const market = await getSessionMarket()
+  const data = await storefrontRequest<CartQuery, CartQueryVariables>(CART_QUERY, {
+    cartId,
+    ...getMarketContext(market),
+  })
+
+  if (!data.cart) {
+    // The cart expired or was checked out
+    await clearCartId()
+    return null
+  }
+
+  return toCartSummary(data.cart)
+}
+
+/**
+ * Checks whether a cart error was caused by a selling plan Shopify no longer offers
+ */
+function isSellingPlanError(error: unknown): error is StorefrontError {
+  if (!(error instanceof StorefrontError) || !Array.isArray(error.details)) return false
+
+  return (error.details as CartUserError[]).some(
+    (userError) => userError.field?.includes("sellingPlanId") || /selling plan/i.test(userError.message),
+  )
+}
+
+/**
+ * Runs a cart change, retrying without selling plans if Shopify rejects one
+ *
+ * Calculators can offer a plan that was removed in Shopify since the catalog was cached. Rather than failing
+ * checkout, the lines are added at full price and the catalog is refreshed so the plan stops being offered.
+ */
+async function withSellingPlanFallback(
+  lines: CartLineInput[],
+  action: (lines: CartLineInput[]) => Promise<CartSummary>,
+): Promise<CartSummary> {
+  try {
+    return await action(lines)
+  } catch (error) {
+    if (!isSellingPlanError(error) || !lines.some((line) => line.sellingPlanId)) throw error
+
+    console.warn("Selling plan no longer available, adding lines without it:", error.details)
+    invalidateCatalog()
+
+    return action(lines.map(({ sellingPlanId: _sellingPlanId, ...line }) => line))
+  }
+}
+
+/**
+ * Adds lines to the session cart, creating a new cart when the session has none
+ *
+ * @param lines - The lines to add
+ * @param discountCodes - Codes to apply alongside the lines, kept together with any codes already on the cart
+ */
+export async function addSessionCartLines(lines: CartLineInput[], discountCodes: string[] = []): Promise<CartSummary> {
+  const market = await getSessionMarket()
+  let existingCart = await getSessionCart()
+
+  // Carts created before the visitor switched markets still check out in the old currency
+  if (existingCart && existingCart.countryCode !== market.country) {
+    existingCart = await updateCartMarket(existingCart.id, market)
+  }
+
+  if (existingCart) {
+    const cartId = existingCart.id
+    const cart = await withSellingPlanFallback(lines, async (lines) => {
+      const data = await storefrontRequest<CartLinesAddMutation, CartLinesAddMutationVariables>(
+        CART_LINES_ADD_MUTATION,
+        { cartId, lines, ...getMarketContext(market) },
+      )
+      return unwrapCartPayload(data.cartLinesAdd, "add")
+    })
+
+    return discountCodes.length > 0 ? applyDiscountCodes(cart, discountCodes, market) : cart
+  }
+
+  const cart = await withSellingPlanFallback(lines, async (lines) => {
+    const data = await storefrontRequest<CartCreateMutation, CartCreateMutationVariables>(CART_CREATE_MUTATION, {
+      input: { lines, discountCodes, buyerIdentity: { countryCode: market.country } },
+      ...getMarketContext(market),
+    })
+    return unwrapCartPayload(data.cartCreate, "creation")
+  })
+  await setCartId(cart.id)
+  return cart
+}
+
+/**
+ * Adds discount codes to a cart without dropping the codes it already has
+ */
+async function applyDiscountCodes(cart: CartSummary, discountCodes: string[], market: Market): Promise<CartSummary> {
+  const codes = [...new Set([...cart.discountCodes.map((discountCode) => discountCode.code), ...discountCodes])]
+
+  const data = await storefrontRequest<CartDiscountCodesUpdateMutation, CartDiscountCodesUpdateMutationVariables>(
+    CART_DISCOUNT_CODES_UPDATE_MUTATION,
+    { cartId: cart.id, discountCodes: codes, ...getMarketContext(market) },
+  )
+  return unwrapCartPayload(data.cartDiscountCodesUpdate, "discount update")
+}
+
+/**
+ * Prices lines with a discount code in a throwaway cart that is never stored in the session
+ *
+ * Used to check a promo code in the calculators before anything is added to the real cart.
+ */
+export async function previewCartDiscount(lines: CartLineInput[], discountCode: string): Promise<CartSummary> {
+  const market = await getSessionMarket()
+
+  return withSellingPlanFallback(lines, async (lines) => {
+    const data = await storefrontRequest<CartCreateMutation, CartCreateMutationVariables>(CART_CREATE_MUTATION, {
+      input: { lines, discountCodes: [discountCode], buyerIdentity: { countryCode: market.country } },
+      ...getMarketContext(market),
+    })
+    return unwrapCartPayload(data.cartCreate, "discount preview")
+  })
+}
+
+/**
+ * Changes the quantity of lines in the session cart
+ */
+export async function updateSessionCartLines(lines: Array<{ id: string; quantity: number }>): Promise<CartSummary> {
+  const cartId = await getCartId()
+  if (!cartId) {
+    throw new StorefrontError("Cart not found", 404, undefined, "CART_NOT_FOUND")
+  }
+
+  const market = await getSessionMarket()
+  const data = await storefrontRequest<CartLinesUpdateMutation, CartLinesUpdateMutationVariables>(
+    CART_LINES_UPDATE_MUTATION,
+    { cartId, lines, ...getMarketContext(market) },
+  )
+  return unwrapCartPayload(data.cartLinesUpdate, "update")
+}
+
+/**
+ * Removes lines from the session cart
+ */
+export async function removeSessionCartLines(lineIds: string[]): Promise<CartSummary> {
+  const cartId = await getCartId()
+  if (!cartId) {
+    throw new StorefrontError("Cart not found", 404, undefined, "CART_NOT_FOUND")
+  }
+
+  const market = await getSessionMarket()
+  const data = await storefrontRequest<CartLinesRemoveMutation, CartLinesRemoveMutationVariables>(
+    CART_LINES_REMOVE_MUTATION,
+    { cartId, lineIds, ...getMarketContext(market) },
+  )
+  return unwrapCartPayload(data.cartLinesRemove, "removal")
+}
+
+/**
+ * Moves a cart to a market, so its prices and checkout switch to that market's currency
+ */
+async function updateCartMarket(cartId: string, market: Market): Promise<CartSummary> {
+  console.log(`Moving cart to market: ${market.country}`)
+
+  const data = await storefrontRequest<CartBuyerIdentityUpdateMutation, CartBuyerIdentityUpdateMutationVariables>(
+    CART_BUYER_IDENTITY_UPDATE_MUTATION,
+    { cartId, buyerIdentity: { countryCode: market.country }, ...getMarketContext(market) },
+  )
+  return unwrapCartPayload(data.cartBuyerIdentityUpdate, "market update")
+}
+
+/**
+ * Moves the session cart, if there is one, to a market
+ */
+export async function updateSessionCartMarket(market: Market): Promise<CartSummary | null> {
+  const cartId = await getCartId()
+  if (!cartId) return null
+
+  return updateCartMarket(cartId, market)
+}
+
+/**
+ * Runs a cart change at most once per Idempotency-Key within `IDEMPOTENCY_WINDOW_MS`.
+ *
+ * A double-clicked "Get Started" sends the same key twice; the second request waits for and
+ * returns the first one's cart instead of creating another cart or adding the line again.
+ */
+export async function withIdempotency(
+  key: string | null,
+  action: () => Promise<CartSummary>,
+): Promise<CartSummary> {
+  if (!key) return action()
+
+  const now = Date.now()
+  for (const [storedKey, entry] of idempotentResults) {
+    if (entry.expiresAt <= now) idempotentResults.delete(storedKey)
+  }
+
+  // Scope keys to the session so one visitor's key can never return another visitor's cart
+  const cartId = await getCartId()
+  const scopedKey = `${cartId ?? "new"}:${key}`
+
+  const existing = idempotentResults.get(scopedKey)
+  if (existing) return existing.result
+
+  const result = action()
+  const entry = { result, expiresAt: now + IDEMPOTENCY_WINDOW_MS }
+  idempotentResults.set(scopedKey, entry)
+
+  result.then(
+    // The first add creates the cart and sets its cookie, so a retry comes back scoped to the new cart
+    (cart) => {
+      if (!cartId) idempotentResults.set(`${cart.id}:${key}`, entry)
+    },
+    // Let the request be retried if it failed
+    () => idempotentResults.delete(scopedKey),
+  )
+
+  return result
+}
@@ -0,0 +1,143 @@
+/**
+ * Server-side product catalog cache.
+ *
+ * Collections are cached per handle and market in the Next.js data cache for `CATALOG_TTL_SECONDS`,
+ * so calculator visits don't each hit Shopify. `/api/shopify/webhooks` clears the cache as
+ * soon as products or collections change in Shopify admin.
+ */
+
+import { revalidateTag, unstable_cache } from "next/cache"
+import { CATALOG_COLLECTIONS, toShopifyProduct } from "./index"
+import type { CartLineInput, CatalogCollection, ShopifyProduct } from "./index"
+import type { Market } from "./markets"
+import { DEFAULT_MARKET, getMarketContext } from "./markets"
+import { COLLECTION_BY_HANDLE_QUERY } from "./operations"
+import type { CollectionByHandleQuery, CollectionByHandleQueryVariables } from "./storefront.generated"
+import { StorefrontError, storefrontRequest } from "./storefront"
+import type { BundleRule } from "@/lib/bundles"
+import { findBundleRule } from "@/lib/bundles"
+
+// Upper bound on staleness if a webhook is missed
+export const CATALOG_TTL_SECONDS = 60 * 15
+
+// Tag shared by every cached collection
+export const CATALOG_CACHE_TAG = "shopify-catalog"
+
+/**
+ * Cache tag for a single collection
+ */
+export function catalogCollectionTag(handle: CatalogCollection): string {
+  return `${CATALOG_CACHE_TAG}:${handle}`
+}
+
+/**
+ * Returns the `CollectionByHandle` response for a catalog collection, priced for a market and
+ * served from cache when fresh
+ */
+export async function getCachedCollection(
+  handle: CatalogCollection,
+  market: Market = DEFAULT_MARKET,
+): Promise<CollectionByHandleQuery> {
+  const loadCollection = unstable_cache(
+    async () => {
+      console.log(`Catalog cache miss, fetching collection from Shopify: ${handle} (${market.country})`)
+      return storefrontRequest<CollectionByHandleQuery, CollectionByHandleQueryVariables>(COLLECTION_BY_HANDLE_QUERY, {
+        handle,
+        ...getMarketContext(market),
+      })
+    },
+    ["shopify-collection", handle, market.country],
+    {
+      revalidate: CATALOG_TTL_SECONDS,
+      tags: [CATALOG_CACHE_TAG, catalogCollectionTag(handle)],
+    },
+  )
+
+  return loadCollection()
+}
+
+/**
+ * Returns the products of a catalog collection priced for a market, served from cache when fresh
+ */
+export async function getCatalogProducts(
+  handle: CatalogCollection,
+  market: Market = DEFAULT_MARKET,
+): Promise<ShopifyProduct[]> {
+  const data = await getCachedCollection(handle, market)
+
+  if (!data.collection) {
+    throw new Error(`Collection not found: ${handle}`)
+  }
+
+  return data.collection.products.nodes.map(toShopifyProduct)
+}
+
+/**
+ * Clears one cached collection, or the whole catalog when no handle is given
+ */
+export function invalidateCatalog(handle?: CatalogCollection) {
+  const tag = handle ? catalogCollectionTag(handle) : CATALOG_CACHE_TAG
+  console.log(`Invalidating catalog cache: ${tag}`)
+  revalidateTag(tag)
+}
+
+/**
+ * Loads catalog products for server rendering, returning `null` when Shopify is unreachable
+ * so the calculator can fall back to fetching in the browser
+ */
+export async function loadCatalogProducts(
+  handle: CatalogCollection,
+  market: Market = DEFAULT_MARKET,
+): Promise<ShopifyProduct[] | null> {
+  try {
+    return await getCatalogProducts(handle, market)
+  } catch (error) {
+    console.error(`Error loading catalog for server render: ${handle}`, error)
+    return null
+  }
+}
+
+/**
+ * Checks that cart lines are the avatar and signature pair a bundle rule covers, so its discount code can
+ * only be applied to a real bundle
+ *
+ * The signature's user count is read from its "User Count" attribute, falling back to the variant's.
+ *
+ * @throws {StorefrontError} `INVALID_REQUEST` when the lines aren't one avatar and one signature package that
+ * `findBundleRule` matches to `bundle`
+ */
+export async function assertBundleLines(bundle: BundleRule, lines: CartLineInput[]): Promise<void> {
+  const [signatures, avatars] = await Promise.all([
+    getCatalogProducts(CATALOG_COLLECTIONS.signatures),
+    getCatalogProducts(CATALOG_COLLECTIONS.avatars),
+  ])
+
+  const findLine = (products: ShopifyProduct[]) =>
+    lines.flatMap((line) => {
+      const product = products.find((product) => product.variants.some((variant) => variant.id === line.merchandiseId))
+      const variant = product?.variants.find((variant) => variant.id === line.merchandiseId)
+      return product && variant ? [{ line, product, variant }] : []
+    })
+
+  const avatarLines = findLine(avatars)
+  const signatureLines = findLine(signatures)
+  const [avatar] = avatarLines
+  const [signature] = signatureLines
+
+  const userCountAttribute = signature?.line.attributes?.find((attribute) => attribute.key === "User Count")
+  const userCount = userCountAttribute ? Number.parseInt(userCountAttribute.value, 10) : signature?.variant.userCount
+
+  const rule =
+    lines.length === 2 && avatarLines.length === 1 && signatureLines.length === 1 && userCount
+      ? findBundleRule(avatar.product.package.tier, signature.product.package.tier, userCount)
+      : null
+
+  if (rule?.id !== bundle.id) {
+    throw new StorefrontError(
+      `${bundle.name} doesn't apply to these cart lines`,
+      400,
+      { bundleId: bundle.id, lines: lines.map((line) => line.merchandiseId) },
+      "INVALID_REQUEST",
+    )
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Error codes shared by the Shopify routes and the browser.
+ *
+ * Route handlers answer failures with `{ error, code, details }`, and the calculators turn the code into a
+ * message a buyer can act on with `getShopifyErrorMessage` instead of showing Shopify's status.
+ */
+
+export const SHOPIFY_ERROR_CODES = [
+  // The packages and prices couldn't be loaded
+  "CATALOG_UNAVAILABLE",
+  // The selected package has no variant for the user count, or Shopify no longer sells it
+  "VARIANT_NOT_FOUND",
+  // Shopify rejected a cart change (`userErrors`)
+  "CART_USER_ERROR",
+  // The session cart expired or was checked out
+  "CART_NOT_FOUND",
+  // The production week reserved on a cart line filled up after the calculator loaded
+  "CAPACITY_UNAVAILABLE",
+  // Shopify throttled us and waiting it out would take too long
+  "RATE_LIMITED",
+  // Shopify is down or unreachable, or the circuit breaker is open
+  "SHOPIFY_UNAVAILABLE",
+  // The request from the browser failed validation
+  "INVALID_REQUEST",
+  // Anything else, such as GraphQL errors or a missing access token
+  "SHOPIFY_ERROR",
+] as const
+
+export type ShopifyErrorCode = (typeof SHOPIFY_ERROR_CODES)[number]
+
+const FRIENDLY_MESSAGES: Record<ShopifyErrorCode, string> = {
+  CATALOG_UNAVAILABLE:
+    "We couldn't load our packages and prices right now. Please refresh the page in a minute, or contact us to order.",
+  VARIANT_NOT_FOUND:
+    "That package isn't available for this many users. Refresh the page to see current options, or request a quote.",
+  CART_USER_ERROR: "We couldn't add this to your cart.",
+  CART_NOT_FOUND: "Your cart has expired. Add your package again to start a new one.",
+  CAPACITY_UNAVAILABLE: "That delivery date has just been booked. Check the updated estimate and try again.",
+  RATE_LIMITED: "We're getting a lot of requests right now. Please try again in a few seconds.",
+  SHOPIFY_UNAVAILABLE: "Checkout is temporarily unavailable. Please try again in a minute.",
+  INVALID_REQUEST: "Something about that request wasn't right. Please refresh the page and try again.",
+  SHOPIFY_ERROR: "Something went wrong on our side. Please try again, or contact us if it keeps happening.",
+}
+
+/**
+ * Error carrying a `ShopifyErrorCode`, thrown by the browser helpers in `@/lib/shopify`
+ */
+export class ShopifyApiError extends Error {
+  status: number
+  details?: unknown
+  code: ShopifyErrorCode
+  // Seconds to wait before retrying, from `Retry-After`
+  retryAfter?: number
+
+  constructor(
+    message: string,
+    status: number,
+    details?: unknown,
+    code: ShopifyErrorCode = "SHOPIFY_ERROR",
+    retryAfter?: number,
+  ) {
+    super(message)
+    this.name = "ShopifyApiError"
+    this.status = status
+    this.details = details
+    this.code = code
+    this.retryAfter = retryAfter
+  }
+}
+
+/**
+ * Checks whether a value from an error response is a known error code
+ */
+export function isShopifyErrorCode(value: unknown): value is ShopifyErrorCode {
+  return typeof value === "string" && (SHOPIFY_ERROR_CODES as readonly string[]).includes(value)
+}
+
+/**
+ * Reads a `Retry-After` header, given either in seconds or as an HTTP date, as whole seconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds))
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000))
+}
+
+/**
+ * Builds a `ShopifyApiError` from a failed response of one of our Shopify routes
+ */
+export async function readShopifyApiError(response: Response): Promise<ShopifyApiError> {
+  const data = await response.json().catch(() => null)
+
+  return new ShopifyApiError(
+    data?.error || `API error: ${response.status}`,
+    response.status,
+    data?.details,
+    isShopifyErrorCode(data?.code) ? data.code : "SHOPIFY_ERROR",
+    parseRetryAfter(response.headers.get("Retry-After")),
+  )
+}
+
+/**
+ * Message to show a buyer for an error from the Shopify helpers
+ *
+ * @example
+ * setError(getShopifyErrorMessage(error)) // "Your cart has expired. Add your package again to start a new one."
+ */
+export function getShopifyErrorMessage(error: unknown): string {
+  if (!(error instanceof ShopifyApiError)) return FRIENDLY_MESSAGES.SHOPIFY_ERROR
+
+  const message = FRIENDLY_MESSAGES[error.code]
+
+  // Shopify's user errors are written for buyers, e.g. "Variant can only be purchased with a selling plan."
+  if (error.code === "CART_USER_ERROR" && Array.isArray(error.details)) {
+    const userError = error.details.find((detail) => typeof detail?.message === "string")
+    if (userError) return `${message} ${userError.message}`
+  }
+
+  if (error.code === "RATE_LIMITED" && error.retryAfter) {
+    return `We're getting a lot of requests right now. Please try again in ${error.retryAfter} seconds.`
+  }
+
+  return message
+}
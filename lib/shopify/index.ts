@@ -0,0 +1,414 @@
+/**
+ * Shopify API utilities for the Lumio pricing calculator
+ */
+
+import { readShopifyApiError, ShopifyApiError } from "./errors"
+import type { Market } from "./markets"
+import { DEFAULT_MARKET, getMarketContext } from "./markets"
+import type { PersistedOperationName, PersistedOperations } from "./operations"
+import type { PackageSettings } from "./packages"
+import type { ProductionSchedule } from "@/lib/capacity"
+import { toPackageSettings, toVariantUserCount } from "./packages"
+import type {
+  AttributeInput,
+  CalculatorProductFragment,
+  CountryCode,
+  CurrencyCode,
+  SellingPlanCheckoutChargeType,
+  SellingPlanInterval,
+} from "./storefront.generated"
+
+// Collection handles for the catalogs sold on the site
+export const CATALOG_COLLECTIONS = {
+  signatures: "email-signatures",
+  avatars: "email-avatars",
+} as const
+
+export type CatalogCollection = (typeof CATALOG_COLLECTIONS)[keyof typeof CATALOG_COLLECTIONS]
+
+// Types for Shopify API responses
+export interface ShopifyProduct {
+  id: string
+  title: string
+  description: string
+  variants: ShopifyVariant[]
+  handle: string
+  // Tier, display order, visibility and user-count limits from `lumio.*` metafields
+  package: PackageSettings
+  // When true the product can only be bought through one of its selling plans
+  requiresSellingPlan: boolean
+  sellingPlans: ShopifySellingPlan[]
+}
+
+export interface ShopifySellingPlan {
+  id: string
+  name: string
+  description: string | null
+  groupName: string
+  // What is charged at checkout: a percentage of the price or a fixed amount
+  checkoutCharge: { type: SellingPlanCheckoutChargeType; value: number }
+  // Set for plans billed on a schedule, such as installments
+  billingInterval: { interval: SellingPlanInterval; count: number } | null
+}
+
+export interface ShopifyVariant {
+  id: string
+  title: string
+  price: string
+  currencyCode: CurrencyCode
+  available: boolean
+  selectedOptions: Array<{
+    name: string
+    value: string
+  }>
+  // Users this variant covers, or null when it isn't priced per user
+  userCount: number | null
+}
+
+export type CartAttribute = AttributeInput
+
+export interface CartLineInput {
+  merchandiseId: string
+  quantity: number
+  attributes?: CartAttribute[]
+  sellingPlanId?: string
+}
+
+export interface CartLine {
+  id: string
+  quantity: number
+  merchandiseId: string
+  productTitle: string
+  variantTitle: string
+  total: string
+  sellingPlanName: string | null
+  attributes: Array<{ key: string; value: string | null }>
+}
+
+export interface CartDiscount {
+  // The discount code, or the title of an automatic discount
+  title: string
+  amount: string
+}
+
+export interface AddToCartOptions {
+  bundleId?: string
+  discountCode?: string
+}
+
+export interface CartSummary {
+  id: string
+  checkoutUrl: string
+  totalQuantity: number
+  subtotal: string
+  total: string
+  currencyCode: CurrencyCode
+  // Market the cart is priced and checked out in
+  countryCode: CountryCode | null
+  discountCodes: Array<{ code: string; applicable: boolean }>
+  discounts: CartDiscount[]
+  lines: CartLine[]
+}
+
+/**
+ * Maps a `CalculatorProduct` fragment from the Storefront API to the calculator product shape
+ */
+export function toShopifyProduct(product: CalculatorProductFragment): ShopifyProduct {
+  return {
+    id: product.id,
+    title: product.title,
+    description: product.description,
+    handle: product.handle,
+    package: toPackageSettings(product),
+    requiresSellingPlan: product.requiresSellingPlan,
+    sellingPlans: product.sellingPlanGroups.nodes.flatMap((group) =>
+      group.sellingPlans.nodes.map((plan) => ({
+        id: plan.id,
+        name: plan.name,
+        description: plan.description,
+        groupName: group.name,
+        checkoutCharge: {
+          type: plan.checkoutCharge.type,
+          value:
+            "percentage" in plan.checkoutCharge.value
+              ? plan.checkoutCharge.value.percentage
+              : Number.parseFloat(plan.checkoutCharge.value.amount),
+        },
+        billingInterval: plan.billingPolicy
+          ? { interval: plan.billingPolicy.interval, count: plan.billingPolicy.intervalCount }
+          : null,
+      })),
+    ),
+    variants: product.variants.nodes.map((variant) => ({
+      id: variant.id,
+      title: variant.title,
+      price: variant.price.amount,
+      currencyCode: variant.price.currencyCode,
+      available: variant.availableForSale,
+      selectedOptions: variant.selectedOptions,
+      userCount: toVariantUserCount(variant),
+    })),
+  }
+}
+
+/**
+ * Runs a persisted Storefront operation by name through the `/api/shopify` proxy and returns its `data`
+ */
+async function requestStorefront<TName extends PersistedOperationName>(
+  operation: TName,
+  variables: PersistedOperations[TName]["variables"],
+): Promise<PersistedOperations[TName]["data"]> {
+  const response = await fetch("/api/shopify", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ operation, variables }),
+  })
+
+  if (!response.ok) {
+    const error = await readShopifyApiError(response)
+    console.error(`API error (${response.status}):`, error.message)
+    throw error
+  }
+
+  const data = await response.json()
+
+  if (!data.data) {
+    throw new ShopifyApiError("Unexpected API response structure", 500, undefined, "CATALOG_UNAVAILABLE")
+  }
+
+  return data.data
+}
+
+/**
+ * Fetches products from a specific collection by handle, priced for a market (browser only)
+ */
+export async function getProductsByCollection(
+  handle: CatalogCollection,
+  market: Market = DEFAULT_MARKET,
+): Promise<ShopifyProduct[]> {
+  try {
+    console.log(`Fetching products from collection: ${handle} (${market.country})`)
+
+    // Server code should read the cached catalog directly instead of calling back into our own API
+    if (typeof window === "undefined") {
+      throw new Error("getProductsByCollection is browser-only; use getCatalogProducts from @/lib/shopify/catalog")
+    }
+
+    const data = await requestStorefront("CollectionByHandle", { handle, ...getMarketContext(market) })
+
+    const collection = data.collection
+    if (!collection) {
+      throw new ShopifyApiError(`Collection not found: ${handle}`, 404, undefined, "CATALOG_UNAVAILABLE")
+    }
+
+    console.log(`Found collection: ${collection.title}`)
+
+    if (collection.products.nodes.length === 0) {
+      throw new ShopifyApiError(
+        `No products found in collection: ${collection.title}`,
+        404,
+        undefined,
+        "CATALOG_UNAVAILABLE",
+      )
+    }
+
+    const products = collection.products.nodes.map(toShopifyProduct)
+
+    console.log(`Found ${products.length} products in collection ${collection.title}`)
+    return products
+  } catch (error) {
+    console.error("Error fetching products from collection:", error)
+    throw error
+  }
+}
+
+// Add-to-cart requests still waiting on the server, keyed by payload
+const pendingCartAdds = new Map<string, Promise<CartSummary>>()
+
+// Idempotency-Key of each add that hasn't succeeded yet, keyed by payload, so a retry is recognised as a repeat
+const cartAddKeys = new Map<string, string>()
+
+/**
+ * Sends a cart change to the session cart routes and returns the updated cart
+ */
+async function requestCart(
+  path: string,
+  method: string,
+  body?: unknown,
+  headers: Record<string, string> = {},
+): Promise<CartSummary> {
+  const response = await fetch(path, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      ...headers,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+
+  if (!response.ok) {
+    throw await readShopifyApiError(response)
+  }
+
+  const data = await response.json()
+
+  if (!data.cart?.id || !data.cart?.checkoutUrl) {
+    throw new ShopifyApiError("Invalid cart response", 500)
+  }
+
+  return data.cart
+}
+
+/**
+ * Fetches the visitor's session cart, or `null` when they don't have one yet
+ */
+export async function getCart(): Promise<CartSummary | null> {
+  try {
+    const response = await fetch("/api/shopify/cart")
+
+    if (!response.ok) {
+      throw await readShopifyApiError(response)
+    }
+
+    const data = await response.json()
+    return data.cart ?? null
+  } catch (error) {
+    console.error("Error fetching cart:", error)
+    throw error
+  }
+}
+
+/**
+ * Adds lines to the session cart, creating the cart on first use
+ *
+ * Identical calls made while one is in flight (e.g. a double-click) share a single request. The request
+ * carries an Idempotency-Key that is reused for the same lines until an add succeeds, so a retry after a
+ * timeout gets the original result from the server instead of adding the lines again.
+ *
+ * @param lines - The lines to add
+ * @param options.bundleId - A rule from `BUNDLE_RULES` whose discount the server should apply to the cart
+ * @param options.discountCode - A promo code to apply to the cart along with the lines
+ */
+export async function addToCart(lines: CartLineInput[], options: AddToCartOptions = {}): Promise<CartSummary> {
+  const payload = { lines, ...options }
+  const payloadKey = JSON.stringify(payload)
+  const pending = pendingCartAdds.get(payloadKey)
+  if (pending) return pending
+
+  const idempotencyKey = cartAddKeys.get(payloadKey) ?? crypto.randomUUID()
+  cartAddKeys.set(payloadKey, idempotencyKey)
+
+  const request = requestCart("/api/shopify/cart/lines", "POST", payload, { "Idempotency-Key": idempotencyKey })
+    .then((cart) => {
+      // The next add of the same lines is a new one
+      cartAddKeys.delete(payloadKey)
+      return cart
+    })
+    .catch((error) => {
+      console.error("Error adding to cart:", error)
+      throw error
+    })
+    .finally(() => pendingCartAdds.delete(payloadKey))
+
+  pendingCartAdds.set(payloadKey, request)
+  return request
+}
+
+/**
+ * Prices lines with a promo code applied, without touching the session cart
+ *
+ * @returns A preview cart whose `discountCodes` say whether the code applies and whose totals include the discount
+ */
+export async function previewDiscountCode(code: string, lines: CartLineInput[]): Promise<CartSummary> {
+  try {
+    return await requestCart("/api/shopify/cart/discount-codes", "POST", { code, lines })
+  } catch (error) {
+    console.error("Error checking discount code:", error)
+    throw error
+  }
+}
+
+/**
+ * Sets the quantity of a line in the session cart
+ */
+export async function updateCartLine(lineId: string, quantity: number): Promise<CartSummary> {
+  try {
+    return await requestCart("/api/shopify/cart/lines", "PATCH", { lines: [{ id: lineId, quantity }] })
+  } catch (error) {
+    console.error("Error updating cart line:", error)
+    throw error
+  }
+}
+
+/**
+ * Removes lines from the session cart
+ */
+export async function removeCartLines(lineIds: string[]): Promise<CartSummary> {
+  try {
+    return await requestCart("/api/shopify/cart/lines", "DELETE", { lineIds })
+  } catch (error) {
+    console.error("Error removing cart lines:", error)
+    throw error
+  }
+}
+
+/**
+ * Switches the visitor's market, moving their session cart to its currency
+ *
+ * @returns The session cart repriced in the new market, or `null` when the visitor has no cart
+ */
+export async function setMarket(market: Market): Promise<CartSummary | null> {
+  try {
+    const response = await fetch("/api/shopify/market", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ country: market.country }),
+    })
+
+    if (!response.ok) {
+      throw await readShopifyApiError(response)
+    }
+
+    const data = await response.json()
+    return data.cart ?? null
+  } catch (error) {
+    console.error("Error changing market:", error)
+    throw error
+  }
+}
+
+/**
+ * Fetches the standard and rush production slots for the packages in a catalog collection
+ */
+export async function getProductionSchedules(collection: CatalogCollection): Promise<ProductionSchedule[]> {
+  try {
+    const response = await fetch(`/api/shopify/capacity?collection=${collection}`)
+
+    if (!response.ok) {
+      throw await readShopifyApiError(response)
+    }
+
+    const data = await response.json()
+    return data.schedules
+  } catch (error) {
+    console.error("Error fetching production schedule:", error)
+    throw error
+  }
+}
+
+/**
+ * Fetches all animation packages products and their variants
+ */
+export async function getAnimationPackages(): Promise<ShopifyProduct[]> {
+  try {
+    const data = await requestStorefront("Products", {})
+    return data.products.nodes.map(toShopifyProduct)
+  } catch (error) {
+    console.error("Error fetching animation packages:", error)
+    throw error
+  }
+}
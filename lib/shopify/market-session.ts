@@ -0,0 +1,34 @@
+/**
+ * Server-side market session.
+ *
+ * The visitor's chosen market is kept in a cookie so server-rendered calculators, the catalog
+ * cache and the session cart all price in the same currency.
+ */
+
+import { cookies } from "next/headers"
+import type { Market } from "./markets"
+import { getMarket, MARKET_COOKIE } from "./markets"
+
+const MARKET_COOKIE_MAX_AGE = 60 * 60 * 24 * 365
+
+/**
+ * Returns the visitor's chosen market, or the default market when they haven't picked one
+ */
+export async function getSessionMarket(): Promise<Market> {
+  const cookieStore = await cookies()
+  return getMarket(cookieStore.get(MARKET_COOKIE)?.value)
+}
+
+/**
+ * Stores the visitor's chosen market
+ */
+export async function setSessionMarket(market: Market) {
+  const cookieStore = await cookies()
+  cookieStore.set(MARKET_COOKIE, market.country, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: MARKET_COOKIE_MAX_AGE,
+  })
+}
@@ -0,0 +1,81 @@
+/**
+ * Markets the calculators can price in.
+ *
+ * Each market's country is passed to the Storefront API through `@inContext`, so Shopify returns
+ * prices converted (or fixed) for that market in Shopify admin, and the cart's buyer identity is set
+ * to the same country so checkout charges in that currency. Every country listed here must belong
+ * to an active market in Shopify admin (Settings > Markets), otherwise Shopify falls back to USD.
+ */
+
+import type { CartSummary } from "./index"
+import type { CountryCode, CurrencyCode, LanguageCode } from "./storefront.generated"
+
+export interface Market {
+  country: CountryCode
+  language: LanguageCode
+  currencyCode: CurrencyCode
+  // BCP 47 locale used to format prices for buyers in this market
+  locale: string
+  label: string
+}
+
+export const MARKETS: Market[] = [
+  { country: "US", language: "EN", currencyCode: "USD", locale: "en-US", label: "United States (USD $)" },
+  { country: "CA", language: "EN", currencyCode: "CAD", locale: "en-CA", label: "Canada (CAD $)" },
+  { country: "GB", language: "EN", currencyCode: "GBP", locale: "en-GB", label: "United Kingdom (GBP £)" },
+  { country: "IE", language: "EN", currencyCode: "EUR", locale: "en-IE", label: "Ireland (EUR €)" },
+  { country: "DE", language: "EN", currencyCode: "EUR", locale: "de-DE", label: "Germany (EUR €)" },
+  { country: "FR", language: "EN", currencyCode: "EUR", locale: "fr-FR", label: "France (EUR €)" },
+  { country: "AU", language: "EN", currencyCode: "AUD", locale: "en-AU", label: "Australia (AUD $)" },
+  { country: "NZ", language: "EN", currencyCode: "NZD", locale: "en-NZ", label: "New Zealand (NZD $)" },
+]
+
+// The store's primary market, used until a visitor picks another one
+export const DEFAULT_MARKET = MARKETS[0]
+
+// Cookie holding the visitor's chosen market country
+export const MARKET_COOKIE = "lumio_market"
+
+export const MARKET_COUNTRIES = MARKETS.map((market) => market.country) as [CountryCode, ...CountryCode[]]
+
+/**
+ * Looks up a market by country code, falling back to the default market for unknown countries
+ */
+export function getMarket(country: string | null | undefined): Market {
+  return MARKETS.find((market) => market.country === country) ?? DEFAULT_MARKET
+}
+
+/**
+ * The `@inContext` variables for a market's Storefront requests
+ */
+export function getMarketContext(market: Market): { country: CountryCode; language: LanguageCode } {
+  return { country: market.country, language: market.language }
+}
+
+/**
+ * Formats an amount in a currency for a buyer's locale, dropping the cents from whole amounts
+ *
+ * @example
+ * formatMoney(1499, "EUR", "de-DE") // "1.499 €"
+ * formatMoney("49.50", "GBP", "en-GB") // "£49.50"
+ */
+export function formatMoney(amount: number | string, currencyCode: CurrencyCode, locale: string): string {
+  const value = typeof amount === "string" ? Number.parseFloat(amount) : amount
+
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: currencyCode,
+    minimumFractionDigits: Number.isInteger(value) ? 0 : 2,
+    maximumFractionDigits: 2,
+  }).format(value)
+}
+
+/**
+ * Formats a cart amount in the cart's currency, for the locale of the market the cart is in
+ */
+export function formatCartMoney(
+  amount: number | string,
+  cart: Pick<CartSummary, "currencyCode" | "countryCode">,
+): string {
+  return formatMoney(amount, cart.currencyCode, getMarket(cart.countryCode).locale)
+}
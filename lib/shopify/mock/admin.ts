@@ -0,0 +1,248 @@
+/**
+ * Offline stand-in for the Admin API operations in `admin-operations.ts`.
+ *
+ * Turned on together with the mock Storefront (`SHOPIFY_STOREFRONT_MOCK=true`). Draft orders are kept
+ * in memory for the life of the server process and their invoice URLs don't lead anywhere.
+ *
+ * `MOCK_ORDERS` stand in for orders placed through checkout, for trying out balance payments:
+ * - #1001 (buyer@example.com) paid a 50% deposit and has a balance due
+ * - #1002 (buyer@example.com) was paid in full
+ * - #1003 (buyer@example.com) paid a deposit and was cancelled
+ *
+ * `MOCK_BOOKINGS` stand in for the production slots booked by orders, counted from the current week so
+ * they never fall into the past.
+ */
+
+import type {
+  BalanceOrderFragment,
+  DraftOrderInput,
+  DraftOrderInvoiceSendMutationVariables,
+  DraftOrderUpdateMutationVariables,
+  DraftQuoteFragment,
+  ProductionOrdersQuery,
+  TagsAddMutationVariables,
+} from "../admin-operations"
+import type { CurrencyCode } from "../storefront.generated"
+import type { MockStorefrontResponse } from "./storefront"
+import { addWeeks, getWeekStart, PRODUCTION_WEEK_ATTRIBUTE } from "@/lib/capacity"
+
+type Variables = Record<string, unknown>
+
+const globalForMock = globalThis as typeof globalThis & {
+  lumioMockDraftOrders?: Map<string, DraftQuoteFragment>
+  lumioMockOrders?: Map<string, BalanceOrderFragment>
+}
+const draftOrders = (globalForMock.lumioMockDraftOrders ??= new Map<string, DraftQuoteFragment>())
+
+function moneyBag(amount: number, currencyCode: CurrencyCode) {
+  return { presentmentMoney: { amount: amount.toFixed(2), currencyCode } }
+}
+
+/**
+ * Builds a fixture order for a signature package bought with the 50% deposit plan
+ */
+function mockOrder(
+  number: number,
+  total: number,
+  received: number,
+  currencyCode: CurrencyCode,
+  cancelled = false,
+): BalanceOrderFragment {
+  return {
+    id: `gid://shopify/Order/${number}`,
+    name: `#${number}`,
+    email: "buyer@example.com",
+    tags: [],
+    createdAt: "2026-09-01T10:00:00Z",
+    cancelledAt: cancelled ? "2026-09-03T10:00:00Z" : null,
+    currentTotalPriceSet: moneyBag(total, currencyCode),
+    totalReceivedSet: moneyBag(received, currencyCode),
+    totalOutstandingSet: moneyBag(cancelled ? 0 : total - received, currencyCode),
+    lineItems: {
+      nodes: [{ title: "Premium Signature Animation - 25 Users", quantity: 1, sellingPlan: { name: "50% deposit" } }],
+    },
+  }
+}
+
+const MOCK_ORDERS = [
+  mockOrder(1001, 1250, 625, "USD"),
+  mockOrder(1002, 990, 990, "GBP"),
+  mockOrder(1003, 1250, 625, "USD", true),
+]
+
+/**
+ * Booked orders per package and week, as the quantity of each order's line:
+ * - The Premium signature (3 a week) is fully booked for the next two weeks, so it has no rush slot; next
+ *   week's slots are taken by an order for two packages and one for a single package
+ * - The Starter signature (8 a week) has 2 slots booked next week, leaving room to rush
+ * - The Premium avatar (2 a week) has 1 of its slots booked three weeks out
+ */
+const MOCK_BOOKINGS = [
+  { productId: "gid://shopify/Product/9000103", weeksAhead: 1, quantities: [2, 1] },
+  { productId: "gid://shopify/Product/9000103", weeksAhead: 2, quantities: [1, 1, 1] },
+  { productId: "gid://shopify/Product/9000101", weeksAhead: 1, quantities: [1, 1] },
+  { productId: "gid://shopify/Product/9000203", weeksAhead: 3, quantities: [1] },
+]
+
+/**
+ * Builds one order per quantity in `MOCK_BOOKINGS`
+ */
+function mockProductionOrders(): ProductionOrdersQuery["orders"]["nodes"] {
+  const thisWeek = getWeekStart(new Date())
+
+  return MOCK_BOOKINGS.flatMap(({ productId, weeksAhead, quantities }) =>
+    quantities.map((quantity) => ({
+      cancelledAt: null,
+      lineItems: {
+        nodes: [
+          {
+            quantity,
+            product: { id: productId },
+            customAttributes: [{ key: PRODUCTION_WEEK_ATTRIBUTE, value: addWeeks(thisWeek, weeksAhead) }],
+          },
+        ],
+      },
+    })),
+  )
+}
+
+const orders = (globalForMock.lumioMockOrders ??= new Map(MOCK_ORDERS.map((order) => [order.name, order])))
+
+/**
+ * Applies a `DraftOrderInput` to a draft order, replacing the fields it sets
+ */
+function applyInput(draftOrder: DraftQuoteFragment, input: DraftOrderInput): DraftQuoteFragment {
+  const lineItems = input.lineItems
+  const currencyCode =
+    lineItems?.[0]?.originalUnitPriceWithCurrency.currencyCode ??
+    input.presentmentCurrencyCode ??
+    draftOrder.totalPriceSet.presentmentMoney.currencyCode
+  const amount = lineItems
+    ? lineItems.reduce(
+        (total, item) => total + Number.parseFloat(item.originalUnitPriceWithCurrency.amount) * item.quantity,
+        0,
+      )
+    : Number.parseFloat(draftOrder.totalPriceSet.presentmentMoney.amount)
+
+  return {
+    ...draftOrder,
+    email: input.email ?? draftOrder.email,
+    note2: input.note ?? draftOrder.note2,
+    tags: input.tags ?? draftOrder.tags,
+    customAttributes: input.customAttributes ?? draftOrder.customAttributes,
+    totalPriceSet: { presentmentMoney: { amount: amount.toFixed(2), currencyCode } },
+  }
+}
+
+function draftOrderNotFound() {
+  return { draftOrder: null, userErrors: [{ field: ["id"], message: "Draft order does not exist" }] }
+}
+
+/**
+ * Operation handlers keyed by operation name
+ */
+const handlers: Record<string, (variables: Variables) => unknown> = {
+  DraftOrders: ({ query }) => {
+    // Only the `tag:` searches the app makes are supported
+    const tag = String(query ?? "").match(/^tag:'?([^']+)'?$/)?.[1]
+    const nodes = [...draftOrders.values()].filter((draftOrder) => tag && draftOrder.tags.includes(tag))
+    return { draftOrders: { nodes: nodes.slice(-1) } }
+  },
+
+  Orders: ({ query }) => {
+    // Only the `name:` searches the app makes are supported
+    const name = String(query ?? "").match(/^name:'?([^']+)'?$/)?.[1]
+    const order = name ? orders.get(name) : undefined
+    return { orders: { nodes: order ? [order] : [] } }
+  },
+
+  ProductionOrders: () => {
+    // The `created_at:` filter is ignored; every booking is recent
+    return { orders: { nodes: mockProductionOrders(), pageInfo: { hasNextPage: false, endCursor: null } } }
+  },
+
+  TagsAdd: (variables) => {
+    const { id, tags } = variables as unknown as TagsAddMutationVariables
+    const order = [...orders.values()].find((order) => order.id === id)
+    if (!order) {
+      return { tagsAdd: { node: null, userErrors: [{ field: ["id"], message: "Order does not exist" }] } }
+    }
+
+    orders.set(order.name, { ...order, tags: [...new Set([...order.tags, ...tags])] })
+
+    return { tagsAdd: { node: { id }, userErrors: [] } }
+  },
+
+  DraftOrderCreate: ({ input }) => {
+    const number = draftOrders.size + 1001
+    const draftOrder = applyInput(
+      {
+        id: `gid://shopify/DraftOrder/${number}`,
+        name: `#D${number}`,
+        status: "OPEN",
+        email: null,
+        invoiceUrl: `https://checkout.mock.invalid/invoices/${crypto.randomUUID()}`,
+        tags: [],
+        createdAt: new Date().toISOString(),
+        note2: null,
+        customAttributes: [],
+        totalPriceSet: { presentmentMoney: { amount: "0.00", currencyCode: "USD" } },
+      },
+      input as DraftOrderInput,
+    )
+    draftOrders.set(draftOrder.id, draftOrder)
+
+    return { draftOrderCreate: { draftOrder, userErrors: [] } }
+  },
+
+  DraftOrderUpdate: (variables) => {
+    const { id, input } = variables as unknown as DraftOrderUpdateMutationVariables
+    const draftOrder = draftOrders.get(id)
+    if (!draftOrder) return { draftOrderUpdate: draftOrderNotFound() }
+
+    if (draftOrder.status === "COMPLETED") {
+      return {
+        draftOrderUpdate: { draftOrder: null, userErrors: [{ field: null, message: "Draft order is completed" }] },
+      }
+    }
+
+    const updated = applyInput(draftOrder, input)
+    draftOrders.set(id, updated)
+
+    return { draftOrderUpdate: { draftOrder: updated, userErrors: [] } }
+  },
+
+  DraftOrderInvoiceSend: (variables) => {
+    const { id } = variables as unknown as DraftOrderInvoiceSendMutationVariables
+    const draftOrder = draftOrders.get(id)
+    if (!draftOrder) return { draftOrderInvoiceSend: draftOrderNotFound() }
+
+    if (!draftOrder.email) {
+      return {
+        draftOrderInvoiceSend: { draftOrder: null, userErrors: [{ field: ["email"], message: "To is required" }] },
+      }
+    }
+
+    const updated: DraftQuoteFragment = { ...draftOrder, status: "INVOICE_SENT" }
+    draftOrders.set(id, updated)
+    console.log(`Mock Admin API: invoice for ${draftOrder.name} would be emailed to ${draftOrder.email}`)
+
+    return { draftOrderInvoiceSend: { draftOrder: updated, userErrors: [] } }
+  },
+}
+
+/**
+ * Answers an Admin API GraphQL request from memory, in the same `{ data, errors }` shape as Shopify
+ */
+export function executeMockAdminOperation(query: string, variables: Variables = {}): MockStorefrontResponse {
+  const operationName = query.match(/\b(?:query|mutation)\s+(\w+)/)?.[1]
+  const handler = operationName ? handlers[operationName] : undefined
+
+  if (!operationName || !handler) {
+    console.warn(`Mock Admin API has no handler for operation: ${operationName ?? "(anonymous)"}`)
+    return { errors: [{ message: `Mock Admin API does not implement ${operationName ?? "anonymous operations"}` }] }
+  }
+
+  console.log(`Mock Admin API: ${operationName}`)
+  return { data: handler(variables) }
+}
@@ -0,0 +1,255 @@
+/**
+ * Fixture catalog served by the mock Storefront (`SHOPIFY_STOREFRONT_MOCK`).
+ *
+ * Products are typed against the generated `CalculatorProduct` fragment so the fixtures break the
+ * type check whenever the catalog query changes. Prices are in USD and converted per market on request.
+ *
+ * The data deliberately covers the cases the calculators have to handle:
+ * - Starter and Premium have every `lumio.*` metafield; Essential has none and relies on the fallbacks
+ * - Premium points `lumio.custom_quote_variant` at its custom-quote variant; Starter's is found by title
+ *   and is not available for sale, so a custom quote on Starter fails with a cart user error
+ * - The Premium signature has `lumio.volume_discounts` tiers at 10 and 25 users
+ * - The Premium avatar can only be bought with a selling plan
+ * - The Starter avatar's one-week lead time leaves no earlier week to rush into; the mock Admin API books
+ *   the Premium signature's next two weeks full (see `MOCK_BOOKINGS` in `admin.ts`)
+ */
+
+import type { CatalogCollection } from "../index"
+import type { CalculatorProductFragment, CurrencyCode } from "../storefront.generated"
+
+export interface MockCollection {
+  id: string
+  title: string
+  handle: CatalogCollection
+  products: CalculatorProductFragment[]
+}
+
+export interface MockDiscountCode {
+  percentOff: number
+  // Bundle codes only apply to carts with both an avatar and a signature line
+  bundleOnly?: boolean
+}
+
+// Signature user counts with their own variant; other counts use the closest variant below
+const SIGNATURE_USER_COUNTS = [1, 2, 3, 4, 5, 10, 15, 20, 25, 30, 40, 50]
+
+const SIGNATURE_USER_PRICE = 50
+
+// USD to market currency, roughly in line with Shopify's automatic conversion
+export const MOCK_EXCHANGE_RATES: Partial<Record<CurrencyCode, number>> = {
+  USD: 1,
+  CAD: 1.37,
+  GBP: 0.79,
+  EUR: 0.92,
+  AUD: 1.52,
+  NZD: 1.66,
+}
+
+export const MOCK_DISCOUNT_CODES: Record<string, MockDiscountCode> = {
+  BUNDLE10: { percentOff: 10, bundleOnly: true },
+  PREMIUMBUNDLE15: { percentOff: 15, bundleOnly: true },
+  SPRING25: { percentOff: 25 },
+  WELCOME10: { percentOff: 10 },
+}
+
+type MockSellingPlanGroup = CalculatorProductFragment["sellingPlanGroups"]["nodes"][number]
+type MockVariant = CalculatorProductFragment["variants"]["nodes"][number]
+
+const PAYMENT_PLANS: MockSellingPlanGroup = {
+  name: "Payment options",
+  sellingPlans: {
+    nodes: [
+      {
+        id: "gid://shopify/SellingPlan/900000001",
+        name: "50% deposit",
+        description: "Pay half today and the balance when your animation is delivered.",
+        checkoutCharge: { type: "PERCENTAGE", value: { percentage: 50 } },
+        billingPolicy: null,
+      },
+      {
+        id: "gid://shopify/SellingPlan/900000002",
+        name: "3 monthly installments",
+        description: "Split the price into three monthly payments.",
+        checkoutCharge: { type: "PERCENTAGE", value: { percentage: 34 } },
+        billingPolicy: { interval: "MONTH", intervalCount: 1 },
+      },
+    ],
+  },
+}
+
+function metafield(value: string) {
+  return { value }
+}
+
+function usd(amount: number) {
+  return { amount: amount.toFixed(2), currencyCode: "USD" as const }
+}
+
+/**
+ * Builds a signature package's per-user variants plus its custom-quote variant
+ */
+function signatureVariants(idPrefix: number, basePrice: number, customQuoteAvailable: boolean): MockVariant[] {
+  const variants: MockVariant[] = SIGNATURE_USER_COUNTS.map((userCount, index) => ({
+    id: `gid://shopify/ProductVariant/${idPrefix}${String(index + 1).padStart(2, "0")}`,
+    title: userCount === 1 ? "1 User" : `${userCount} Users`,
+    availableForSale: true,
+    price: usd(basePrice + SIGNATURE_USER_PRICE * (userCount - 1)),
+    selectedOptions: [{ name: "User Count", value: String(userCount) }],
+    userCount: metafield(String(userCount)),
+  }))
+
+  variants.push({
+    id: `gid://shopify/ProductVariant/${idPrefix}99`,
+    title: "Custom Quote",
+    availableForSale: customQuoteAvailable,
+    price: usd(0),
+    selectedOptions: [{ name: "User Count", value: "Custom Quote" }],
+    userCount: null,
+  })
+
+  return variants
+}
+
+/**
+ * Builds an avatar package's single variant
+ */
+function avatarVariant(id: string, price: number): MockVariant {
+  return {
+    id,
+    title: "Default Title",
+    availableForSale: true,
+    price: usd(price),
+    selectedOptions: [{ name: "Title", value: "Default Title" }],
+    userCount: null,
+  }
+}
+
+const PREMIUM_VOLUME_DISCOUNTS = JSON.stringify([
+  { min_users: 10, percent_off: 5 },
+  { min_users: 25, percent_off: 10 },
+])
+
+const NO_PACKAGE_METAFIELDS = {
+  tier: null,
+  displayOrder: null,
+  hidden: null,
+  minUsers: null,
+  maxUsers: null,
+  volumeDiscounts: null,
+  customQuoteVariant: null,
+  weeklySlots: null,
+  leadWeeks: null,
+}
+
+const SIGNATURE_PRODUCTS: CalculatorProductFragment[] = [
+  {
+    id: "gid://shopify/Product/9000101",
+    title: "Starter Signature Animation",
+    description: "A simple logo animation for your team's email signatures.",
+    handle: "starter-signature-animation",
+    tier: metafield("Starter"),
+    displayOrder: metafield("1"),
+    hidden: metafield("false"),
+    minUsers: metafield("1"),
+    maxUsers: metafield("50"),
+    volumeDiscounts: null,
+    customQuoteVariant: null,
+    weeklySlots: metafield("8"),
+    leadWeeks: metafield("2"),
+    requiresSellingPlan: false,
+    sellingPlanGroups: { nodes: [PAYMENT_PLANS] },
+    variants: { nodes: signatureVariants(90001, 950, false) },
+  },
+  {
+    id: "gid://shopify/Product/9000102",
+    title: "Essential Signature Animation",
+    description: "A custom animation built from your brand assets.",
+    handle: "custom-signature-animation",
+    ...NO_PACKAGE_METAFIELDS,
+    requiresSellingPlan: false,
+    sellingPlanGroups: { nodes: [PAYMENT_PLANS] },
+    variants: { nodes: signatureVariants(90002, 1450, true) },
+  },
+  {
+    id: "gid://shopify/Product/9000103",
+    title: "Premium Signature Animation",
+    description: "A fully bespoke animation with storyboard and unlimited motion concepts.",
+    handle: "premium-signature-animation",
+    tier: metafield("Premium"),
+    displayOrder: metafield("2"),
+    hidden: metafield("false"),
+    minUsers: metafield("1"),
+    maxUsers: metafield("50"),
+    volumeDiscounts: metafield(PREMIUM_VOLUME_DISCOUNTS),
+    customQuoteVariant: { reference: { id: "gid://shopify/ProductVariant/9000399" } },
+    weeklySlots: metafield("3"),
+    leadWeeks: metafield("2"),
+    requiresSellingPlan: false,
+    sellingPlanGroups: { nodes: [PAYMENT_PLANS] },
+    variants: { nodes: signatureVariants(90003, 2000, true) },
+  },
+]
+
+const AVATAR_PRODUCTS: CalculatorProductFragment[] = [
+  {
+    id: "gid://shopify/Product/9000201",
+    title: "Starter Avatar Animation",
+    description: "Your logo or headshot with a looping animation.",
+    handle: "starter-avatar-animation",
+    tier: metafield("Starter"),
+    displayOrder: metafield("1"),
+    hidden: metafield("false"),
+    minUsers: null,
+    maxUsers: null,
+    volumeDiscounts: null,
+    customQuoteVariant: null,
+    weeklySlots: metafield("10"),
+    leadWeeks: metafield("1"),
+    requiresSellingPlan: false,
+    sellingPlanGroups: { nodes: [] },
+    variants: { nodes: [avatarVariant("gid://shopify/ProductVariant/9000401", 450)] },
+  },
+  {
+    id: "gid://shopify/Product/9000202",
+    title: "Essential Avatar Animation",
+    description: "A custom avatar animation built from your brand assets.",
+    handle: "custom-avatar-animation",
+    ...NO_PACKAGE_METAFIELDS,
+    requiresSellingPlan: false,
+    sellingPlanGroups: { nodes: [] },
+    variants: { nodes: [avatarVariant("gid://shopify/ProductVariant/9000402", 750)] },
+  },
+  {
+    id: "gid://shopify/Product/9000203",
+    title: "Premium Avatar Animation",
+    description: "A fully bespoke avatar animation with storyboard.",
+    handle: "premium-avatar-animation",
+    tier: metafield("Premium"),
+    displayOrder: metafield("2"),
+    hidden: metafield("false"),
+    minUsers: null,
+    maxUsers: null,
+    volumeDiscounts: null,
+    customQuoteVariant: null,
+    weeklySlots: metafield("2"),
+    leadWeeks: metafield("3"),
+    requiresSellingPlan: true,
+    sellingPlanGroups: { nodes: [PAYMENT_PLANS] },
+    variants: { nodes: [avatarVariant("gid://shopify/ProductVariant/9000403", 1200)] },
+  },
+]
+
+export const MOCK_COLLECTIONS: Record<CatalogCollection, MockCollection> = {
+  "email-signatures": {
+    id: "gid://shopify/Collection/900001",
+    title: "Email Signatures",
+    handle: "email-signatures",
+    products: SIGNATURE_PRODUCTS,
+  },
+  "email-avatars": {
+    id: "gid://shopify/Collection/900002",
+    title: "Email Avatars",
+    handle: "email-avatars",
+    products: AVATAR_PRODUCTS,
+  },
+}
@@ -0,0 +1,422 @@
+/**
+ * Offline stand-in for the Storefront API, used for local development and testing.
+ *
+ * Turned on with `SHOPIFY_STOREFRONT_MOCK=true`. `storefrontRequest` then answers every operation
+ * from `operations.ts` here instead of calling Shopify: collections come from `fixtures.ts`, and carts
+ * are kept in memory for the life of the server process. `/api/shopify/mock` exposes the same
+ * handler as a GraphQL endpoint for tools like curl.
+ *
+ * Operations are matched by name rather than executed, so a new operation needs a handler here too.
+ */
+
+import type { CatalogCollection } from "../index"
+import { getMarket } from "../markets"
+import type { Market } from "../markets"
+import type {
+  CalculatorProductFragment,
+  CartCreateMutation,
+  CartLineInput,
+  CartSummaryFragment,
+  CountryCode,
+  CurrencyCode,
+} from "../storefront.generated"
+import { MOCK_COLLECTIONS, MOCK_DISCOUNT_CODES, MOCK_EXCHANGE_RATES } from "./fixtures"
+import { config } from "@/lib/config"
+
+interface MockCartLine {
+  id: string
+  merchandiseId: string
+  quantity: number
+  attributes: Array<{ key: string; value: string }>
+  sellingPlanId?: string
+}
+
+interface MockCart {
+  id: string
+  lines: MockCartLine[]
+  discountCodes: string[]
+  countryCode: CountryCode
+}
+
+interface MockUserError {
+  field: string[] | null
+  message: string
+}
+
+export interface MockStorefrontResponse {
+  data?: unknown
+  errors?: Array<{ message: string }>
+}
+
+type Variables = Record<string, unknown>
+
+type CartPayload = NonNullable<CartCreateMutation["cartCreate"]>
+
+// Kept on globalThis so carts survive hot reloads in development
+const globalForMock = globalThis as typeof globalThis & { lumioMockCarts?: Map<string, MockCart> }
+const carts = (globalForMock.lumioMockCarts ??= new Map<string, MockCart>())
+
+/**
+ * Checks whether the mock Storefront is switched on
+ */
+export function isMockStorefront(): boolean {
+  return config.shopify.mock
+}
+
+/**
+ * Failed response the mock answers every request with while `SHOPIFY_STOREFRONT_MOCK_FAULT` is set
+ *
+ * `throttled` answers 429 with a `Retry-After` of one second, `outage` answers 503, so the retries and the
+ * circuit breaker in `storefrontRequest` can be tried out locally.
+ */
+export function getMockFaultResponse(): Response | null {
+  switch (config.shopify.mockFault) {
+    case "throttled":
+      return new Response("Throttled", {
+        status: 429,
+        statusText: "Too Many Requests",
+        headers: { "Retry-After": "1" },
+      })
+    case "outage":
+      return new Response("Service Unavailable", { status: 503, statusText: "Service Unavailable" })
+    default:
+      return null
+  }
+}
+
+const allProducts = Object.values(MOCK_COLLECTIONS).flatMap((collection) => collection.products)
+
+function findVariant(merchandiseId: string) {
+  for (const product of allProducts) {
+    const variant = product.variants.nodes.find((variant) => variant.id === merchandiseId)
+    if (variant) return { product, variant }
+  }
+  return null
+}
+
+function findCollectionHandle(product: CalculatorProductFragment): CatalogCollection | null {
+  const collection = Object.values(MOCK_COLLECTIONS).find((collection) => collection.products.includes(product))
+  return collection?.handle ?? null
+}
+
+/**
+ * Converts a USD fixture price to a currency, rounded to the cent
+ */
+function convert(amount: string | number, currencyCode: CurrencyCode): string {
+  const rate = MOCK_EXCHANGE_RATES[currencyCode] ?? 1
+  return (Math.round(Number(amount) * rate * 100) / 100).toFixed(2)
+}
+
+/**
+ * Currency a market is priced in; countries without a rate fall back to USD like an inactive Shopify market
+ */
+function getCurrency(market: Market): CurrencyCode {
+  return MOCK_EXCHANGE_RATES[market.currencyCode] ? market.currencyCode : "USD"
+}
+
+function money(amount: number, currencyCode: CurrencyCode) {
+  return { amount: amount.toFixed(2), currencyCode }
+}
+
+/**
+ * Prices a fixture product for the `@inContext` market
+ */
+function localizeProduct(product: CalculatorProductFragment, market: Market): CalculatorProductFragment {
+  const currencyCode = getCurrency(market)
+
+  return {
+    ...product,
+    variants: {
+      nodes: product.variants.nodes.map((variant) => ({
+        ...variant,
+        price: { amount: convert(variant.price.amount, currencyCode), currencyCode },
+      })),
+    },
+  }
+}
+
+/**
+ * Validates lines the way Shopify does for `cartCreate` and `cartLinesAdd`
+ *
+ * Scenarios: unknown variants, variants that aren't for sale, selling plans the variant doesn't offer,
+ * and products that can only be bought with a selling plan.
+ */
+function validateLines(lines: CartLineInput[], fieldPrefix: string[]): MockUserError[] {
+  const userErrors: MockUserError[] = []
+
+  lines.forEach((line, index) => {
+    const field = [...fieldPrefix, String(index)]
+    const match = findVariant(line.merchandiseId)
+
+    if (!match) {
+      userErrors.push({
+        field: [...field, "merchandiseId"],
+        message: `The merchandise with id ${line.merchandiseId} does not exist.`,
+      })
+      return
+    }
+
+    if (!match.variant.availableForSale) {
+      userErrors.push({
+        field: [...field, "merchandiseId"],
+        message: `The product '${match.product.title} - ${match.variant.title}' is already sold out.`,
+      })
+    }
+
+    const planIds = match.product.sellingPlanGroups.nodes.flatMap((group) =>
+      group.sellingPlans.nodes.map((plan) => plan.id),
+    )
+
+    if (line.sellingPlanId && !planIds.includes(line.sellingPlanId)) {
+      userErrors.push({
+        field: [...field, "sellingPlanId"],
+        message: "Variant can't be purchased with the selected selling plan.",
+      })
+    } else if (!line.sellingPlanId && match.product.requiresSellingPlan) {
+      userErrors.push({
+        field: [...field, "sellingPlanId"],
+        message: "Variant can only be purchased with a selling plan.",
+      })
+    }
+
+    if ((line.quantity ?? 1) < 1) {
+      userErrors.push({ field: [...field, "quantity"], message: "Quantity must be at least 1." })
+    }
+  })
+
+  return userErrors
+}
+
+function toMockLine(line: CartLineInput): MockCartLine {
+  return {
+    id: `gid://shopify/CartLine/${crypto.randomUUID()}`,
+    merchandiseId: line.merchandiseId,
+    quantity: line.quantity ?? 1,
+    attributes: (line.attributes ?? []).map((attribute) => ({ key: attribute.key, value: attribute.value })),
+    sellingPlanId: line.sellingPlanId ?? undefined,
+  }
+}
+
+/**
+ * Checks whether a discount code applies to a cart
+ */
+function isCodeApplicable(cart: MockCart, code: string): boolean {
+  const discount = MOCK_DISCOUNT_CODES[code.toUpperCase()]
+  if (!discount || cart.lines.length === 0) return false
+  if (!discount.bundleOnly) return true
+
+  const handles = new Set(
+    cart.lines.map((line) => {
+      const match = findVariant(line.merchandiseId)
+      return match ? findCollectionHandle(match.product) : null
+    }),
+  )
+  return handles.has("email-avatars") && handles.has("email-signatures")
+}
+
+/**
+ * Renders a mock cart as the `CartSummary` fragment, priced in the cart's market
+ */
+function toCartFragment(cart: MockCart): CartSummaryFragment {
+  const currencyCode = getCurrency(getMarket(cart.countryCode))
+  const applicableCodes = cart.discountCodes.filter((code) => isCodeApplicable(cart, code))
+
+  let subtotal = 0
+  let total = 0
+
+  const lines = cart.lines.flatMap((line) => {
+    const match = findVariant(line.merchandiseId)
+    if (!match) return []
+
+    const lineTotal = Number(convert(match.variant.price.amount, currencyCode)) * line.quantity
+    const discountAllocations = applicableCodes.map((code) => ({
+      code,
+      discountedAmount: money(
+        Math.round(lineTotal * MOCK_DISCOUNT_CODES[code.toUpperCase()].percentOff) / 100,
+        currencyCode,
+      ),
+    }))
+    const discounted = discountAllocations.reduce(
+      (sum, allocation) => sum + Number(allocation.discountedAmount.amount),
+      0,
+    )
+
+    subtotal += lineTotal
+    total += lineTotal - discounted
+
+    const sellingPlan = match.product.sellingPlanGroups.nodes
+      .flatMap((group) => group.sellingPlans.nodes)
+      .find((plan) => plan.id === line.sellingPlanId)
+
+    return [
+      {
+        id: line.id,
+        quantity: line.quantity,
+        attributes: line.attributes,
+        cost: { totalAmount: money(lineTotal, currencyCode) },
+        discountAllocations,
+        sellingPlanAllocation: sellingPlan ? { sellingPlan: { id: sellingPlan.id, name: sellingPlan.name } } : null,
+        merchandise: {
+          id: match.variant.id,
+          title: match.variant.title,
+          product: { title: match.product.title, handle: match.product.handle },
+        },
+      },
+    ]
+  })
+
+  return {
+    id: cart.id,
+    // The mock has no checkout; this URL only shows which cart would have been checked out
+    checkoutUrl: `https://checkout.mock.invalid/cart/c/${cart.id.split("/").pop()}`,
+    totalQuantity: cart.lines.reduce((sum, line) => sum + line.quantity, 0),
+    cost: {
+      subtotalAmount: money(subtotal, currencyCode),
+      totalAmount: money(Math.round(total * 100) / 100, currencyCode),
+    },
+    buyerIdentity: { countryCode: cart.countryCode },
+    discountCodes: cart.discountCodes.map((code) => ({ code, applicable: applicableCodes.includes(code) })),
+    discountAllocations: [],
+    lines: { nodes: lines },
+  }
+}
+
+function cartPayload(cart: MockCart | null, userErrors: MockUserError[] = []): CartPayload {
+  return { cart: cart && userErrors.length === 0 ? toCartFragment(cart) : null, userErrors }
+}
+
+function getCart(cartId: unknown): MockCart | null {
+  return typeof cartId === "string" ? (carts.get(cartId) ?? null) : null
+}
+
+function cartNotFound(): CartPayload {
+  return cartPayload(null, [{ field: ["cartId"], message: "The specified cart does not exist." }])
+}
+
+/**
+ * Operation handlers keyed by operation name
+ */
+const handlers: Record<string, (variables: Variables, market: Market) => unknown> = {
+  CollectionByHandle: ({ handle }, market) => {
+    const collection = MOCK_COLLECTIONS[handle as CatalogCollection]
+    if (!collection) return { collection: null }
+
+    return {
+      collection: {
+        id: collection.id,
+        title: collection.title,
+        handle: collection.handle,
+        products: { nodes: collection.products.map((product) => localizeProduct(product, market)) },
+      },
+    }
+  },
+
+  Products: (_variables, market) => ({
+    products: { nodes: allProducts.map((product) => localizeProduct(product, market)) },
+  }),
+
+  Cart: ({ cartId }) => {
+    const cart = getCart(cartId)
+    return { cart: cart ? toCartFragment(cart) : null }
+  },
+
+  CartCreate: ({ input }, market) => {
+    const { lines = [], discountCodes = [], buyerIdentity } = (input ?? {}) as {
+      lines?: CartLineInput[]
+      discountCodes?: string[]
+      buyerIdentity?: { countryCode?: CountryCode }
+    }
+
+    const userErrors = validateLines(lines, ["input", "lines"])
+    if (userErrors.length > 0) return { cartCreate: cartPayload(null, userErrors) }
+
+    const cart: MockCart = {
+      id: `gid://shopify/Cart/mock-${crypto.randomUUID()}`,
+      lines: lines.map(toMockLine),
+      discountCodes,
+      countryCode: buyerIdentity?.countryCode ?? market.country,
+    }
+    carts.set(cart.id, cart)
+
+    return { cartCreate: cartPayload(cart) }
+  },
+
+  CartLinesAdd: ({ cartId, lines }) => {
+    const cart = getCart(cartId)
+    if (!cart) return { cartLinesAdd: cartNotFound() }
+
+    const newLines = (lines ?? []) as CartLineInput[]
+    const userErrors = validateLines(newLines, ["lines"])
+    if (userErrors.length > 0) return { cartLinesAdd: cartPayload(null, userErrors) }
+
+    cart.lines.push(...newLines.map(toMockLine))
+    return { cartLinesAdd: cartPayload(cart) }
+  },
+
+  CartLinesUpdate: ({ cartId, lines }) => {
+    const cart = getCart(cartId)
+    if (!cart) return { cartLinesUpdate: cartNotFound() }
+
+    const updates = (lines ?? []) as Array<{ id: string; quantity?: number }>
+    const unknownLine = updates.find((update) => !cart.lines.some((line) => line.id === update.id))
+    if (unknownLine) {
+      return {
+        cartLinesUpdate: cartPayload(null, [{ field: ["lines", "id"], message: `Line ${unknownLine.id} not found.` }]),
+      }
+    }
+
+    for (const update of updates) {
+      const line = cart.lines.find((line) => line.id === update.id)
+      if (line && update.quantity !== undefined) line.quantity = update.quantity
+    }
+    cart.lines = cart.lines.filter((line) => line.quantity > 0)
+
+    return { cartLinesUpdate: cartPayload(cart) }
+  },
+
+  CartLinesRemove: ({ cartId, lineIds }) => {
+    const cart = getCart(cartId)
+    if (!cart) return { cartLinesRemove: cartNotFound() }
+
+    const ids = (lineIds ?? []) as string[]
+    cart.lines = cart.lines.filter((line) => !ids.includes(line.id))
+
+    return { cartLinesRemove: cartPayload(cart) }
+  },
+
+  CartDiscountCodesUpdate: ({ cartId, discountCodes }) => {
+    const cart = getCart(cartId)
+    if (!cart) return { cartDiscountCodesUpdate: cartNotFound() }
+
+    cart.discountCodes = (discountCodes ?? []) as string[]
+    return { cartDiscountCodesUpdate: cartPayload(cart) }
+  },
+
+  CartBuyerIdentityUpdate: ({ cartId, buyerIdentity }) => {
+    const cart = getCart(cartId)
+    if (!cart) return { cartBuyerIdentityUpdate: cartNotFound() }
+
+    const countryCode = (buyerIdentity as { countryCode?: CountryCode } | undefined)?.countryCode
+    if (countryCode) cart.countryCode = countryCode
+
+    return { cartBuyerIdentityUpdate: cartPayload(cart) }
+  },
+}
+
+/**
+ * Answers a Storefront GraphQL request from the fixtures, in the same `{ data, errors }` shape as Shopify
+ */
+export function executeMockOperation(query: string, variables: Variables = {}): MockStorefrontResponse {
+  const operationName = query.match(/\b(?:query|mutation)\s+(\w+)/)?.[1]
+  const handler = operationName ? handlers[operationName] : undefined
+
+  if (!operationName || !handler) {
+    console.warn(`Mock Storefront has no handler for operation: ${operationName ?? "(anonymous)"}`)
+    return { errors: [{ message: `Mock Storefront does not implement ${operationName ?? "anonymous operations"}` }] }
+  }
+
+  console.log(`Mock Storefront: ${operationName}`)
+  const market = getMarket(typeof variables.country === "string" ? variables.country : null)
+
+  return { data: handler(variables, market) }
+}
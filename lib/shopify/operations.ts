@@ -0,0 +1,345 @@
+/**
+ * Storefront API operations used by Lumio.
+ *
+ * Every document here is picked up by `pnpm codegen`, which writes the matching
+ * response and variable types to `storefront.generated.ts`. Add new operations to
+ * this file (never inline query strings in components) so a schema change breaks
+ * the type check instead of checkout.
+ *
+ * Catalog and cart operations take `$country` and `$language` for `@inContext`, so Shopify
+ * returns prices in the buyer's market currency (see `markets.ts`).
+ */
+
+import type {
+  CollectionByHandleQuery,
+  CollectionByHandleQueryVariables,
+  ProductsQuery,
+  ProductsQueryVariables,
+} from "./storefront.generated"
+
+export const CALCULATOR_PRODUCT_FRAGMENT = /* GraphQL */ `
+  fragment CalculatorProduct on Product {
+    id
+    title
+    description
+    handle
+    tier: metafield(namespace: "lumio", key: "tier") {
+      value
+    }
+    displayOrder: metafield(namespace: "lumio", key: "display_order") {
+      value
+    }
+    hidden: metafield(namespace: "lumio", key: "hidden") {
+      value
+    }
+    minUsers: metafield(namespace: "lumio", key: "min_users") {
+      value
+    }
+    maxUsers: metafield(namespace: "lumio", key: "max_users") {
+      value
+    }
+    volumeDiscounts: metafield(namespace: "lumio", key: "volume_discounts") {
+      value
+    }
+    customQuoteVariant: metafield(namespace: "lumio", key: "custom_quote_variant") {
+      reference {
+        ... on ProductVariant {
+          id
+        }
+      }
+    }
+    weeklySlots: metafield(namespace: "lumio", key: "weekly_slots") {
+      value
+    }
+    leadWeeks: metafield(namespace: "lumio", key: "lead_weeks") {
+      value
+    }
+    requiresSellingPlan
+    sellingPlanGroups(first: 5) {
+      nodes {
+        name
+        sellingPlans(first: 10) {
+          nodes {
+            id
+            name
+            description
+            checkoutCharge {
+              type
+              value {
+                ... on SellingPlanCheckoutChargePercentageValue {
+                  percentage
+                }
+                ... on MoneyV2 {
+                  amount
+                }
+              }
+            }
+            billingPolicy {
+              ... on SellingPlanRecurringBillingPolicy {
+                interval
+                intervalCount
+              }
+            }
+          }
+        }
+      }
+    }
+    variants(first: 20) {
+      nodes {
+        id
+        title
+        price {
+          amount
+          currencyCode
+        }
+        availableForSale
+        selectedOptions {
+          name
+          value
+        }
+        userCount: metafield(namespace: "lumio", key: "user_count") {
+          value
+        }
+      }
+    }
+  }
+`
+
+export const COLLECTION_BY_HANDLE_QUERY = /* GraphQL */ `
+  query CollectionByHandle($handle: String!, $country: CountryCode, $language: LanguageCode)
+  @inContext(country: $country, language: $language) {
+    collection(handle: $handle) {
+      id
+      title
+      handle
+      products(first: 10) {
+        nodes {
+          ...CalculatorProduct
+        }
+      }
+    }
+  }
+  ${CALCULATOR_PRODUCT_FRAGMENT}
+`
+
+export const PRODUCTS_QUERY = /* GraphQL */ `
+  query Products($country: CountryCode, $language: LanguageCode) @inContext(country: $country, language: $language) {
+    products(first: 10) {
+      nodes {
+        ...CalculatorProduct
+      }
+    }
+  }
+  ${CALCULATOR_PRODUCT_FRAGMENT}
+`
+
+export const CART_DISCOUNT_ALLOCATION_FRAGMENT = /* GraphQL */ `
+  fragment CartDiscountAllocationSummary on CartDiscountAllocation {
+    discountedAmount {
+      amount
+      currencyCode
+    }
+    ... on CartCodeDiscountAllocation {
+      code
+    }
+    ... on CartAutomaticDiscountAllocation {
+      title
+    }
+    ... on CartCustomDiscountAllocation {
+      title
+    }
+  }
+`
+
+export const CART_FRAGMENT = /* GraphQL */ `
+  fragment CartSummary on Cart {
+    id
+    checkoutUrl
+    totalQuantity
+    cost {
+      subtotalAmount {
+        amount
+        currencyCode
+      }
+      totalAmount {
+        amount
+        currencyCode
+      }
+    }
+    buyerIdentity {
+      countryCode
+    }
+    discountCodes {
+      code
+      applicable
+    }
+    discountAllocations {
+      ...CartDiscountAllocationSummary
+    }
+    lines(first: 50) {
+      nodes {
+        id
+        quantity
+        attributes {
+          key
+          value
+        }
+        cost {
+          totalAmount {
+            amount
+            currencyCode
+          }
+        }
+        discountAllocations {
+          ...CartDiscountAllocationSummary
+        }
+        sellingPlanAllocation {
+          sellingPlan {
+            id
+            name
+          }
+        }
+        merchandise {
+          ... on ProductVariant {
+            id
+            title
+            product {
+              title
+              handle
+            }
+          }
+        }
+      }
+    }
+  }
+  ${CART_DISCOUNT_ALLOCATION_FRAGMENT}
+`
+
+export const CART_QUERY = /* GraphQL */ `
+  query Cart($cartId: ID!, $country: CountryCode, $language: LanguageCode)
+  @inContext(country: $country, language: $language) {
+    cart(id: $cartId) {
+      ...CartSummary
+    }
+  }
+  ${CART_FRAGMENT}
+`
+
+export const CART_CREATE_MUTATION = /* GraphQL */ `
+  mutation CartCreate($input: CartInput!, $country: CountryCode, $language: LanguageCode)
+  @inContext(country: $country, language: $language) {
+    cartCreate(input: $input) {
+      cart {
+        ...CartSummary
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+  ${CART_FRAGMENT}
+`
+
+export const CART_LINES_ADD_MUTATION = /* GraphQL */ `
+  mutation CartLinesAdd($cartId: ID!, $lines: [CartLineInput!]!, $country: CountryCode, $language: LanguageCode)
+  @inContext(country: $country, language: $language) {
+    cartLinesAdd(cartId: $cartId, lines: $lines) {
+      cart {
+        ...CartSummary
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+  ${CART_FRAGMENT}
+`
+
+export const CART_LINES_UPDATE_MUTATION = /* GraphQL */ `
+  mutation CartLinesUpdate(
+    $cartId: ID!
+    $lines: [CartLineUpdateInput!]!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    cartLinesUpdate(cartId: $cartId, lines: $lines) {
+      cart {
+        ...CartSummary
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+  ${CART_FRAGMENT}
+`
+
+export const CART_LINES_REMOVE_MUTATION = /* GraphQL */ `
+  mutation CartLinesRemove($cartId: ID!, $lineIds: [ID!]!, $country: CountryCode, $language: LanguageCode)
+  @inContext(country: $country, language: $language) {
+    cartLinesRemove(cartId: $cartId, lineIds: $lineIds) {
+      cart {
+        ...CartSummary
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+  ${CART_FRAGMENT}
+`
+
+export const CART_DISCOUNT_CODES_UPDATE_MUTATION = /* GraphQL */ `
+  mutation CartDiscountCodesUpdate(
+    $cartId: ID!
+    $discountCodes: [String!]!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    cartDiscountCodesUpdate(cartId: $cartId, discountCodes: $discountCodes) {
+      cart {
+        ...CartSummary
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+  ${CART_FRAGMENT}
+`
+
+export const CART_BUYER_IDENTITY_UPDATE_MUTATION = /* GraphQL */ `
+  mutation CartBuyerIdentityUpdate(
+    $cartId: ID!
+    $buyerIdentity: CartBuyerIdentityInput!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    cartBuyerIdentityUpdate(cartId: $cartId, buyerIdentity: $buyerIdentity) {
+      cart {
+        ...CartSummary
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+  ${CART_FRAGMENT}
+`
+
+/**
+ * Operations the browser may run through `/api/shopify`, keyed by operation name.
+ * The server-side registry in `registry.ts` must provide a document for each entry.
+ */
+export interface PersistedOperations {
+  CollectionByHandle: { data: CollectionByHandleQuery; variables: CollectionByHandleQueryVariables }
+  Products: { data: ProductsQuery; variables: ProductsQueryVariables }
+}
+
+export type PersistedOperationName = keyof PersistedOperations
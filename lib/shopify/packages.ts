@@ -0,0 +1,115 @@
+/**
+ * Package mapping shared by every pricing calculator.
+ *
+ * Tier names, display order, visibility, user-count limits, volume discounts, custom-quote variants and
+ * production capacity come from `lumio.*` metafields in Shopify, so merchandising can change packages without a deploy.
+ * Prices and variant resolution live in `@/lib/pricing`.
+ * Products that don't have the metafields yet fall back to the title and handle conventions
+ * the store used before they existed.
+ */
+
+import type { VolumeDiscountTier } from "@/lib/pricing"
+import type { ShopifyProduct } from "./index"
+import type { CalculatorProductFragment } from "./storefront.generated"
+
+export interface PackageSettings {
+  tier: string
+  displayOrder: number
+  hidden: boolean
+  // Teams larger than `maxUsers` need a custom quote
+  minUsers: number
+  maxUsers: number
+  volumeDiscounts: VolumeDiscountTier[]
+  customQuoteVariantId: string | null
+  // Packages the studio can produce per week, and the weeks a standard order waits before production
+  weeklySlots: number
+  leadWeeks: number
+}
+
+export const DEFAULT_MIN_USERS = 1
+export const DEFAULT_MAX_USERS = 50
+export const DEFAULT_WEEKLY_SLOTS = 5
+export const DEFAULT_LEAD_WEEKS = 2
+
+// Fallbacks for products without `lumio.display_order` / `lumio.hidden`
+const FALLBACK_TIER_ORDER: Record<string, number> = { Starter: 1, Essential: 2, Premium: 3 }
+const FALLBACK_HIDDEN_TIERS = ["Essential"]
+
+type CalculatorVariantFragment = CalculatorProductFragment["variants"]["nodes"][number]
+
+function parseInteger(value: string | null | undefined): number | null {
+  if (!value) return null
+  const parsed = Number.parseInt(value, 10)
+  return isNaN(parsed) ? null : parsed
+}
+
+/**
+ * Parses `lumio.volume_discounts`, a JSON list like `[{ "min_users": 10, "percent_off": 5 }]`
+ */
+function parseVolumeDiscounts(value: string | null | undefined): VolumeDiscountTier[] {
+  if (!value) return []
+
+  try {
+    const tiers: unknown = JSON.parse(value)
+    if (!Array.isArray(tiers)) throw new Error("Expected a list of tiers")
+
+    return tiers
+      .map((tier) => ({ minUsers: Number(tier?.min_users), percentOff: Number(tier?.percent_off) }))
+      .filter((tier) => tier.minUsers > 0 && tier.percentOff > 0 && tier.percentOff < 100)
+  } catch (error) {
+    console.error("Invalid lumio.volume_discounts metafield:", value, error)
+    return []
+  }
+}
+
+/**
+ * Guesses the tier from the handle or title for products without a `lumio.tier` metafield
+ */
+function guessTier(product: Pick<CalculatorProductFragment, "title" | "handle">): string {
+  // The Essential product's handle uses "custom"
+  if (product.handle.includes("starter")) return "Starter"
+  if (product.handle.includes("custom") || product.handle.includes("essential")) return "Essential"
+  if (product.handle.includes("premium")) return "Premium"
+
+  if (product.title.includes("Starter")) return "Starter"
+  if (product.title.includes("Essential")) return "Essential"
+  if (product.title.includes("Premium")) return "Premium"
+  return product.title
+}
+
+/**
+ * Reads a product's package settings from its metafields
+ */
+export function toPackageSettings(product: CalculatorProductFragment): PackageSettings {
+  const tier = product.tier?.value || guessTier(product)
+  const customQuoteVariant = product.customQuoteVariant?.reference
+
+  return {
+    tier,
+    displayOrder: parseInteger(product.displayOrder?.value) ?? FALLBACK_TIER_ORDER[tier] ?? 99,
+    hidden: product.hidden ? product.hidden.value === "true" : FALLBACK_HIDDEN_TIERS.includes(tier),
+    minUsers: parseInteger(product.minUsers?.value) ?? DEFAULT_MIN_USERS,
+    maxUsers: parseInteger(product.maxUsers?.value) ?? DEFAULT_MAX_USERS,
+    volumeDiscounts: parseVolumeDiscounts(product.volumeDiscounts?.value),
+    customQuoteVariantId: customQuoteVariant && "id" in customQuoteVariant ? customQuoteVariant.id : null,
+    weeklySlots: Math.max(0, parseInteger(product.weeklySlots?.value) ?? DEFAULT_WEEKLY_SLOTS),
+    leadWeeks: Math.max(1, parseInteger(product.leadWeeks?.value) ?? DEFAULT_LEAD_WEEKS),
+  }
+}
+
+/**
+ * Reads how many users a variant covers from `lumio.user_count`, falling back to its "User Count" option
+ */
+export function toVariantUserCount(variant: CalculatorVariantFragment): number | null {
+  const countOption = variant.selectedOptions.find((option) => option.name === "User Count")
+  return parseInteger(variant.userCount?.value) ?? parseInteger(countOption?.value)
+}
+
+/**
+ * Returns the packages a calculator should offer, in display order
+ */
+export function getVisiblePackages(products: ShopifyProduct[]): ShopifyProduct[] {
+  return products
+    .filter((product) => !product.package.hidden)
+    .sort((a, b) => a.package.displayOrder - b.package.displayOrder)
+}
@@ -0,0 +1,85 @@
+/**
+ * Payment options offered by the pricing calculators, built from each product's Shopify selling plans
+ */
+
+import type { ShopifyProduct, ShopifySellingPlan } from "./index"
+
+export type PaymentOptionKind = "deposit" | "full" | "installments"
+
+export interface PaymentOption {
+  id: string
+  kind: PaymentOptionKind
+  name: string
+  description: string | null
+  // Unset when paying in full without a selling plan
+  sellingPlan?: ShopifySellingPlan
+}
+
+export interface PaymentAmounts {
+  dueToday: number
+  dueLater: number
+}
+
+// Option used when a product can be bought outright, without a selling plan
+export const PAY_IN_FULL_OPTION: PaymentOption = {
+  id: "full",
+  kind: "full",
+  name: "Pay in full",
+  description: "Pay the full amount today.",
+}
+
+// Order the options are listed in; the first available one is the default
+const KIND_ORDER: PaymentOptionKind[] = ["deposit", "full", "installments"]
+
+/**
+ * Classifies a selling plan by how it charges
+ */
+function getPlanKind(plan: ShopifySellingPlan): PaymentOptionKind {
+  if (plan.billingInterval) return "installments"
+  if (plan.checkoutCharge.type === "PERCENTAGE" && plan.checkoutCharge.value >= 100) return "full"
+  return "deposit"
+}
+
+/**
+ * Lists the ways a product can be paid for, deposit plans first
+ */
+export function getPaymentOptions(product: ShopifyProduct | null | undefined): PaymentOption[] {
+  if (!product) return []
+
+  const options: PaymentOption[] = product.sellingPlans.map((plan) => ({
+    id: plan.id,
+    kind: getPlanKind(plan),
+    name: plan.name,
+    description: plan.description,
+    sellingPlan: plan,
+  }))
+
+  if (!product.requiresSellingPlan && !options.some((option) => option.kind === "full")) {
+    options.push(PAY_IN_FULL_OPTION)
+  }
+
+  return options.sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind))
+}
+
+/**
+ * Finds the chosen option, falling back to the default when it is no longer offered
+ * (e.g. the plan was removed in Shopify or a different package was picked)
+ */
+export function resolvePaymentOption(options: PaymentOption[], id: string | null): PaymentOption | null {
+  return options.find((option) => option.id === id) ?? options[0] ?? null
+}
+
+/**
+ * Splits a total into what is charged at checkout and what is charged later
+ */
+export function getPaymentAmounts(option: PaymentOption | null, total: number): PaymentAmounts {
+  const charge = option?.sellingPlan?.checkoutCharge
+  if (!charge) {
+    return { dueToday: total, dueLater: 0 }
+  }
+
+  const dueToday =
+    charge.type === "PERCENTAGE" ? Math.round(total * charge.value) / 100 : Math.min(charge.value, total)
+
+  return { dueToday, dueLater: Math.round((total - dueToday) * 100) / 100 }
+}
@@ -0,0 +1,222 @@
+/**
+ * Custom quotes stored as Shopify draft orders.
+ *
+ * A quote request becomes an open draft order tagged `quote-request` and its reference number, with the
+ * requester's details as custom attributes and a zero-priced placeholder line. Issuing the quote replaces
+ * that line with the price staff agreed, and the draft order's invoice URL is the buyer's checkout link.
+ * Draft orders show up in Shopify admin, so sales can also follow up there.
+ */
+
+import type { ShopifyProduct } from "./index"
+import type { CurrencyCode } from "./storefront.generated"
+import { adminRequest, AdminApiError } from "./admin"
+import {
+  DRAFT_ORDER_CREATE_MUTATION,
+  DRAFT_ORDER_INVOICE_SEND_MUTATION,
+  DRAFT_ORDER_UPDATE_MUTATION,
+  DRAFT_ORDERS_QUERY,
+} from "./admin-operations"
+import type {
+  AdminUserError,
+  DraftOrderCreateMutation,
+  DraftOrderCreateMutationVariables,
+  DraftOrderInvoiceSendMutation,
+  DraftOrderInvoiceSendMutationVariables,
+  DraftOrderLineItemInput,
+  DraftOrdersQuery,
+  DraftOrdersQueryVariables,
+  DraftOrderUpdateMutation,
+  DraftOrderUpdateMutationVariables,
+  DraftQuoteFragment,
+} from "./admin-operations"
+import type { IssueQuoteInput, Quote, QuoteRequestInput } from "@/lib/quotes"
+import { getTimelineLabel, QUOTE_REFERENCE_PATTERN } from "@/lib/quotes"
+
+// Every quote request carries this tag, so they can be filtered in Shopify admin
+const QUOTE_TAG = "quote-request"
+
+// Added once staff have priced the quote
+const QUOTE_ISSUED_TAG = "quote-issued"
+
+const REFERENCE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"
+
+// Custom attribute keys on the draft order
+const ATTRIBUTES = {
+  reference: "Quote reference",
+  name: "Name",
+  company: "Company",
+  website: "Website",
+  seatCount: "User Count",
+  packageTitle: "Package",
+  timeline: "Timeline",
+} as const
+
+/**
+ * Generates a reference number like LQ-7KQ2MX
+ */
+function createReference(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(6))
+  return `LQ-${Array.from(bytes, (byte) => REFERENCE_ALPHABET[byte % REFERENCE_ALPHABET.length]).join("")}`
+}
+
+/**
+ * Throws on mutation user errors, otherwise returns the draft order
+ */
+function assertDraftOrder(
+  payload: { draftOrder: DraftQuoteFragment | null; userErrors: AdminUserError[] } | null,
+  action: string,
+): DraftQuoteFragment {
+  if (payload?.userErrors.length) {
+    console.error(`Shopify draft order user errors (${action}):`, payload.userErrors)
+    throw new AdminApiError(`Draft order ${action} errors`, 400, payload.userErrors)
+  }
+
+  if (!payload?.draftOrder) {
+    throw new AdminApiError("Invalid draft order response from Shopify", 500)
+  }
+
+  return payload.draftOrder
+}
+
+/**
+ * The single line a quote's draft order carries
+ */
+function toLineItem(
+  packageTitle: string,
+  seatCount: number,
+  amount: number,
+  currencyCode: CurrencyCode,
+): DraftOrderLineItemInput {
+  return {
+    title: `${packageTitle} (${seatCount} users)`,
+    quantity: 1,
+    originalUnitPriceWithCurrency: { amount: amount.toFixed(2), currencyCode },
+    requiresShipping: false,
+    taxable: true,
+    customAttributes: [{ key: ATTRIBUTES.seatCount, value: seatCount.toString() }],
+  }
+}
+
+/**
+ * Reads a quote back from its draft order
+ */
+function toQuote(draftOrder: DraftQuoteFragment): Quote {
+  const attribute = (key: string) =>
+    draftOrder.customAttributes.find((attribute) => attribute.key === key)?.value ?? null
+  const issued = draftOrder.tags.includes(QUOTE_ISSUED_TAG)
+  const money = draftOrder.totalPriceSet.presentmentMoney
+
+  return {
+    reference:
+      draftOrder.tags.find((tag) => QUOTE_REFERENCE_PATTERN.test(tag)) ?? attribute(ATTRIBUTES.reference) ?? "",
+    status: draftOrder.status === "COMPLETED" ? "completed" : issued ? "issued" : "pending",
+    draftOrderId: draftOrder.id,
+    draftOrderName: draftOrder.name,
+    name: attribute(ATTRIBUTES.name) ?? "",
+    email: draftOrder.email ?? "",
+    company: attribute(ATTRIBUTES.company) ?? "",
+    website: attribute(ATTRIBUTES.website),
+    seatCount: Number.parseInt(attribute(ATTRIBUTES.seatCount) ?? "0"),
+    packageTitle: attribute(ATTRIBUTES.packageTitle) ?? "",
+    timeline: attribute(ATTRIBUTES.timeline) ?? "",
+    notes: draftOrder.note2,
+    currencyCode: money.currencyCode,
+    total: issued ? money.amount : null,
+    checkoutUrl: issued ? draftOrder.invoiceUrl : null,
+    createdAt: draftOrder.createdAt,
+  }
+}
+
+/**
+ * Stores a quote request as a draft order and returns it with its new reference number
+ *
+ * @param product - The signature package the request is for, priced in the requester's market
+ */
+export async function createQuoteRequest(input: QuoteRequestInput, product: ShopifyProduct): Promise<Quote> {
+  const reference = createReference()
+  // Quote in the currency the requester was shown; staff price it in the same currency
+  const currencyCode = product.variants[0]?.currencyCode ?? "USD"
+
+  const attributes: Array<{ key: string; value: string | undefined }> = [
+    { key: ATTRIBUTES.reference, value: reference },
+    { key: ATTRIBUTES.name, value: input.name },
+    { key: ATTRIBUTES.company, value: input.company },
+    { key: ATTRIBUTES.website, value: input.website },
+    { key: ATTRIBUTES.seatCount, value: input.seatCount.toString() },
+    { key: ATTRIBUTES.packageTitle, value: product.title },
+    { key: ATTRIBUTES.timeline, value: getTimelineLabel(input.timeline) },
+  ]
+  const customAttributes = attributes.filter(
+    (attribute): attribute is { key: string; value: string } => Boolean(attribute.value),
+  )
+
+  const data = await adminRequest<DraftOrderCreateMutation, DraftOrderCreateMutationVariables>(
+    DRAFT_ORDER_CREATE_MUTATION,
+    {
+      input: {
+        email: input.email,
+        note: input.notes,
+        tags: [QUOTE_TAG, reference],
+        customAttributes,
+        presentmentCurrencyCode: currencyCode,
+        lineItems: [toLineItem(`${product.title} - quote pending`, input.seatCount, 0, currencyCode)],
+      },
+    },
+  )
+
+  const quote = toQuote(assertDraftOrder(data.draftOrderCreate, "create"))
+  console.log(`Created quote request ${reference} as draft order ${quote.draftOrderName}`)
+  return quote
+}
+
+/**
+ * Looks up a quote by its reference number, returning `null` when there is none
+ */
+export async function getQuote(reference: string): Promise<Quote | null> {
+  if (!QUOTE_REFERENCE_PATTERN.test(reference)) return null
+
+  const data = await adminRequest<DraftOrdersQuery, DraftOrdersQueryVariables>(DRAFT_ORDERS_QUERY, {
+    query: `tag:'${reference}'`,
+  })
+
+  const draftOrder = data.draftOrders.nodes[0]
+  return draftOrder ? toQuote(draftOrder) : null
+}
+
+/**
+ * Prices a quote, turning its draft order into a checkout link, and optionally emails Shopify's invoice
+ */
+export async function issueQuote(quote: Quote, { amount, sendInvoice, message }: IssueQuoteInput): Promise<Quote> {
+  if (quote.status === "completed") {
+    throw new AdminApiError("This quote has already been paid", 409, quote.reference)
+  }
+
+  const { currencyCode } = quote
+
+  const data = await adminRequest<DraftOrderUpdateMutation, DraftOrderUpdateMutationVariables>(
+    DRAFT_ORDER_UPDATE_MUTATION,
+    {
+      id: quote.draftOrderId,
+      input: {
+        tags: [QUOTE_TAG, QUOTE_ISSUED_TAG, quote.reference],
+        lineItems: [toLineItem(quote.packageTitle, quote.seatCount, amount, currencyCode)],
+      },
+    },
+  )
+
+  let draftOrder = assertDraftOrder(data.draftOrderUpdate, "update")
+  console.log(`Issued quote ${quote.reference} for ${amount} ${currencyCode}`)
+
+  if (sendInvoice) {
+    const invoice = await adminRequest<DraftOrderInvoiceSendMutation, DraftOrderInvoiceSendMutationVariables>(
+      DRAFT_ORDER_INVOICE_SEND_MUTATION,
+      {
+        id: quote.draftOrderId,
+        email: { subject: `Your Lumio quote ${quote.reference}`, customMessage: message },
+      },
+    )
+    draftOrder = assertDraftOrder(invoice.draftOrderInvoiceSend, "invoice")
+  }
+
+  return toQuote(draftOrder)
+}
@@ -0,0 +1,58 @@
+/**
+ * Server-side allowlist of Storefront operations the browser may run.
+ *
+ * `/api/shopify` only accepts an operation name from this registry plus variables that
+ * pass its schema; the GraphQL document itself never comes from the client.
+ */
+
+import { z } from "zod"
+import { CATALOG_COLLECTIONS } from "./index"
+import { getCachedCollection } from "./catalog"
+import { getMarket, MARKET_COUNTRIES } from "./markets"
+import { COLLECTION_BY_HANDLE_QUERY, PRODUCTS_QUERY } from "./operations"
+import type { PersistedOperationName } from "./operations"
+
+// `@inContext` variables; only countries in `MARKETS` are accepted, and the site is only in English
+const marketContextSchema = {
+  country: z.enum(MARKET_COUNTRIES).optional(),
+  language: z.literal("EN").optional(),
+}
+
+interface PersistedOperation {
+  query: string
+  variables: z.ZodTypeAny
+  // Optional server-side loader used instead of a direct Storefront request (e.g. to serve from cache)
+  resolve?: (variables: unknown) => Promise<unknown>
+}
+
+/**
+ * Declares a registry entry, typing `resolve` against the variables schema
+ */
+function persisted<TSchema extends z.ZodTypeAny>(operation: {
+  query: string
+  variables: TSchema
+  resolve?: (variables: z.infer<TSchema>) => Promise<unknown>
+}): PersistedOperation {
+  return operation as PersistedOperation
+}
+
+export const PERSISTED_OPERATIONS: Record<PersistedOperationName, PersistedOperation> = {
+  CollectionByHandle: persisted({
+    query: COLLECTION_BY_HANDLE_QUERY,
+    variables: z
+      .object({ handle: z.enum([CATALOG_COLLECTIONS.signatures, CATALOG_COLLECTIONS.avatars]), ...marketContextSchema })
+      .strict(),
+    resolve: ({ handle, country }) => getCachedCollection(handle, getMarket(country)),
+  }),
+  Products: persisted({
+    query: PRODUCTS_QUERY,
+    variables: z.object(marketContextSchema).strict(),
+  }),
+}
+
+/**
+ * Checks whether a client-supplied operation name is in the allowlist
+ */
+export function isPersistedOperation(name: unknown): name is PersistedOperationName {
+  return typeof name === "string" && Object.prototype.hasOwnProperty.call(PERSISTED_OPERATIONS, name)
+}
@@ -0,0 +1,243 @@
+/**
+ * Server-side Storefront API client.
+ *
+ * Reads the private Storefront access token, so only import this from route handlers
+ * and server components. Browser code goes through `/api/shopify` via `@/lib/shopify`.
+ *
+ * With `SHOPIFY_STOREFRONT_MOCK=true`, requests are answered by the offline stand-in in `mock/`
+ * and no token or network access is needed.
+ *
+ * Throttled and failed requests are retried with backoff, and after repeated outages a circuit breaker
+ * fails requests straight away for `CIRCUIT_OPEN_MS` instead of making every visitor wait on Shopify.
+ */
+
+import { NextResponse } from "next/server"
+import type { ShopifyErrorCode } from "./errors"
+import { parseRetryAfter, ShopifyApiError } from "./errors"
+import { executeMockOperation, getMockFaultResponse, isMockStorefront } from "./mock/storefront"
+import { config } from "@/lib/config"
+
+const { storeDomain, apiVersion } = config.shopify
+
+export const SHOPIFY_API_ENDPOINT = `https://${storeDomain}/api/${apiVersion}/graphql.json`
+
+// Attempts per request, including the first
+const MAX_ATTEMPTS = 3
+
+// Backoff before the second attempt, doubled for each attempt after that
+const RETRY_BASE_DELAY_MS = 250
+
+// Longest `Retry-After` worth waiting out within a request; longer throttles are passed on to the browser
+const MAX_RETRY_DELAY_MS = 5000
+
+// A request that takes longer than this counts as Shopify being unavailable
+const REQUEST_TIMEOUT_MS = 10 * 1000
+
+// Consecutive unavailable requests that open the circuit, and how long it then stays open
+const CIRCUIT_FAILURE_THRESHOLD = 5
+const CIRCUIT_OPEN_MS = 30 * 1000
+
+const circuit = { failures: 0, openUntil: 0 }
+
+/**
+ * Error raised when the Storefront API request fails or returns GraphQL errors
+ */
+export class StorefrontError extends ShopifyApiError {
+  constructor(
+    message: string,
+    status: number,
+    details?: unknown,
+    code: ShopifyErrorCode = "SHOPIFY_ERROR",
+    retryAfter?: number,
+  ) {
+    super(message, status, details, code, retryAfter)
+    this.name = "StorefrontError"
+  }
+}
+
+/**
+ * Sends a typed operation from `operations.ts` to the Storefront API and returns its `data`
+ *
+ * Throttled requests are retried after their `Retry-After`. Requests that fail because Shopify is unavailable
+ * are retried with backoff too, except mutations, which Shopify may have applied before failing.
+ *
+ * @example
+ * const data = await storefrontRequest<CollectionByHandleQuery, CollectionByHandleQueryVariables>(
+ *   COLLECTION_BY_HANDLE_QUERY,
+ *   { handle: "email-signatures" },
+ * )
+ */
+export async function storefrontRequest<TData, TVariables = Record<string, never>>(
+  query: string,
+  variables?: TVariables,
+): Promise<TData> {
+  if (circuit.openUntil > Date.now()) {
+    const retryAfter = Math.ceil((circuit.openUntil - Date.now()) / 1000)
+    throw new StorefrontError("Shopify circuit breaker is open", 503, undefined, "SHOPIFY_UNAVAILABLE", retryAfter)
+  }
+
+  const isMutation = /^\s*mutation\b/.test(query)
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const data = await sendStorefrontRequest<TData>(query, variables)
+      circuit.failures = 0
+      return data
+    } catch (error) {
+      if (!(error instanceof StorefrontError)) throw error
+
+      const delay = attempt < MAX_ATTEMPTS ? getRetryDelay(error, attempt, isMutation) : null
+      if (delay === null) {
+        recordFailure(error)
+        throw error
+      }
+
+      console.warn(`${error.message}, retrying in ${delay}ms (attempt ${attempt + 1} of ${MAX_ATTEMPTS})`)
+      await new Promise((resolve) => setTimeout(resolve, delay))
+    }
+  }
+}
+
+/**
+ * How long to wait before retrying a failed request, or `null` when it shouldn't be retried
+ */
+function getRetryDelay(error: StorefrontError, attempt: number, isMutation: boolean): number | null {
+  const backoff = Math.round(RETRY_BASE_DELAY_MS * (2 ** (attempt - 1) + Math.random()))
+
+  if (error.code === "RATE_LIMITED") {
+    const delay = error.retryAfter !== undefined ? error.retryAfter * 1000 : backoff
+    return delay <= MAX_RETRY_DELAY_MS ? delay : null
+  }
+
+  if (error.code === "SHOPIFY_UNAVAILABLE" && !isMutation) {
+    return backoff
+  }
+
+  return null
+}
+
+/**
+ * Counts a failed request towards opening the circuit; only outages count, not throttling or bad requests
+ *
+ * The count is only reset by a successful request, so once the circuit closes again a single outage reopens it.
+ */
+function recordFailure(error: StorefrontError) {
+  if (error.code !== "SHOPIFY_UNAVAILABLE") return
+
+  circuit.failures++
+  if (circuit.failures >= CIRCUIT_FAILURE_THRESHOLD) {
+    console.error(`Shopify failed ${circuit.failures} requests in a row, opening circuit for ${CIRCUIT_OPEN_MS}ms`)
+    circuit.openUntil = Date.now() + CIRCUIT_OPEN_MS
+  }
+}
+
+/**
+ * Makes a single Storefront API request
+ */
+async function sendStorefrontRequest<TData>(query: string, variables: unknown): Promise<TData> {
+  if (isMockStorefront()) {
+    const faultResponse = getMockFaultResponse()
+    if (faultResponse) throw toHttpError(faultResponse)
+
+    return unwrapResponse<TData>(executeMockOperation(query, variables as Record<string, unknown>))
+  }
+
+  const SHOPIFY_STOREFRONT_ACCESS_TOKEN = config.shopify.storefrontAccessToken
+
+  if (!SHOPIFY_STOREFRONT_ACCESS_TOKEN) {
+    console.error("Shopify access token is missing. Check your environment variables.")
+    throw new StorefrontError("Shopify access token is missing", 500)
+  }
+
+  let response: Response
+  try {
+    response = await fetch(SHOPIFY_API_ENDPOINT, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Shopify-Storefront-Access-Token": SHOPIFY_STOREFRONT_ACCESS_TOKEN,
+      },
+      body: JSON.stringify({ query, variables }),
+      cache: "no-store",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    })
+  } catch (error) {
+    console.error("Error reaching Shopify API:", error)
+    throw new StorefrontError("Could not reach Shopify API", 503, undefined, "SHOPIFY_UNAVAILABLE")
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error("Error response from Shopify API:", errorText)
+    throw toHttpError(response)
+  }
+
+  let body: { data?: TData; errors?: unknown }
+  try {
+    body = await response.json()
+  } catch (error) {
+    console.error("Error parsing Shopify response as JSON:", error)
+    throw new StorefrontError("Error parsing Shopify response as JSON", 500)
+  }
+
+  return unwrapResponse(body)
+}
+
+/**
+ * Turns a failed HTTP response from Shopify into a `StorefrontError` with our own status
+ *
+ * Shopify's status isn't passed through: a 401 from a bad token would otherwise reach the browser as its own.
+ */
+function toHttpError(response: Response): StorefrontError {
+  const message = `Shopify API error: ${response.status} ${response.statusText}`
+
+  if (response.status === 429) {
+    const retryAfter = parseRetryAfter(response.headers.get("Retry-After"))
+    return new StorefrontError(message, 429, undefined, "RATE_LIMITED", retryAfter)
+  }
+
+  if (response.status >= 500) {
+    return new StorefrontError(message, 503, undefined, "SHOPIFY_UNAVAILABLE")
+  }
+
+  return new StorefrontError(message, 502)
+}
+
+/**
+ * Returns the `data` of a GraphQL response body, throwing on GraphQL errors
+ */
+function unwrapResponse<TData>(body: { data?: unknown; errors?: unknown }): TData {
+  if (body.errors) {
+    console.error("Shopify GraphQL errors:", body.errors)
+
+    // Shopify reports cost-based throttling as a GraphQL error rather than a 429
+    const isThrottled =
+      Array.isArray(body.errors) && body.errors.some((error) => error?.extensions?.code === "THROTTLED")
+    if (isThrottled) {
+      throw new StorefrontError("Shopify API throttled the request", 429, body.errors, "RATE_LIMITED")
+    }
+
+    throw new StorefrontError("Shopify GraphQL errors", 400, body.errors)
+  }
+
+  if (!body.data) {
+    throw new StorefrontError("Unexpected Shopify response structure", 500)
+  }
+
+  return body.data as TData
+}
+
+/**
+ * Answers a route handler's request with a `StorefrontError`, as `{ error, code, details }`
+ *
+ * @param code - Replaces the error's own code, e.g. to report any failure to load products as `CATALOG_UNAVAILABLE`
+ */
+export function storefrontErrorResponse(error: StorefrontError, code: ShopifyErrorCode = error.code) {
+  return NextResponse.json(
+    { error: error.message, code, details: error.details },
+    {
+      status: error.status,
+      headers: error.retryAfter !== undefined ? { "Retry-After": error.retryAfter.toString() } : undefined,
+    },
+  )
+}
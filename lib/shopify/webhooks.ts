@@ -0,0 +1,51 @@
+/**
+ * Shopify webhook helpers
+ */
+
+import { createHmac, timingSafeEqual } from "crypto"
+
+// Topics that change what the pricing calculators show
+export const CATALOG_WEBHOOK_TOPICS = ["products/update", "products/delete", "collections/update"] as const
+
+export type CatalogWebhookTopic = (typeof CATALOG_WEBHOOK_TOPICS)[number]
+
+// Topics that change how many production slots are booked
+export const CAPACITY_WEBHOOK_TOPICS = ["orders/create", "orders/cancelled"] as const
+
+export type CapacityWebhookTopic = (typeof CAPACITY_WEBHOOK_TOPICS)[number]
+
+// Settles the original order when a balance payment's draft order is paid
+export const ORDER_PAID_WEBHOOK_TOPIC = "orders/paid"
+
+/**
+ * Checks whether a webhook topic should invalidate the catalog cache
+ */
+export function isCatalogWebhookTopic(topic: string | null): topic is CatalogWebhookTopic {
+  return CATALOG_WEBHOOK_TOPICS.includes(topic as CatalogWebhookTopic)
+}
+
+/**
+ * Checks whether a webhook topic should invalidate the booked production slots
+ */
+export function isCapacityWebhookTopic(topic: string | null): topic is CapacityWebhookTopic {
+  return CAPACITY_WEBHOOK_TOPICS.includes(topic as CapacityWebhookTopic)
+}
+
+/**
+ * Verifies the `X-Shopify-Hmac-Sha256` header against the raw request body
+ *
+ * @param rawBody - The unparsed request body, exactly as Shopify sent it
+ * @param hmacHeader - The base64 HMAC from the `X-Shopify-Hmac-Sha256` header
+ * @param secret - The webhook signing secret from Shopify admin
+ */
+export function verifyShopifyWebhook(rawBody: string, hmacHeader: string | null, secret: string): boolean {
+  if (!hmacHeader) return false
+
+  const digest = createHmac("sha256", secret).update(rawBody, "utf8").digest()
+  const received = Buffer.from(hmacHeader, "base64")
+
+  // timingSafeEqual throws on length mismatch
+  if (received.length !== digest.length) return false
+
+  return timingSafeEqual(new Uint8Array(digest), new Uint8Array(received))
+}
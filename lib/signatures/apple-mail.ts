@@ -0,0 +1,68 @@
+/**
+ * Apple Mail signature files.
+ *
+ * Apple Mail stores each signature as a `.mailsignature` file: a MIME header block followed by the
+ * signature's HTML as the body. Pasting into Mail's settings rewrites the HTML, but a file swapped in for a
+ * placeholder signature is used as is. The body is plain 7-bit ASCII, with any other character written as an
+ * HTML entity, and images load from the site since Mail can't embed them from a signature file.
+ */
+
+import { prettifySignatureHtml } from "./format"
+import type { InstallGuide } from "./template"
+
+// Mail writes its signatures here on macOS 13 and later; earlier versions use V9 or lower
+const SIGNATURES_FOLDER = "~/Library/Mail/V10/MailData/Signatures"
+// Used instead while Mail is synced through iCloud Drive
+const ICLOUD_SIGNATURES_FOLDER = "~/Library/Mobile Documents/com~apple~mail/Data/V10/MailData/Signatures"
+
+/**
+ * Writes characters outside ASCII as numeric HTML entities
+ */
+function toAsciiHtml(html: string): string {
+  return html.replace(/[^\x00-\x7f]/gu, (character) => `&#${character.codePointAt(0)};`)
+}
+
+/**
+ * Renders a `.mailsignature` file from a signature rendered with `assetBaseUrl`
+ *
+ * @param messageId - Mail identifies signatures by a unique message ID, e.g. from `crypto.randomUUID()`
+ */
+export function renderAppleMailSignature(signatureHtml: string, messageId: string): string {
+  // Indented, so no line comes near the 998 characters a 7-bit MIME body allows
+  const body = toAsciiHtml(prettifySignatureHtml(signatureHtml))
+
+  return [
+    "Content-Transfer-Encoding: 7bit",
+    "Content-Type: text/html;",
+    "\tcharset=us-ascii",
+    `Message-Id: <${messageId.toUpperCase()}>`,
+    "Mime-Version: 1.0",
+    "",
+    '<body style="word-wrap: break-word; -webkit-nbsp-mode: space; line-break: after-white-space;">',
+    body,
+    "</body>",
+    "",
+  ].join("\n")
+}
+
+/**
+ * Steps for swapping a downloaded signature file in for a placeholder signature in Apple Mail
+ */
+export function getAppleMailInstallGuide(signatureName: string): InstallGuide {
+  return {
+    id: "apple-mail",
+    title: "Apple Mail",
+    steps: [
+      "Click \"Download for Apple Mail\"",
+      "Open Mail, go to Mail > Settings (Preferences on macOS 12 and earlier) > Signatures and select your account",
+      "Click + to add a signature",
+      `Name it "${signatureName}", leave the placeholder text in it and quit Mail`,
+      `In Finder, choose Go > Go to Folder and enter ${SIGNATURES_FOLDER}`,
+      `If Mail syncs through iCloud Drive, enter ${ICLOUD_SIGNATURES_FOLDER} instead`,
+      "Sort by Date Modified and find the newest .mailsignature file, which is your placeholder",
+      "Copy its file name, replace the file with the downloaded one and give it the copied name",
+      "Select the file, choose File > Get Info and tick Locked, so Mail doesn't overwrite it",
+      `Open Mail again and check that "${signatureName}" shows your signature in Settings > Signatures`,
+    ],
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Pushing signatures to a tenant's mailboxes, shared by the staff route and the admin portal.
+ *
+ * `lib/google-workspace/deploy.ts` does the pushing on the server.
+ */
+
+import { z } from "zod"
+
+export const signatureDeploymentSchema = z.object({
+  tenantId: z.string().min(1),
+  // Reports what would change without touching any mailbox, unless turned off explicitly
+  dryRun: z.boolean().default(true),
+  // Limits the run to these employees; all of the tenant's by default
+  employeeIds: z.array(z.string().min(1)).min(1).optional(),
+})
+
+export type SignatureDeploymentRequest = z.infer<typeof signatureDeploymentSchema>
+
+export type SignatureDeploymentStatus =
+  // The mailbox's signature was replaced
+  | "updated"
+  // The mailbox already has this signature
+  | "unchanged"
+  // A dry run found a different signature on the mailbox
+  | "would-update"
+  | "failed"
+
+export interface SignatureDeploymentResult {
+  employeeId: string
+  name: string
+  email: string
+  status: SignatureDeploymentStatus
+  // Why the push failed, for `failed`
+  error: string | null
+  // Length of the rendered HTML, which Gmail caps at `GMAIL_SIGNATURE_MAX_LENGTH`
+  characters?: number
+}
+
+export interface SignatureDeployment {
+  tenantId: string
+  dryRun: boolean
+  results: SignatureDeploymentResult[]
+}
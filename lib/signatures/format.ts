@@ -0,0 +1,111 @@
+/**
+ * Formatting of rendered signature HTML for people reading it.
+ *
+ * `renderSignature` returns minified HTML, which is what gets pasted into mail clients. The pretty version puts
+ * every table, row and cell on its own line, indented by nesting, and keeps what's inside a cell on one line.
+ * Both are the same markup, so either can be pasted into Outlook or a Workspace admin console.
+ */
+
+// Gmail rejects longer signatures, including through the Gmail API
+export const GMAIL_SIGNATURE_MAX_LENGTH = 10000
+
+export type SignatureHtmlFormat = "pretty" | "minified"
+
+// Tags that start a new, indented line
+const BLOCK_TAGS = new Set(["html", "head", "body", "table", "tbody", "tr", "td"])
+
+const INDENT = "  "
+
+/**
+ * Splits HTML into tags and the text between them
+ */
+export function splitHtml(html: string): string[] {
+  return html.match(/<[^>]*>|[^<]+/g) ?? []
+}
+
+function getTagName(tag: string): string | null {
+  return /^<\/?([a-zA-Z][a-zA-Z0-9]*)/.exec(tag)?.[1].toLowerCase() ?? null
+}
+
+/**
+ * Indents rendered signature HTML
+ */
+export function prettifySignatureHtml(html: string): string {
+  const lines: string[] = []
+  let depth = 0
+  let inline = ""
+
+  const flush = () => {
+    if (inline.trim()) lines.push(INDENT.repeat(depth) + inline.trim())
+    inline = ""
+  }
+
+  for (const token of splitHtml(html)) {
+    const tagName = token.startsWith("<") ? getTagName(token) : null
+
+    if (!tagName || !BLOCK_TAGS.has(tagName)) {
+      inline += token.startsWith("<") ? token : token.replace(/\s+/g, " ")
+      continue
+    }
+
+    flush()
+    if (token.startsWith("</")) {
+      depth = Math.max(0, depth - 1)
+      lines.push(INDENT.repeat(depth) + token)
+    } else {
+      lines.push(INDENT.repeat(depth) + token)
+      depth++
+    }
+  }
+  flush()
+
+  // Keep empty cells, like spacers, on one line
+  return lines.join("\n").replace(/^(\s*)(<td[^>]*>)\n\s*([^<\n]*)\n\s*<\/td>$/gm, "$1$2$3</td>")
+}
+
+/**
+ * Removes the whitespace between tags that formatting added
+ */
+export function minifySignatureHtml(html: string): string {
+  return html.replace(/>\s+</g, "><").trim()
+}
+
+/**
+ * Signature HTML in the format a reader picked
+ */
+export function formatSignatureHtml(html: string, format: SignatureHtmlFormat): string {
+  return format === "pretty" ? prettifySignatureHtml(html) : minifySignatureHtml(html)
+}
+
+/**
+ * Rewrites a tag the way HTML serializers write it: lowercase name, attribute values in double quotes, no
+ * self-closing slash, and style declarations without spacing or a trailing semicolon
+ */
+function normalizeTag(tag: string): string {
+  return tag
+    .replace(/^<(\/?)([A-Za-z][\w-]*)/, (_match, slash: string, name: string) => `<${slash}${name.toLowerCase()}`)
+    .replace(/\s*\/>$/, ">")
+    .replace(
+      /\s([\w-]+)=(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g,
+      (_match, name: string, double?: string, single?: string, bare?: string) =>
+        ` ${name.toLowerCase()}="${(double ?? single ?? bare ?? "").replace(/"/g, "&quot;")}"`,
+    )
+    .replace(
+      /\sstyle="([^"]*)"/,
+      (_match, style: string) => ` style="${style.replace(/\s*([:;])\s*/g, "$1").replace(/;$/, "")}"`,
+    )
+}
+
+/**
+ * Brings signature HTML to one form, so a signature can be compared with the copy Gmail stored
+ *
+ * Gmail re-serializes the HTML it's given: whitespace, attribute quotes and some entities come back changed,
+ * though the markup is the same.
+ */
+export function normalizeSignatureHtml(html: string): string {
+  // Non-breaking spaces go back to entities first, or they'd be taken for whitespace between tags
+  return minifySignatureHtml(html.replace(/&#0*160;|\u00a0/g, "&nbsp;"))
+    .replace(/<[^>]+>/g, normalizeTag)
+    .replace(/&#0*39;|&apos;/g, "'")
+    .replace(/\s+/g, " ")
+}
@@ -0,0 +1,103 @@
+/**
+ * Builds Outlook signature packages on the server (see `./outlook.ts` for the format).
+ */
+
+import { readFile } from "node:fs/promises"
+import path from "node:path"
+import { config } from "@/lib/config"
+import { createZip } from "@/lib/zip"
+import type { ZipEntry } from "@/lib/zip"
+import { renderOutlookDocument } from "./outlook"
+import { renderSignature, renderSignatureText } from "./render"
+import type { Employee, SignatureTemplate } from "./template"
+import { getSignatureName } from "./template"
+
+const PUBLIC_DIR = path.join(process.cwd(), "public")
+
+// A remote asset slower than this is linked instead, so one slow host can't hold up the download
+const ASSET_TIMEOUT_MS = 5 * 1000
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/gif": ".gif",
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/svg+xml": ".svg",
+}
+
+/**
+ * Reads an asset from `public/`, or downloads it when its URL is absolute
+ */
+async function loadAsset(url: string): Promise<{ data: Uint8Array; extension: string }> {
+  if (url.startsWith("/")) {
+    const { pathname } = new URL(url, config.siteUrl)
+    const file = path.join(PUBLIC_DIR, decodeURIComponent(pathname))
+    if (!file.startsWith(PUBLIC_DIR + path.sep)) {
+      throw new Error(`Asset outside public/: ${url}`)
+    }
+
+    return { data: new Uint8Array(await readFile(file)), extension: path.extname(file).toLowerCase() || ".png" }
+  }
+
+  const response = await fetch(url, { signal: AbortSignal.timeout(ASSET_TIMEOUT_MS) })
+  if (!response.ok) {
+    throw new Error(`Asset download failed with ${response.status}: ${url}`)
+  }
+
+  const contentType = response.headers.get("content-type")?.split(";")[0] ?? ""
+  const extension = IMAGE_EXTENSIONS[contentType] ?? (path.extname(new URL(url).pathname).toLowerCase() || ".png")
+  return { data: new Uint8Array(await response.arrayBuffer()), extension }
+}
+
+/**
+ * Builds the zip an employee installs their signature in Outlook from
+ *
+ * Images are copied into the `_files` folder and linked from there. One that can't be loaded is linked from
+ * the site instead, so the signature still works when remote images are allowed.
+ */
+export async function buildOutlookPackage(
+  template: SignatureTemplate,
+  employee: Employee,
+  companyName: string,
+): Promise<{ fileName: string; zip: Uint8Array<ArrayBuffer> }> {
+  const name = getSignatureName(companyName, employee.name)
+
+  // Renders once to find the assets the signature uses
+  const assetUrls = new Set<string>()
+  renderSignature(template, employee, {
+    rewriteAssetUrl: (url) => {
+      assetUrls.add(url)
+      return url
+    },
+  })
+
+  const files: ZipEntry[] = []
+  const localUrls = new Map<string, string>()
+
+  for (const url of assetUrls) {
+    try {
+      const { data, extension } = await loadAsset(url)
+      // Outlook's own naming, e.g. "image001.gif"
+      const fileName = `image${String(localUrls.size + 1).padStart(3, "0")}${extension}`
+      files.push({ path: `${name}_files/${fileName}`, data })
+      localUrls.set(url, `${encodeURIComponent(name)}_files/${fileName}`)
+    } catch (error) {
+      console.error(`Couldn't package signature asset ${url}, linking it instead:`, error)
+    }
+  }
+
+  const html = renderSignature(template, employee, {
+    mso: true,
+    rewriteAssetUrl: (url) => localUrls.get(url) ?? new URL(url, config.siteUrl).toString(),
+  })
+  // A byte order mark, so Outlook reads the text as UTF-8
+  const text = `\uFEFF${renderSignatureText(template, employee).replace(/\n/g, "\r\n")}`
+
+  const zip = createZip([
+    { path: `${name}.htm`, data: renderOutlookDocument(html, name) },
+    { path: `${name}.txt`, data: text },
+    ...files,
+  ])
+
+  console.log(`Outlook signature package for ${employee.id}: ${files.length} images, ${zip.length} bytes`)
+  return { fileName: `${name}.zip`, zip }
+}
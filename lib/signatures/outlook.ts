@@ -0,0 +1,82 @@
+/**
+ * Outlook signature packages.
+ *
+ * Classic Outlook for Windows keeps each signature as files in `%APPDATA%\Microsoft\Signatures`: `<name>.htm`
+ * for HTML messages, `<name>.txt` for plain-text ones, and a `<name>_files` folder with the images the `.htm`
+ * links to. Outlook embeds those images in every message, so they show even when remote images are blocked.
+ * The `.htm` is rendered by Word, so it gets VML for round avatars and the table styles Word needs to keep
+ * the layout. `lib/signatures/outlook-package.ts` builds the zip on the server; this module holds what the
+ * delivery portal shows too, like the file names and install steps.
+ */
+
+import { escapeHtml } from "@/lib/email"
+import type { InstallGuide } from "./template"
+
+/**
+ * Wraps a signature rendered with `mso: true` in the document Outlook reads from the `.htm` file
+ */
+export function renderOutlookDocument(signatureHtml: string, title: string): string {
+  return [
+    '<html xmlns:v="urn:schemas-microsoft-com:vml" xmlns:o="urn:schemas-microsoft-com:office:office" ' +
+      'xmlns:w="urn:schemas-microsoft-com:office:word" xmlns="http://www.w3.org/TR/REC-html40">',
+    "<head>",
+    '<meta http-equiv="Content-Type" content="text/html; charset=utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    "<!--[if gte mso 9]><xml><o:OfficeDocumentSettings><o:AllowPNG/><o:PixelsPerInch>96</o:PixelsPerInch>" +
+      "</o:OfficeDocumentSettings></xml><![endif]-->",
+    "<style>",
+    "v\\:* {behavior:url(#default#VML);}",
+    "o\\:* {behavior:url(#default#VML);}",
+    "table {border-collapse:collapse;mso-table-lspace:0pt;mso-table-rspace:0pt;}",
+    "td {mso-line-height-rule:exactly;}",
+    "img {-ms-interpolation-mode:bicubic;}",
+    "</style>",
+    "</head>",
+    '<body lang="EN-US">',
+    signatureHtml,
+    "</body>",
+    "</html>",
+  ].join("\r\n")
+}
+
+/**
+ * Steps for installing a signature package on each platform Outlook runs on
+ */
+export function getOutlookInstallGuides(signatureName: string): InstallGuide[] {
+  return [
+    {
+      id: "windows",
+      title: "Outlook for Windows (classic)",
+      steps: [
+        "Click \"Download for Outlook\" and unzip the downloaded file",
+        "Close Outlook",
+        "Press Windows + R, enter %APPDATA%\\Microsoft\\Signatures and press Enter",
+        `Copy "${signatureName}.htm", "${signatureName}.txt" and the "${signatureName}_files" folder into it`,
+        "Open Outlook and go to File > Options > Mail > Signatures",
+        `Choose "${signatureName}" for new messages and for replies/forwards, then click OK`,
+      ],
+    },
+    {
+      id: "mac",
+      title: "Outlook for Mac",
+      steps: [
+        "Click \"Download for Outlook\" and unzip the downloaded file",
+        `Open "${signatureName}.htm" in Safari, keeping it next to the "${signatureName}_files" folder`,
+        "Press Cmd + A, then Cmd + C to copy the signature",
+        "In Outlook, go to Outlook > Settings > Signatures and click + to add a signature",
+        `Name it "${signatureName}", paste with Cmd + V and close the editor to save`,
+        "Choose it as the default signature for your account",
+      ],
+    },
+    {
+      id: "web",
+      title: "New Outlook for Windows and Outlook on the web",
+      steps: [
+        "Click \"Copy Signature\" on the Preview tab",
+        "In Outlook, go to Settings > Accounts > Signatures and click \"+ New signature\"",
+        `Name it "${signatureName}" and paste your signature into the editor`,
+        "Choose it as the default for new messages and replies/forwards, then click Save",
+      ],
+    },
+  ]
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest"
+import { renderSignature } from "./render"
+import { defineSignatureTemplate, signatureEditsSchema } from "./template"
+import type { Employee } from "./template"
+
+const template = defineSignatureTemplate({
+  id: "test",
+  website: { url: "https://example.com", label: "example.com" },
+  socialLinks: [{ network: "linkedin", url: "https://www.linkedin.com/company/example" }],
+  colors: { primary: "#29505F", text: "#333333" },
+  columns: [
+    {
+      blocks: [
+        { type: "field", field: "name", style: "name" },
+        { type: "field", field: "email", style: "detail" },
+        { type: "field", field: "scheduleLink", style: "detail", label: "Schedule a call" },
+        { type: "website" },
+      ],
+    },
+  ],
+})
+
+const employee: Employee = {
+  id: "ada",
+  name: "Ada Lovelace",
+  firstName: "ADA",
+  lastName: "LOVELACE",
+  title: "Analyst",
+  email: "ada@example.com",
+  phone: "(616) 555-0100",
+  avatarUrl: "/placeholder.svg",
+  useCompanyLogo: false,
+  scheduleLink: "https://calendly.com/ada",
+}
+
+describe("signatureEditsSchema", () => {
+  it("accepts http and https scheduling links", () => {
+    expect(signatureEditsSchema.shape.scheduleLink.safeParse("https://calendly.com/ada").success).toBe(true)
+    expect(signatureEditsSchema.shape.scheduleLink.safeParse("http://calendly.com/ada").success).toBe(true)
+    expect(signatureEditsSchema.shape.scheduleLink.safeParse("").success).toBe(true)
+  })
+
+  it("rejects scheduling links with other schemes", () => {
+    for (const link of ["javascript:alert(1)", "JavaScript:alert(1)", "data:text/html,<script>alert(1)</script>"]) {
+      expect(signatureEditsSchema.shape.scheduleLink.safeParse(link).success).toBe(false)
+    }
+  })
+})
+
+describe("renderSignature", () => {
+  it("links web, mail and scheduling links", () => {
+    const html = renderSignature(template, employee)
+
+    expect(html).toContain('href="https://calendly.com/ada"')
+    expect(html).toContain('href="mailto:ada@example.com"')
+    expect(html).toContain('href="https://example.com"')
+  })
+
+  it("writes a scheduling link with another scheme as text", () => {
+    const html = renderSignature(template, { ...employee, scheduleLink: "javascript:alert(document.cookie)" })
+
+    expect(html).not.toContain("href=\"javascript:")
+    expect(html).toContain("javascript:alert(document.cookie)")
+  })
+
+  it("leaves links out of templates that bypass validation", () => {
+    const website = { url: "java\tscript:alert(1)", label: "example.com" }
+    const html = renderSignature({ ...template, website }, employee)
+
+    expect(html).not.toMatch(/href="java\s*script:/i)
+    expect(html).toContain("example.com")
+  })
+})
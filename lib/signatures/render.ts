@@ -0,0 +1,282 @@
+/**
+ * Renders signature templates to HTML.
+ *
+ * The markup is what mail clients handle best: nested tables for layout, inline styles only, and explicit
+ * `width`/`height` on images. Every value from a template or an employee is escaped.
+ *
+ * The delivery portal previews signatures by rendering them in the browser, where relative asset URLs work.
+ * Signatures leaving the site are rendered by `/api/signatures` with `assetBaseUrl` set, since a mail client
+ * can only load images from absolute URLs.
+ */
+
+import { escapeHtml } from "@/lib/email"
+import type { Employee, SignatureBlock, SignatureTemplate, SocialNetwork } from "./template"
+import { getEmployeeField, isWebUrl } from "./template"
+
+const SOCIAL_NETWORK_LABELS: Record<SocialNetwork, string> = {
+  facebook: "Facebook",
+  linkedin: "LinkedIn",
+  twitter: "Twitter",
+  instagram: "Instagram",
+  youtube: "YouTube",
+  tiktok: "TikTok",
+}
+
+// Placeholder icon text, for social links without an icon of their own
+const SOCIAL_NETWORK_ICON_TEXT: Record<SocialNetwork, string> = {
+  facebook: "f",
+  linkedin: "in",
+  twitter: "X",
+  instagram: "IG",
+  youtube: "YT",
+  tiktok: "TT",
+}
+
+type Align = SignatureTemplate["columns"][number]["align"]
+
+export interface RenderSignatureOptions {
+  // Makes asset URLs like `/animations/sample-avatar.gif` absolute, e.g. "https://golumio.co"
+  assetBaseUrl?: string
+  // Replaces asset URLs, e.g. with the local copies an Outlook signature package ships
+  rewriteAssetUrl?: (url: string) => string
+  // Adds VML for what Outlook's Word rendering engine can't draw, like round avatars
+  mso?: boolean
+}
+
+// Attributes every layout table needs so clients don't add their own spacing
+const TABLE_ATTRIBUTES = 'cellpadding="0" cellspacing="0" border="0" role="presentation"'
+
+function style(properties: Record<string, string | number>): string {
+  return Object.entries(properties)
+    .map(([property, value]) => `${property}:${typeof value === "number" ? `${value}px` : value}`)
+    .join(";")
+}
+
+// Schemes a signature may link to; anything else, like `javascript:`, is written as plain text
+const LINK_PROTOCOLS = ["http:", "https:", "mailto:", "tel:"]
+
+function link(href: string, content: string, css: string): string {
+  let protocol: string | null = null
+  try {
+    protocol = new URL(href).protocol
+  } catch {
+    // Not an absolute URL
+  }
+  if (!protocol || !LINK_PROTOCOLS.includes(protocol)) return content
+
+  return `<a href="${escapeHtml(href)}" target="_blank" rel="noreferrer" style="${escapeHtml(css)}">${content}</a>`
+}
+
+function assetUrl(url: string, options: RenderSignatureOptions): string {
+  if (options.rewriteAssetUrl) return options.rewriteAssetUrl(url)
+  return options.assetBaseUrl ? new URL(url, options.assetBaseUrl).toString() : url
+}
+
+function image(src: string, alt: string, size: number, css: Record<string, string | number> = {}): string {
+  const attributes = `src="${escapeHtml(src)}" alt="${escapeHtml(alt)}" width="${size}" height="${size}"`
+  return `<img ${attributes} style="${style({ width: size, height: size, border: 0, ...css })}">`
+}
+
+// An empty cell of a fixed size; the `&nbsp;` keeps clients from collapsing it
+function spacerCell(dimension: "width" | "height", size: number): string {
+  const css = style({ [dimension]: size, "font-size": 0, "line-height": 0 })
+  return `<td ${dimension}="${size}" style="${css}">&nbsp;</td>`
+}
+
+type Block<Type extends SignatureBlock["type"]> = Extract<SignatureBlock, { type: Type }>
+
+function renderAvatar(
+  block: Block<"avatar">,
+  template: SignatureTemplate,
+  employee: Employee,
+  options: RenderSignatureOptions,
+) {
+  const avatarUrl = (employee.useCompanyLogo && template.companyAvatarUrl) || employee.avatarUrl || "/placeholder.svg"
+  const src = assetUrl(avatarUrl, options)
+  let avatar = image(src, employee.name, block.size, block.shape === "circle" ? { "border-radius": "50%" } : {})
+
+  // Outlook ignores `border-radius`, so it gets an oval filled with the avatar instead
+  if (options.mso && block.shape === "circle") {
+    const ovalCss = style({ width: block.size, height: block.size })
+    const oval =
+      `<v:oval xmlns:v="urn:schemas-microsoft-com:vml" stroked="false" style="${ovalCss}">` +
+      `<v:fill type="frame" src="${escapeHtml(src)}"/></v:oval>`
+    avatar = `<!--[if mso]>${oval}<![endif]--><!--[if !mso]><!-->${avatar}<!--<![endif]-->`
+  }
+
+  return block.linkToWebsite ? link(template.website.url, avatar, style({ "text-decoration": "none" })) : avatar
+}
+
+function renderSocialLinks(block: Block<"socialLinks">, template: SignatureTemplate, options: RenderSignatureOptions) {
+  if (template.socialLinks.length === 0) return null
+
+  const cells = template.socialLinks.map((social, index) => {
+    const size = block.iconSize
+    const iconText = encodeURIComponent(SOCIAL_NETWORK_ICON_TEXT[social.network])
+    const src = assetUrl(social.iconUrl ?? `/placeholder.svg?height=${size}&width=${size}&text=${iconText}`, options)
+    const icon = image(src, SOCIAL_NETWORK_LABELS[social.network], size)
+    const gap = index < template.socialLinks.length - 1 ? ` style="${style({ "padding-right": 5 })}"` : ""
+
+    return `<td${gap}>${link(social.url, icon, style({ "text-decoration": "none" }))}</td>`
+  })
+
+  return `<table ${TABLE_ATTRIBUTES} style="display:inline-block"><tr>${cells.join("")}</tr></table>`
+}
+
+function renderField(block: Block<"field">, template: SignatureTemplate, employee: Employee) {
+  const value = getEmployeeField(employee, block.field)
+  if (!value) return null
+
+  const { colors, fonts } = template
+  const size = { name: fonts.nameSize, title: fonts.titleSize, detail: fonts.detailSize }[block.style]
+  const css = style({
+    margin: 0,
+    color: block.style === "name" ? colors.primary : colors.text,
+    "font-size": size,
+    "line-height": Math.round(size * (block.style === "detail" ? 2 : 1.5)),
+    ...(block.style === "name" && { "font-weight": "bold" }),
+  })
+  const linkCss = style({ color: colors.text, "text-decoration": "none" })
+
+  // The name stays on one line
+  const text = block.field === "name" ? escapeHtml(value).replace(/ /g, "&nbsp;") : escapeHtml(value)
+  let content = text
+  if (block.field === "phone") {
+    content = link(`tel:${value.replace(/[^0-9+]/g, "")}`, text, linkCss)
+  } else if (block.field === "email") {
+    content = link(`mailto:${value}`, text, linkCss)
+  } else if (block.field === "scheduleLink") {
+    // Employee data may predate the check in `signatureEditsSchema`, so only web links become links
+    content = isWebUrl(value) ? link(value, block.label ? escapeHtml(block.label) : text, linkCss) : text
+  }
+
+  return `<p style="${css}">${content}</p>`
+}
+
+function renderWebsite(template: SignatureTemplate) {
+  const { colors, fonts, website } = template
+  const css = style({ margin: 0, "font-size": fonts.detailSize, "line-height": fonts.detailSize * 2 })
+  const linkCss = style({ color: colors.text, "text-decoration": "none" })
+
+  return `<p style="${css}">${link(website.url, escapeHtml(website.label), linkCss)}</p>`
+}
+
+function renderDivider(block: Block<"divider">, template: SignatureTemplate) {
+  const color = template.colors.primary
+  const css = style({
+    width: block.width,
+    height: block.thickness,
+    "background-color": color,
+    "font-size": 0,
+    "line-height": 0,
+  })
+  const size = `width="${block.width}" height="${block.thickness}"`
+
+  return `<table ${TABLE_ATTRIBUTES}><tr><td ${size} bgcolor="${color}" style="${css}">&nbsp;</td></tr></table>`
+}
+
+/**
+ * Renders one block as a table row of its column, or `null` when the employee has nothing to show for it
+ */
+function renderBlock(
+  block: SignatureBlock,
+  template: SignatureTemplate,
+  employee: Employee,
+  align: Align,
+  options: RenderSignatureOptions,
+) {
+  let content: string | null
+  switch (block.type) {
+    case "avatar":
+      content = renderAvatar(block, template, employee, options)
+      break
+    case "field":
+      content = renderField(block, template, employee)
+      break
+    case "website":
+      content = renderWebsite(template)
+      break
+    case "socialLinks":
+      content = renderSocialLinks(block, template, options)
+      break
+    case "divider":
+      content = renderDivider(block, template)
+      break
+    case "spacer":
+      return `<tr>${spacerCell("height", block.height)}</tr>`
+  }
+
+  return content ? `<tr><td align="${align}" style="text-align:${align}">${content}</td></tr>` : null
+}
+
+/**
+ * Renders an employee's signature from a template
+ *
+ * @returns The signature's HTML, a single table without a surrounding document
+ */
+export function renderSignature(
+  template: SignatureTemplate,
+  employee: Employee,
+  options: RenderSignatureOptions = {},
+): string {
+  const columns = template.columns.map((column) => {
+    const rows = column.blocks
+      .map((block) => renderBlock(block, template, employee, column.align, options))
+      .filter(Boolean)
+    const css = style({ "vertical-align": column.verticalAlign, "text-align": column.align })
+    const blocks = `<table ${TABLE_ATTRIBUTES}>${rows.join("")}</table>`
+
+    return `<td valign="${column.verticalAlign}" style="${css}">${blocks}</td>`
+  })
+
+  const gap = template.columnGap > 0 ? spacerCell("width", template.columnGap) : ""
+  const css = style({ "font-family": escapeHtml(template.fonts.family), "font-size": "medium" })
+
+  return `<table ${TABLE_ATTRIBUTES} style="${css}"><tr>${columns.join(gap)}</tr></table>`
+}
+
+/**
+ * Renders the plain-text version of a signature, for clients and pastes without HTML
+ *
+ * Fields and the website come in the template's order, one per line, followed by the social links.
+ */
+export function renderSignatureText(template: SignatureTemplate, employee: Employee): string {
+  const lines: string[] = []
+  let hasSocialLinks = false
+
+  for (const block of template.columns.flatMap((column) => column.blocks)) {
+    if (block.type === "field") {
+      const value = getEmployeeField(employee, block.field)
+      if (value) lines.push(block.field === "scheduleLink" && block.label ? `${block.label}: ${value}` : value)
+    } else if (block.type === "website") {
+      lines.push(template.website.url)
+    } else if (block.type === "socialLinks") {
+      hasSocialLinks = true
+    }
+  }
+
+  if (hasSocialLinks) {
+    lines.push(...template.socialLinks.map((social) => `${SOCIAL_NETWORK_LABELS[social.network]}: ${social.url}`))
+  }
+
+  return lines.join("\n")
+}
+
+/**
+ * Wraps a signature in an HTML document of its own, for downloads
+ */
+export function renderSignatureDocument(signatureHtml: string, title: string): string {
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    "</head>",
+    '<body style="margin:0;padding:16px">',
+    signatureHtml,
+    "</body>",
+    "</html>",
+  ].join("\n")
+}
@@ -0,0 +1,209 @@
+/**
+ * Email signature templates.
+ *
+ * A template describes one client's signature as data: the website and social links it points to, its colors
+ * and fonts, and a layout of columns set side by side, each a stack of blocks. Field blocks name the `Employee`
+ * field they show, so the same template renders every employee of a tenant. `renderSignature` in
+ * `./render.ts` turns a template and an employee into the signature's HTML.
+ *
+ * Templates live with their tenant in `data/tenants.ts` and are validated with `signatureTemplateSchema`
+ * when that module loads, so a broken template fails the build instead of rendering a broken signature.
+ */
+
+import { z } from "zod"
+
+export interface Employee {
+  id: string
+  name: string
+  firstName: string
+  lastName: string
+  title: string
+  email: string
+  phone: string
+  avatarUrl: string
+  useCompanyLogo?: boolean // Flag to indicate if using company logo instead of personal headshot
+  scheduleLink?: string
+}
+
+// Steps for installing a signature in a mail client, shown in the delivery portal
+export interface InstallGuide {
+  id: string
+  title: string
+  steps: string[]
+}
+
+export const SOCIAL_NETWORKS = ["facebook", "linkedin", "twitter", "instagram", "youtube", "tiktok"] as const
+
+export type SocialNetwork = (typeof SOCIAL_NETWORKS)[number]
+
+// Employee fields a template can place. "name" is the first and last name on one line.
+export const EMPLOYEE_FIELDS = ["name", "firstName", "lastName", "title", "email", "phone", "scheduleLink"] as const
+
+export type EmployeeField = (typeof EMPLOYEE_FIELDS)[number]
+
+const colorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Expected a hex color like #29505F")
+
+// Absolute, or relative to the site for assets served from `public/`
+const assetUrlSchema = z.union([z.string().url(), z.string().startsWith("/")])
+
+/**
+ * Checks whether a value is an absolute `http:` or `https:` URL, so it can't be a `javascript:` or `data:` link
+ */
+export function isWebUrl(value: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol)
+  } catch {
+    return false
+  }
+}
+
+// A page signatures link to
+const webUrlSchema = z.string().trim().url().refine(isWebUrl, "Enter a link starting with https://")
+
+const signatureBlockSchema = z.discriminatedUnion("type", [
+  // The employee's avatar, or the company GIF when they use the company logo
+  z.object({
+    type: z.literal("avatar"),
+    size: z.number().int().min(16).max(300),
+    shape: z.enum(["circle", "square"]).default("circle"),
+    // Links the avatar to the template's website
+    linkToWebsite: z.boolean().default(true),
+  }),
+  z.object({
+    type: z.literal("field"),
+    field: z.enum(EMPLOYEE_FIELDS),
+    // Picks the font size, weight and color from the template's fonts and colors
+    style: z.enum(["name", "title", "detail"]),
+    // Link text for fields holding a URL, e.g. "Schedule a call" for `scheduleLink`
+    label: z.string().trim().min(1).optional(),
+  }),
+  z.object({ type: z.literal("website") }),
+  z.object({
+    type: z.literal("socialLinks"),
+    iconSize: z.number().int().min(12).max(48).default(20),
+  }),
+  z.object({
+    type: z.literal("divider"),
+    width: z.number().int().min(1).max(600),
+    thickness: z.number().int().min(1).max(10).default(2),
+  }),
+  z.object({
+    type: z.literal("spacer"),
+    height: z.number().int().min(1).max(100),
+  }),
+])
+
+export type SignatureBlock = z.infer<typeof signatureBlockSchema>
+
+export const signatureTemplateSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/),
+  website: z.object({
+    url: webUrlSchema,
+    // Link text, e.g. "movement.io"
+    label: z.string().trim().min(1),
+  }),
+  // Shown instead of the employee's avatar when they use the company logo
+  companyAvatarUrl: assetUrlSchema.optional(),
+  socialLinks: z
+    .array(
+      z.object({
+        network: z.enum(SOCIAL_NETWORKS),
+        url: webUrlSchema,
+        // A PNG or GIF, since Outlook and Gmail don't show SVG images. Falls back to a placeholder icon.
+        iconUrl: assetUrlSchema.optional(),
+      }),
+    )
+    .default([]),
+  colors: z.object({
+    // Name and divider
+    primary: colorSchema,
+    // Title and details
+    text: colorSchema,
+  }),
+  fonts: z
+    .object({
+      // A web-safe font stack, since mail clients don't load web fonts
+      family: z.string().trim().min(1).default("Arial, Helvetica, sans-serif"),
+      nameSize: z.number().int().min(8).max(40).default(20),
+      titleSize: z.number().int().min(8).max(40).default(14),
+      detailSize: z.number().int().min(8).max(40).default(12),
+    })
+    .default({}),
+  columns: z
+    .array(
+      z.object({
+        blocks: z.array(signatureBlockSchema).min(1),
+        align: z.enum(["left", "center", "right"]).default("left"),
+        verticalAlign: z.enum(["top", "middle", "bottom"]).default("top"),
+      }),
+    )
+    .min(1),
+  // Space between columns, in pixels
+  columnGap: z.number().int().min(0).max(100).default(24),
+})
+
+export type SignatureTemplate = z.infer<typeof signatureTemplateSchema>
+
+/**
+ * Validates a template, filling in defaults
+ *
+ * @throws {Error} Naming the template and its invalid properties
+ */
+export function defineSignatureTemplate(template: z.input<typeof signatureTemplateSchema>): SignatureTemplate {
+  const result = signatureTemplateSchema.safeParse(template)
+
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `- ${issue.path.join(".")}: ${issue.message}`).join("\n")
+    throw new Error(`Invalid signature template "${template.id}":\n${issues}`)
+  }
+
+  return result.data
+}
+
+/**
+ * Name of an employee's signature in mail clients, used for exported files too, e.g. "Movement.io - Chris Buhl"
+ */
+export function getSignatureName(companyName: string, employeeName: string): string {
+  // Leaves out characters Windows doesn't allow in file names
+  return `${companyName} - ${employeeName}`.replace(/[\\/:*?"<>|]/g, "").trim()
+}
+
+/**
+ * Reads a field of an employee, or `null` when it is empty
+ */
+export function getEmployeeField(employee: Employee, field: EmployeeField): string | null {
+  const value = field === "name" ? `${employee.firstName} ${employee.lastName}` : employee[field]
+  return value?.trim() || null
+}
+
+// What employees can change about their signature in the delivery portal
+export const signatureEditsSchema = z.object({
+  firstName: z.string().trim().min(1, "First name is required").max(50),
+  lastName: z.string().trim().max(50),
+  title: z.string().trim().max(100),
+  phone: z.string().trim().max(30),
+  scheduleLink: z.union([
+    z.literal(""),
+    z.string().trim().url("Enter a full link, e.g. https://calendly.com/you").refine(isWebUrl, {
+      message: "Enter a link starting with https://, e.g. https://calendly.com/you",
+    }),
+  ]),
+  useCompanyLogo: z.boolean(),
+})
+
+export type SignatureEdits = z.infer<typeof signatureEditsSchema>
+
+export const signatureRequestSchema = z.object({
+  tenantId: z.string().min(1),
+  employeeId: z.string().min(1),
+  edits: signatureEditsSchema.partial().default({}),
+})
+
+export type SignatureRequest = z.infer<typeof signatureRequestSchema>
+
+/**
+ * Applies an employee's edits from the delivery portal
+ */
+export function applySignatureEdits(employee: Employee, edits: Partial<SignatureEdits>): Employee {
+  return { ...employee, ...edits }
+}
@@ -0,0 +1,30 @@
+/**
+ * Authorization for staff-only API routes, like issuing custom quotes.
+ *
+ * Staff send the `STAFF_API_TOKEN` environment variable as a bearer token. There are no staff accounts;
+ * rotate the token to revoke access.
+ */
+
+import { createHash, timingSafeEqual } from "crypto"
+import { config } from "@/lib/config"
+
+/**
+ * Checks the request's `Authorization: Bearer` header against `STAFF_API_TOKEN`
+ */
+export function isStaffRequest(request: Request): boolean {
+  const STAFF_API_TOKEN = config.staffApiToken
+
+  if (!STAFF_API_TOKEN) {
+    console.error("Staff API token is missing. Check your environment variables.")
+    return false
+  }
+
+  const token = request.headers.get("authorization")?.match(/^Bearer (.+)$/)?.[1]
+  if (!token) return false
+
+  // Compare digests so the comparison takes the same time whatever the token's length
+  const expected = createHash("sha256").update(STAFF_API_TOKEN).digest()
+  const received = createHash("sha256").update(token).digest()
+
+  return timingSafeEqual(new Uint8Array(expected), new Uint8Array(received))
+}
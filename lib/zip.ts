@@ -0,0 +1,103 @@
+/**
+ * Minimal zip archive writer.
+ *
+ * Files are stored without compression, which every unzip tool reads and which costs little for exports
+ * that are mostly GIFs and PNGs, as those are compressed already. File names are UTF-8.
+ */
+
+export interface ZipEntry {
+  // Path inside the archive, with "/" between folders
+  path: string
+  data: Uint8Array | string
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1
+  }
+  return crc >>> 0
+})
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS time and date, the only timestamps the zip headers have room for
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+/**
+ * Writes files into a zip archive
+ */
+export function createZip(entries: ZipEntry[], modifiedAt: Date = new Date()): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder()
+  const { time, date } = toDosDateTime(modifiedAt)
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path)
+    const data = typeof entry.data === "string" ? encoder.encode(entry.data) : entry.data
+    const crc = crc32(data)
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true) // Local file header signature
+    local.setUint16(4, 20, true) // Version needed to extract
+    local.setUint16(6, 0x0800, true) // UTF-8 file names
+    local.setUint16(8, 0, true) // Stored, no compression
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, data.length, true) // Compressed size
+    local.setUint32(22, data.length, true) // Uncompressed size
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true) // Extra field length
+
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, 0x02014b50, true) // Central directory header signature
+    central.setUint16(4, 20, true) // Version made by
+    central.setUint16(6, 20, true) // Version needed to extract
+    central.setUint16(8, 0x0800, true)
+    central.setUint16(10, 0, true)
+    central.setUint16(12, time, true)
+    central.setUint16(14, date, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, data.length, true)
+    central.setUint32(24, data.length, true)
+    central.setUint16(28, name.length, true)
+    // Extra field, comment, disk number, internal and external attributes are all zero
+    central.setUint32(42, offset, true) // Offset of the local header
+
+    localParts.push(new Uint8Array(local.buffer), name, data)
+    centralParts.push(new Uint8Array(central.buffer), name)
+    offset += 30 + name.length + data.length
+  }
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true) // End of central directory signature
+  end.setUint16(8, entries.length, true) // Entries on this disk
+  end.setUint16(10, entries.length, true) // Entries in total
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true) // Offset of the central directory
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)]
+  const zip = new Uint8Array(parts.reduce((size, part) => size + part.length, 0))
+  let position = 0
+  for (const part of parts) {
+    zip.set(part, position)
+    position += part.length
+  }
+
+  return zip
+}